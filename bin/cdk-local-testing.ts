@@ -1,20 +1,61 @@
 #!/usr/bin/env node
 import * as cdk from 'aws-cdk-lib';
-import { CdkLocalTestingStack } from '../lib/cdk-local-testing-stack';
+import { DataTableStack } from '../lib/stacks/data/data-table.cdk-stack';
+import { RestApiStack } from '../lib/stacks/api/rest-api.cdk-stack';
+import { TableStreamStack } from '../lib/stacks/stream/table-stream.cdk-stack';
+import { QueueStack } from '../lib/stacks/queue/queue.cdk-stack';
+import { ScheduleStack } from '../lib/stacks/schedule/schedule.cdk-stack';
+import { StageEnum } from '../lib/enums/stage.enum';
+import { loadConfig, resolveStage } from '../lib/config/config.loader';
 
 const app = new cdk.App();
-new CdkLocalTestingStack(app, 'CdkLocalTestingStack', {
-  /* If you don't specify 'env', this stack will be environment-agnostic.
-   * Account/Region-dependent features and context lookups will not work,
-   * but a single synthesized template can be deployed anywhere. */
 
-  /* Uncomment the next line to specialize this stack for the AWS Account
-   * and Region that are implied by the current CLI configuration. */
-  // env: { account: process.env.CDK_DEFAULT_ACCOUNT, region: process.env.CDK_DEFAULT_REGION },
+/* The stage comes from the context (cdk deploy -c stage=qa) or the STAGE variable, its settings from lib/config/<stage>.config.ts. */
+const config = loadConfig(resolveStage(StageEnum.DEV, process.argv, { STAGE: app.node.tryGetContext('stage') || process.env.STAGE }));
+if (config.stage === 'local') throw new Error('The local stage is only run by the local server, deploy one of dev, qa, prod.');
 
-  /* Uncomment the next line if you know exactly what Account and Region you
-   * want to deploy the stack to. */
-  // env: { account: '123456789012', region: 'us-east-1' },
+const stage = config.stage;
+const env = { account: config.account, region: config.region };
 
-  /* For more information, see https://docs.aws.amazon.com/cdk/latest/guide/environments.html */
-});
\ No newline at end of file
+const lambdaProps = {
+  stage,
+  env,
+  region: config.region,
+  userPoolArn: config.userPool?.arn,
+  userPoolId: config.userPool?.id,
+  logLevel: config.logLevel
+};
+
+/* The table is created from the same definition that the local server setup (testing/server-setup.service.ts) uses. */
+const dataTableStack = new DataTableStack(app, {
+  stage,
+  env,
+  tableName: config.tableName
+});
+
+/* The @Queue queues and their functions, the other functions get send access to the queues in their sendsTo. */
+const queueStack = new QueueStack(app, {
+  ...lambdaProps,
+  table: dataTableStack.table
+});
+
+/* The API routes and functions are generated from the same decorators that the local server (testing/server.ts) uses. */
+new RestApiStack(app, {
+  ...lambdaProps,
+  table: dataTableStack.table,
+  queues: queueStack.queues
+});
+
+/* The @StreamHandler functions, invoked by the stream of the table with the same filters that the local server applies. */
+new TableStreamStack(app, {
+  ...lambdaProps,
+  table: dataTableStack.table,
+  queues: queueStack.queues
+});
+
+/* The @Schedule functions, invoked by EventBridge rules on the same expressions that the local server runs them on. */
+new ScheduleStack(app, {
+  ...lambdaProps,
+  table: dataTableStack.table,
+  queues: queueStack.queues
+});
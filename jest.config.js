@@ -2,7 +2,10 @@ module.exports = {
   testEnvironment: 'node',
   roots: ['<rootDir>/test'],
   testMatch: ['**/*.test.ts'],
+  // Gives every test file its own table, before any of the services are loaded.
+  setupFiles: ['<rootDir>/testing/integration-test.env.ts'],
   transform: {
-    '^.+\\.tsx?$': 'ts-jest'
+    // NodeNext implies esModuleInterop for tsc, but not for ts-jest, which compiles to CommonJS.
+    '^.+\\.tsx?$': ['ts-jest', { tsconfig: { esModuleInterop: true } }]
   }
 };
@@ -0,0 +1,172 @@
+import { LogLevelEnum } from '../enums/log-level.enum';
+import { StageEnum } from '../enums/stage.enum';
+import { ConfigStage, ILocalServerConfig, IStageConfig } from '../interfaces/stage.config';
+import { devConfig } from './dev.config';
+import { localConfig } from './local.config';
+import { prodConfig } from './prod.config';
+import { qaConfig } from './qa.config';
+
+export const STAGE_CONFIGS: Record<ConfigStage, IStageConfig> = {
+	local: localConfig,
+	[StageEnum.DEV]: devConfig,
+	[StageEnum.QA]: qaConfig,
+	[StageEnum.PROD]: prodConfig
+};
+
+// These stages are only deployed to an account of their own, so that they can't end up in the account of a developer.
+const ACCOUNT_STAGES: ConfigStage[] = [StageEnum.QA, StageEnum.PROD];
+
+type Environment = Record<string, string | undefined>;
+
+const DYNAMODB_MODES: ILocalServerConfig['dynamoDb']['mode'][] = ['container', 'memory'];
+const LAMBDA_EXECUTIONS: ILocalServerConfig['lambdaExecution'][] = ['process', 'worker'];
+const API_PAYLOAD_VERSIONS: ILocalServerConfig['apiPayloadVersion'][] = ['1.0', '2.0'];
+
+/**
+ * The stage from the --stage argument (e.g. --stage qa or --stage=qa), or else from the STAGE variable.
+ *
+ * ! Throws for an unknown stage.
+ *
+ * @param fallback - The stage when neither is set, e.g. "local" for the local server.
+ * @param argv
+ * @param env
+ * @returns
+ */
+export const resolveStage = (fallback: ConfigStage, argv: string[] = process.argv, env: Environment = process.env): ConfigStage => {
+	const index = argv.findIndex(arg => arg === '--stage' || arg.startsWith('--stage='));
+	const argument = index < 0 ? undefined : argv[index].includes('=') ? argv[index].split('=')[1] : argv[index + 1];
+	const stage = argument || env.STAGE || fallback;
+
+	if (!(stage in STAGE_CONFIGS))
+		throw new Error(`Unknown stage "${stage}", use one of ${Object.keys(STAGE_CONFIGS).join(', ')}.`);
+
+	return stage as ConfigStage;
+}
+
+/**
+ * Load the config of a stage from its file (lib/config/<stage>.config.ts), with the overrides of the environment variables.
+ *
+ * The variables are the ones the functions and the local server already use, e.g. REGION, TABLE_NAME or DYNAMODB_MODE.
+ *
+ * ! Throws with every missing or invalid value, so that the CDK app and the local server fail at startup instead of on the first request.
+ *
+ * @param stage
+ * @param env
+ * @returns
+ */
+export const loadConfig = (stage: ConfigStage, env: Environment = process.env): Readonly<IStageConfig> => {
+	const config = applyOverrides(STAGE_CONFIGS[stage], env);
+	const errors = validateConfig(config, env);
+
+	if (errors.length)
+		throw new Error(`Invalid config for the stage "${stage}" (lib/config/${stage}.config.ts):\n- ${errors.join('\n- ')}`);
+
+	return config;
+}
+
+/**
+ * The environment variables of the local server, which the lambda code reads the same way as the variables that the CDK sets on the functions.
+ *
+ * @param config
+ * @returns
+ */
+export const toServerEnvironment = (config: IStageConfig): Record<string, string> => {
+	const { server } = config;
+	if (!server) throw new Error(`The local server can't run the stage "${config.stage}", lib/config/${config.stage}.config.ts doesn't have its server settings.`);
+
+	const env: Record<string, string> = {
+		STAGE: config.stage,
+		REGION: config.region,
+		TABLE_NAME: config.tableName,
+		IS_LOCAL: 'true',
+		DYNAMODB_MODE: server.dynamoDb.mode,
+		DYNAMODB_ENDPOINT: server.dynamoDb.endpoint,
+		LAMBDA_EXECUTION: server.lambdaExecution,
+		API_PAYLOAD_VERSION: server.apiPayloadVersion
+	};
+
+	if (server.idleTimeout !== undefined) env.LAMBDA_IDLE_TIMEOUT = String(server.idleTimeout);
+	if (config.userPool) env.USERPOOL_ID = config.userPool.id;
+	if (config.logLevel) env.LOG_LEVEL = config.logLevel;
+
+	return env;
+}
+
+const applyOverrides = (config: IStageConfig, env: Environment): IStageConfig => {
+	const userPoolId = env.USERPOOL_ID || config.userPool?.id;
+	const userPoolArn = env.USERPOOL_ARN || config.userPool?.arn;
+
+	return {
+		...config,
+		account: env.ACCOUNT || config.account,
+		region: env.REGION || config.region,
+		tableName: env.TABLE_NAME || config.tableName,
+		userPool: userPoolId || userPoolArn ? { id: userPoolId!, arn: userPoolArn } : undefined,
+		logLevel: (env.LOG_LEVEL?.toUpperCase() as LogLevelEnum) || config.logLevel,
+		server: config.server && {
+			...config.server,
+			port: env.PORT ? Number(env.PORT) : config.server.port,
+			dynamoDb: {
+				mode: asOneOf(DYNAMODB_MODES, env.DYNAMODB_MODE) || config.server.dynamoDb.mode,
+				endpoint: env.DYNAMODB_ENDPOINT || config.server.dynamoDb.endpoint
+			},
+			lambdaExecution: asOneOf(LAMBDA_EXECUTIONS, env.LAMBDA_EXECUTION) || config.server.lambdaExecution,
+			idleTimeout: env.LAMBDA_IDLE_TIMEOUT ? Number(env.LAMBDA_IDLE_TIMEOUT) : config.server.idleTimeout,
+			apiPayloadVersion: asOneOf(API_PAYLOAD_VERSIONS, env.API_PAYLOAD_VERSION) || config.server.apiPayloadVersion
+		}
+	};
+}
+
+/**
+ * The value when it is one of the allowed values, so that an invalid variable can't end up in the config.
+ *
+ * @param allowed
+ * @param value
+ * @returns - Undefined for any other value, validateConfig() then reports the variable.
+ */
+const asOneOf = <T extends string>(allowed: T[], value: string | undefined): T | undefined => allowed.find(option => option === value);
+
+/**
+ * @param config
+ * @param env - The variables that are only in the config when they are one of the allowed values.
+ * @returns - The errors, empty when the config is valid.
+ */
+const validateConfig = (config: IStageConfig, env: Environment): string[] => {
+	const errors: string[] = [];
+	const isDeployed = config.stage !== 'local';
+
+	if (!config.region) errors.push('region is required (REGION).');
+	if (!config.tableName) errors.push('tableName is required (TABLE_NAME).');
+
+	if (!config.account && ACCOUNT_STAGES.includes(config.stage))
+		errors.push(`account is required (ACCOUNT), ${config.stage} is only deployed to an account of its own.`);
+	if (config.account && !/^\d{12}$/.test(config.account))
+		errors.push(`account must be an AWS account id of 12 digits, got "${config.account}".`);
+
+	if (config.userPool && !config.userPool.id) errors.push('userPool.id is required (USERPOOL_ID).');
+	if (config.userPool && !config.userPool.arn && isDeployed) errors.push('userPool.arn is required to deploy the authorizer (USERPOOL_ARN).');
+
+	if (config.logLevel && !Object.values(LogLevelEnum).includes(config.logLevel))
+		errors.push(`logLevel must be one of ${Object.values(LogLevelEnum).join(', ')}, got "${config.logLevel}" (LOG_LEVEL).`);
+
+	const { server } = config;
+	if (server) {
+		if (!Number.isInteger(server.port) || server.port < 1 || server.port > 65535)
+			errors.push(`server.port must be a port number, got "${server.port}" (PORT).`);
+		const mode = env.DYNAMODB_MODE || server.dynamoDb.mode;
+		if (!asOneOf(DYNAMODB_MODES, mode))
+			errors.push(`server.dynamoDb.mode must be one of ${DYNAMODB_MODES.join(', ')}, got "${mode}" (DYNAMODB_MODE).`);
+		if (server.dynamoDb.mode === 'container' && !URL.canParse(server.dynamoDb.endpoint))
+			errors.push(`server.dynamoDb.endpoint must be a URL, got "${server.dynamoDb.endpoint}" (DYNAMODB_ENDPOINT).`);
+		const lambdaExecution = env.LAMBDA_EXECUTION || server.lambdaExecution;
+		if (!asOneOf(LAMBDA_EXECUTIONS, lambdaExecution))
+			errors.push(`server.lambdaExecution must be one of ${LAMBDA_EXECUTIONS.join(', ')}, got "${lambdaExecution}" (LAMBDA_EXECUTION).`);
+		if (server.idleTimeout !== undefined && !(server.idleTimeout >= 0))
+			errors.push(`server.idleTimeout must be a number of seconds, got "${server.idleTimeout}" (LAMBDA_IDLE_TIMEOUT).`);
+		const apiPayloadVersion = env.API_PAYLOAD_VERSION || server.apiPayloadVersion;
+		if (!asOneOf(API_PAYLOAD_VERSIONS, apiPayloadVersion))
+			errors.push(`server.apiPayloadVersion must be one of ${API_PAYLOAD_VERSIONS.join(', ')}, got "${apiPayloadVersion}" (API_PAYLOAD_VERSION).`);
+	}
+
+	return errors;
+}
@@ -0,0 +1,12 @@
+import { StageEnum } from '../enums/stage.enum';
+import { IStageConfig } from '../interfaces/stage.config';
+
+/**
+ * Deployed to the account of the credentials that the CDK CLI runs with.
+ */
+export const devConfig: IStageConfig = {
+	stage: StageEnum.DEV,
+	account: process.env.CDK_DEFAULT_ACCOUNT,
+	region: 'eu-west-1',
+	tableName: 'dev-data'
+};
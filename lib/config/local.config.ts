@@ -0,0 +1,23 @@
+import { IStageConfig } from '../interfaces/stage.config';
+
+/**
+ * The local server and the table CLI, against the DynamoDB Local container.
+ */
+export const localConfig: IStageConfig = {
+	stage: 'local',
+	region: 'eu-west-1',
+	tableName: 'dev-data',
+	server: {
+		port: 3000,
+		dynamoDb: {
+			mode: 'container',
+			endpoint: 'http://localhost:8000'
+		},
+		lambdaExecution: 'process',
+		apiPayloadVersion: '1.0',
+		seed: {
+			onCreate: true,
+			entities: []
+		}
+	}
+};
@@ -0,0 +1,11 @@
+import { StageEnum } from '../enums/stage.enum';
+import { IStageConfig } from '../interfaces/stage.config';
+
+/**
+ * ! Set the account and the user pool of the stage before it is deployed.
+ */
+export const prodConfig: IStageConfig = {
+	stage: StageEnum.PROD,
+	region: 'eu-west-1',
+	tableName: 'prod-data'
+};
@@ -0,0 +1,11 @@
+import { StageEnum } from '../enums/stage.enum';
+import { IStageConfig } from '../interfaces/stage.config';
+
+/**
+ * ! Set the account of the stage before it is deployed, e.g. account: '123456789012'.
+ */
+export const qaConfig: IStageConfig = {
+	stage: StageEnum.QA,
+	region: 'eu-west-1',
+	tableName: 'qa-data'
+};
@@ -0,0 +1,9 @@
+// The application log levels of Lambda, from the most to the least verbose.
+export enum LogLevelEnum {
+	TRACE = 'TRACE',
+	DEBUG = 'DEBUG',
+	INFO = 'INFO',
+	WARN = 'WARN',
+	ERROR = 'ERROR',
+	FATAL = 'FATAL'
+}
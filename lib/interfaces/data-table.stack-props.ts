@@ -0,0 +1,9 @@
+import { StackProps } from "aws-cdk-lib";
+
+import { StageEnum } from "../enums/stage.enum";
+
+export interface IDataTableStackProps extends StackProps {
+	stage: StageEnum;
+	// The name of the table in the config of the stage, getDataTableName(stage) when not set.
+	tableName?: string;
+}
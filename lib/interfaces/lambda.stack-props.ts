@@ -1,14 +1,20 @@
 import { StackProps } from "aws-cdk-lib";
+import { ITable } from "aws-cdk-lib/aws-dynamodb";
+import { IQueue } from "aws-cdk-lib/aws-sqs";
 
+import { LogLevelEnum } from "../enums/log-level.enum";
 import { StageEnum } from "../enums/stage.enum";
 
 export interface ILambdaStackProps extends StackProps {
 	stage: StageEnum;
 	region: string;
-	// Both of these are required for the DynamoDB access
-	accountId?: string;
-	dynamoDbTableName?: string;
+	// The table of the DataTableStack, the functions get its name and read/write access.
+	table?: ITable;
+	// The queues of the QueueStack by their @Queue name, the functions get send access to the ones in their sendsTo.
+	queues?: Record<string, IQueue>;
 	// Both of these are required for the AdminUser access.
 	userPoolArn?: string;
 	userPoolId?: string;
+	// Overrides the log level of the stage (STAGE_LOG_LEVELS), e.g. DEBUG to look into an issue on prod.
+	logLevel?: LogLevelEnum;
 }
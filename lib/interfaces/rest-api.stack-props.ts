@@ -0,0 +1,6 @@
+import { ILambdaStackProps } from "./lambda.stack-props";
+
+export interface IRestApiStackProps extends ILambdaStackProps {
+	// Deploy the API from the generated OpenAPI document instead of building the resources one by one.
+	useOpenApiDefinition?: boolean;
+}
@@ -0,0 +1,49 @@
+import { LogLevelEnum } from "../enums/log-level.enum";
+import { StageEnum } from "../enums/stage.enum";
+
+// The deployed stages, and "local" for the local server.
+export type ConfigStage = StageEnum | 'local';
+
+export interface IUserPoolConfig {
+	id: string;
+	// Required to deploy, the local authorizer only needs the id.
+	arn?: string;
+}
+
+export interface ISeedConfig {
+	// Seed the fixtures when the local server creates the table.
+	onCreate: boolean;
+	// Only the fixtures of these entities, all of them when empty.
+	entities: string[];
+}
+
+export interface ILocalServerConfig {
+	port: number;
+	dynamoDb: {
+		// "memory" runs against an in-memory table instead of the DynamoDB Local container.
+		mode: 'container' | 'memory';
+		// The DynamoDB Local container.
+		endpoint: string;
+	};
+	// "worker" runs the functions in worker threads, with their timeout and memory size.
+	lambdaExecution: 'process' | 'worker';
+	// Seconds before an idle worker is stopped, 0 makes every invocation a cold start.
+	idleTimeout?: number;
+	// "1.0" for the events of a REST API, "2.0" for those of an HTTP API.
+	apiPayloadVersion: '1.0' | '2.0';
+	seed: ISeedConfig;
+}
+
+export interface IStageConfig {
+	stage: ConfigStage;
+	// The stacks are environment-agnostic without an account, which is only allowed for dev.
+	account?: string;
+	region: string;
+	tableName: string;
+	// The Cognito user pool of the authorizer.
+	userPool?: IUserPoolConfig;
+	// Overrides the log level of the stage (STAGE_LOG_LEVELS).
+	logLevel?: LogLevelEnum;
+	// Only the stages that the local server runs, e.g. "local".
+	server?: ILocalServerConfig;
+}
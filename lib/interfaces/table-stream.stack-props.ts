@@ -0,0 +1,8 @@
+import { ITable } from "aws-cdk-lib/aws-dynamodb";
+
+import { ILambdaStackProps } from "./lambda.stack-props";
+
+export interface ITableStreamStackProps extends ILambdaStackProps {
+	// The table of the DataTableStack, its stream invokes the functions.
+	table: ITable;
+}
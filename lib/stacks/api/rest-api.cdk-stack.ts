@@ -0,0 +1,194 @@
+import * as cdk from 'aws-cdk-lib';
+import {
+	ApiDefinition,
+	AuthorizationType,
+	CognitoUserPoolsAuthorizer,
+	Cors,
+	LambdaIntegration,
+	MethodOptions,
+	RestApi,
+	RestApiBase,
+	SpecRestApi
+} from 'aws-cdk-lib/aws-apigateway';
+import { UserPool } from 'aws-cdk-lib/aws-cognito';
+import { ServicePrincipal } from 'aws-cdk-lib/aws-iam';
+import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
+import { Construct } from 'constructs';
+
+import { IRestApiStackProps } from '../../interfaces/rest-api.stack-props';
+import { RequestLambda } from '../lambda/request-lambda.cdk-construct';
+import { validateLambdaStackProps } from '../lambda/lambda-stack-props.validator';
+import { getFunctionName } from '../lambda/lambda-function.definition';
+import { ILoadedController, loadControllers, toApiGatewayPath } from '../../../testing/controller.loader';
+import { buildOpenApiDocument } from '../../../testing/openapi.generator';
+
+/**
+ * Creates the REST API from the same @Controller/@Get/@Post/... decorators that the local server uses.
+ *
+ * Every lambda code file gets its own function, which is then attached to each of the routes of its controller.
+ * When a user pool is configured, every route that isn't marked with @Public() goes through a Cognito authorizer.
+ */
+export class RestApiStack extends cdk.Stack {
+	readonly api: RestApiBase;
+	readonly functions: Record<string, NodejsFunction> = {};
+
+	constructor(scope: Construct, props: IRestApiStackProps) {
+		const id = `${props.stage}-ProjectName-api`;
+		validateLambdaStackProps(id, props);
+
+		super(scope, id, props);
+
+		const loadedControllers = loadControllers('ts');
+		this.validateRoutes(loadedControllers);
+
+		loadedControllers.forEach(({ folder, codeFile }) => {
+			const functionId = getFunctionName(props.stage, folder, codeFile);
+			this.functions[`${folder}/${codeFile}`] = new RequestLambda(this, functionId, folder, codeFile, props).function;
+		});
+
+		this.api = props.useOpenApiDefinition
+			? this.createSpecRestApi(id, props, loadedControllers)
+			: this.createRestApi(id, props, loadedControllers);
+
+		cdk.Tags.of(this.api).add('app', 'ProjectName');
+	}
+
+	/**
+	 * Build the resource/method tree one route at a time.
+	 *
+	 * @param id
+	 * @param props
+	 * @param loadedControllers
+	 * @returns
+	 */
+	private createRestApi(id: string, props: IRestApiStackProps, loadedControllers: ILoadedController[]) {
+		const api = new RestApi(this, id, {
+			restApiName: id,
+			deployOptions: {
+				stageName: props.stage
+			},
+			// Matches the cors() middleware of the local server.
+			defaultCorsPreflightOptions: {
+				allowOrigins: Cors.ALL_ORIGINS,
+				allowMethods: Cors.ALL_METHODS,
+				allowHeaders: ['*']
+			}
+		});
+
+		let authorizer: CognitoUserPoolsAuthorizer | undefined;
+		if (props.userPoolArn)
+			authorizer = new CognitoUserPoolsAuthorizer(this, `${id}-authorizer`, {
+				authorizerName: `${id}-authorizer`,
+				cognitoUserPools: [UserPool.fromUserPoolArn(this, `${id}-user-pool`, props.userPoolArn)]
+			});
+
+		loadedControllers.forEach(({ folder, codeFile, routes }) => {
+			const integration = new LambdaIntegration(this.functions[`${folder}/${codeFile}`]);
+
+			routes.forEach(({ httpMethod, fullPath, isPublic }) => {
+				const resourcePath = toApiGatewayPath(fullPath);
+				const resource = resourcePath ? api.root.resourceForPath(resourcePath) : api.root;
+
+				// The authorizer only validates the token, the @UserTypes() are checked by the auth middleware of the function.
+				const options: MethodOptions = authorizer && !isPublic
+					? { authorizer, authorizationType: AuthorizationType.COGNITO }
+					: {};
+
+				resource.addMethod(httpMethod === 'all' ? 'ANY' : httpMethod.toUpperCase(), integration, options);
+			});
+		});
+
+		return api;
+	}
+
+	/**
+	 * Use the OpenAPI document, with the API Gateway extensions, as the definition of the API.
+	 *
+	 * @param id
+	 * @param props
+	 * @param loadedControllers
+	 * @returns
+	 */
+	private createSpecRestApi(id: string, props: IRestApiStackProps, loadedControllers: ILoadedController[]) {
+		const document = buildOpenApiDocument(loadedControllers, {
+			title: id,
+			version: props.stage,
+			openApiVersion: '3.0.1',
+			withAuth: !!props.userPoolArn,
+			securitySchemeExtensions: {
+				'x-amazon-apigateway-authtype': 'cognito_user_pools',
+				'x-amazon-apigateway-authorizer': {
+					type: 'cognito_user_pools',
+					providerARNs: [props.userPoolArn]
+				}
+			},
+			operationExtensions: ({ folder, codeFile }) => ({
+				'x-amazon-apigateway-integration': {
+					type: 'aws_proxy',
+					httpMethod: 'POST',
+					uri: `arn:${cdk.Aws.PARTITION}:apigateway:${cdk.Aws.REGION}:lambda:path/2015-03-31/functions/${this.functions[`${folder}/${codeFile}`].functionArn}/invocations`
+				}
+			})
+		});
+
+		// Matches the cors() middleware of the local server.
+		for (const path in document.paths)
+			document.paths[path].options = {
+				responses: {
+					200: {
+						description: 'CORS preflight.',
+						headers: {
+							'Access-Control-Allow-Headers': { schema: { type: 'string' } },
+							'Access-Control-Allow-Methods': { schema: { type: 'string' } },
+							'Access-Control-Allow-Origin': { schema: { type: 'string' } }
+						}
+					}
+				},
+				'x-amazon-apigateway-integration': {
+					type: 'mock',
+					requestTemplates: { 'application/json': '{"statusCode": 200}' },
+					responses: {
+						default: {
+							statusCode: '200',
+							responseParameters: {
+								'method.response.header.Access-Control-Allow-Headers': "'*'",
+								'method.response.header.Access-Control-Allow-Methods': "'*'",
+								'method.response.header.Access-Control-Allow-Origin': "'*'"
+							}
+						}
+					}
+				}
+			};
+
+		const api = new SpecRestApi(this, id, {
+			restApiName: id,
+			apiDefinition: ApiDefinition.fromInline(document),
+			deployOptions: {
+				stageName: props.stage
+			}
+		});
+
+		Object.values(this.functions).forEach(fn => fn.addPermission(`${id}-invoke`, {
+			principal: new ServicePrincipal('apigateway.amazonaws.com'),
+			sourceArn: api.arnForExecuteApi()
+		}));
+
+		return api;
+	}
+
+	/**
+	 * Make sure that no route is declared twice, the same check the local server does.
+	 *
+	 * @param loadedControllers
+	 */
+	private validateRoutes(loadedControllers: ILoadedController[]) {
+		const routes: string[] = [];
+
+		loadedControllers.forEach(({ routes: controllerRoutes }) => controllerRoutes.forEach(({ httpMethod, fullPath }) => {
+			const route = `[${httpMethod.toUpperCase()}] ${fullPath}`;
+			if (routes.includes(route)) throw new Error(`Duplicate Route: ${route}`);
+
+			routes.push(route);
+		}));
+	}
+}
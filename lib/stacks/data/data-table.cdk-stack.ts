@@ -0,0 +1,47 @@
+import * as cdk from 'aws-cdk-lib';
+import { Attribute, AttributeType, BillingMode, ProjectionType, StreamViewType, Table } from 'aws-cdk-lib/aws-dynamodb';
+import { Construct } from 'constructs';
+
+import { IDataTableStackProps } from '../../interfaces/data-table.stack-props';
+import { DATA_TABLE, getDataTableName, IKeyAttribute } from './data-table.definition';
+
+const ATTRIBUTE_TYPES: Record<IKeyAttribute['type'], AttributeType> = {
+	S: AttributeType.STRING,
+	N: AttributeType.NUMBER,
+	B: AttributeType.BINARY
+};
+
+/**
+ * Creates the single data table, with its indexes, from the shared table definition.
+ */
+export class DataTableStack extends cdk.Stack {
+	readonly table: Table;
+
+	constructor(scope: Construct, props: IDataTableStackProps) {
+		const id = `${props.stage}-ProjectName-data`;
+
+		super(scope, id, props);
+
+		this.table = new Table(this, `${id}-table`, {
+			tableName: props.tableName || getDataTableName(props.stage),
+			billingMode: BillingMode.PAY_PER_REQUEST,
+			partitionKey: this.toAttribute(DATA_TABLE.partitionKey),
+			sortKey: DATA_TABLE.sortKey && this.toAttribute(DATA_TABLE.sortKey),
+			stream: DATA_TABLE.stream && StreamViewType[DATA_TABLE.stream]
+		});
+
+		DATA_TABLE.globalSecondaryIndexes.forEach(index => this.table.addGlobalSecondaryIndex({
+			indexName: index.indexName,
+			partitionKey: this.toAttribute(index.partitionKey),
+			sortKey: index.sortKey && this.toAttribute(index.sortKey),
+			projectionType: ProjectionType[index.projectionType],
+			nonKeyAttributes: index.nonKeyAttributes
+		}));
+
+		cdk.Tags.of(this.table).add('app', 'ProjectName');
+	}
+
+	private toAttribute({ name, type }: IKeyAttribute): Attribute {
+		return { name, type: ATTRIBUTE_TYPES[type] };
+	}
+}
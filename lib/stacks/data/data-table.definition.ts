@@ -0,0 +1,109 @@
+import { AttributeDefinition, CreateTableCommandInput, KeySchemaElement } from '@aws-sdk/client-dynamodb';
+
+import { StageEnum } from '../../enums/stage.enum';
+
+/**
+ * The schema of the data table, used by the DataTableStack, the local server setup and the AWS CLI JSON.
+ *
+ * ! This file is also bundled into the lambdas, so it can't import anything from aws-cdk-lib.
+ */
+
+export type KeyAttributeType = 'S' | 'N' | 'B';
+
+export interface IKeyAttribute {
+	name: string;
+	type: KeyAttributeType;
+}
+
+export interface IIndexDefinition {
+	indexName: string;
+	partitionKey: IKeyAttribute;
+	sortKey?: IKeyAttribute;
+	projectionType: 'ALL' | 'KEYS_ONLY' | 'INCLUDE';
+	// Only used with the INCLUDE projection type.
+	nonKeyAttributes?: string[];
+}
+
+export type StreamViewType = 'KEYS_ONLY' | 'NEW_IMAGE' | 'OLD_IMAGE' | 'NEW_AND_OLD_IMAGES';
+
+export interface ITableDefinition {
+	partitionKey: IKeyAttribute;
+	sortKey?: IKeyAttribute;
+	globalSecondaryIndexes: IIndexDefinition[];
+	// Enables the stream of the table, which invokes the @StreamHandler functions.
+	stream?: StreamViewType;
+}
+
+export const SK_PK_INDEX = 'SK-PK-index';
+
+export const DATA_TABLE: ITableDefinition = {
+	partitionKey: { name: 'PK', type: 'S' },
+	sortKey: { name: 'SK', type: 'S' },
+	globalSecondaryIndexes: [
+		{
+			// Used to list all the items of a type, and the parents of an item.
+			indexName: SK_PK_INDEX,
+			partitionKey: { name: 'SK', type: 'S' },
+			sortKey: { name: 'PK', type: 'S' },
+			projectionType: 'ALL'
+		}
+	],
+	stream: 'NEW_AND_OLD_IMAGES'
+};
+
+/**
+ * Get the name of the data table of a stage, e.g. "dev-data".
+ *
+ * @param stage
+ * @returns
+ */
+export const getDataTableName = (stage: StageEnum) => `${stage}-data`;
+
+/**
+ * Convert the definition to the input of a CreateTableCommand, which is also the format of the AWS CLI JSON.
+ *
+ * @param tableName
+ * @param definition
+ * @returns
+ */
+export const toCreateTableInput = (tableName: string, definition: ITableDefinition = DATA_TABLE): CreateTableCommandInput => {
+	const keyAttributes = [
+		definition.partitionKey,
+		definition.sortKey,
+		...definition.globalSecondaryIndexes.flatMap(index => [index.partitionKey, index.sortKey])
+	].filter((attribute): attribute is IKeyAttribute => !!attribute);
+
+	// Every key attribute has to be defined exactly once.
+	const attributeDefinitions: AttributeDefinition[] = [];
+	keyAttributes.forEach(({ name, type }) => {
+		if (!attributeDefinitions.some(definition => definition.AttributeName === name))
+			attributeDefinitions.push({ AttributeName: name, AttributeType: type });
+	});
+
+	const input: CreateTableCommandInput = {
+		TableName: tableName,
+		BillingMode: 'PAY_PER_REQUEST',
+		AttributeDefinitions: attributeDefinitions,
+		KeySchema: toKeySchema(definition.partitionKey, definition.sortKey)
+	};
+
+	if (definition.globalSecondaryIndexes.length)
+		input.GlobalSecondaryIndexes = definition.globalSecondaryIndexes.map(index => ({
+			IndexName: index.indexName,
+			KeySchema: toKeySchema(index.partitionKey, index.sortKey),
+			Projection: index.projectionType === 'INCLUDE'
+				? { ProjectionType: index.projectionType, NonKeyAttributes: index.nonKeyAttributes }
+				: { ProjectionType: index.projectionType }
+		}));
+
+	if (definition.stream) input.StreamSpecification = { StreamEnabled: true, StreamViewType: definition.stream };
+
+	return input;
+}
+
+const toKeySchema = (partitionKey: IKeyAttribute, sortKey?: IKeyAttribute): KeySchemaElement[] => {
+	const keySchema: KeySchemaElement[] = [{ AttributeName: partitionKey.name, KeyType: 'HASH' }];
+	if (sortKey) keySchema.push({ AttributeName: sortKey.name, KeyType: 'RANGE' });
+
+	return keySchema;
+}
@@ -0,0 +1,47 @@
+import { Context, DynamoDBStreamEvent } from "aws-lambda";
+import { StreamHandler } from "../../../../../testing/decorators";
+import { RELATIONSHIPS } from "../../entities/entity.registry";
+import { NotFoundError } from "../../errors/http.error";
+import { invokeHandler } from "../../helpers/lambda-handler.helper";
+import { ITag } from "../../interfaces/ITag";
+import { DynamoDbService } from "../../services/dynamodb.service";
+import { LoggerService } from "../../services/logger.service";
+
+const logger = new LoggerService();
+
+/**
+ * Removes the tags of the items that were deleted, so that the tags don't keep on listing them.
+ */
+@StreamHandler({ eventName: ['REMOVE'], sk: 'ITEM' })
+export class ItemTagsCleanupStreamHandler {
+	async handler(event: DynamoDBStreamEvent) {
+		const dynamoDbService = new DynamoDbService();
+
+		for (const record of event.Records) {
+			// PK = ITEM#<id>
+			const itemId = record.dynamodb!.Keys!.PK.S!.slice('ITEM#'.length);
+			logger.info(`Removing the Tags of deleted Item ${itemId}.`);
+
+			let cursor: string | undefined;
+			do {
+				const page = await dynamoDbService.listChildren<ITag>(RELATIONSHIPS.ITEM_TAGS, itemId, { cursor });
+
+				for (const tag of page.items) {
+					try {
+						await dynamoDbService.unlink(RELATIONSHIPS.ITEM_TAGS, itemId, tag.name);
+					} catch (error) {
+						// Already removed, e.g. when the batch is retried.
+						if (!(error instanceof NotFoundError)) throw error;
+					}
+				}
+
+				cursor = page.nextCursor;
+			} while (cursor);
+		}
+	}
+}
+
+export const handler = async (event: DynamoDBStreamEvent, context?: Context) => {
+	const streamHandler = new ItemTagsCleanupStreamHandler();
+	return await invokeHandler(streamHandler, event, context);
+}
@@ -0,0 +1,37 @@
+import { Context } from "aws-lambda";
+import { ApiResponse, Body, Controller, Params, Post } from "../../../../../testing/decorators";
+import { RELATIONSHIPS } from "../../entities/entity.registry";
+import { NotFoundError } from "../../errors/http.error";
+import { invokeController } from "../../helpers/lambda-handler.helper";
+import { buildResponseBody } from "../../helpers/lambda-response.helper";
+import { INewTag } from "../../interfaces/ITag";
+import { IRequest } from "../../interfaces/IRequest";
+import { itemParamsSchema } from "../../schemas/item.schema";
+import { newTagSchema } from "../../schemas/tag.schema";
+import { DynamoDbService } from "../../services/dynamodb.service";
+
+@Controller('items/:id/tags')
+export class ItemTagsCreateController {
+	@Post('')
+	@Params(itemParamsSchema)
+	@Body(newTagSchema)
+	@ApiResponse(201, 'The tag was added to the item.')
+	@ApiResponse(404, 'The item does not exist.')
+	async handler(request: IRequest) {
+		const body: INewTag = request.body;
+		const itemId = request.pathParameters.id;
+
+		const dynamoDbService = new DynamoDbService();
+		const item = await dynamoDbService.get(itemId, 'ITEM', 'ITEM');
+		if (!item) throw new NotFoundError(`Item ${itemId} was not found.`);
+
+		await dynamoDbService.link(RELATIONSHIPS.ITEM_TAGS, itemId, body.name, { name: body.name, itemId });
+
+		return buildResponseBody(201, { name: body.name });
+	}
+}
+
+export const handler = async (request: IRequest, context?: Context) => {
+	const controller = new ItemTagsCreateController();
+	return await invokeController(controller, 'handler', request, context);
+}
@@ -0,0 +1,27 @@
+import { Context } from "aws-lambda";
+import { ApiResponse, Controller, Delete, Params } from "../../../../../testing/decorators";
+import { RELATIONSHIPS } from "../../entities/entity.registry";
+import { invokeController } from "../../helpers/lambda-handler.helper";
+import { buildResponseBody } from "../../helpers/lambda-response.helper";
+import { IRequest } from "../../interfaces/IRequest";
+import { itemTagParamsSchema } from "../../schemas/tag.schema";
+import { DynamoDbService } from "../../services/dynamodb.service";
+
+@Controller('items/:id/tags')
+export class ItemTagsDeleteController {
+	@Delete(':tag')
+	@Params(itemTagParamsSchema)
+	@ApiResponse(204, 'The tag was removed from the item.')
+	@ApiResponse(404, 'The item does not have the tag.')
+	async handler(request: IRequest) {
+		const dynamoDbService = new DynamoDbService();
+		await dynamoDbService.unlink(RELATIONSHIPS.ITEM_TAGS, request.pathParameters.id, request.pathParameters.tag);
+
+		return buildResponseBody(204, undefined);
+	}
+}
+
+export const handler = async (request: IRequest, context?: Context) => {
+	const controller = new ItemTagsDeleteController();
+	return await invokeController(controller, 'handler', request, context);
+}
@@ -0,0 +1,38 @@
+import { Context } from "aws-lambda";
+import { ApiResponse, Controller, Get, Params, Query } from "../../../../../testing/decorators";
+import { RELATIONSHIPS } from "../../entities/entity.registry";
+import { ValidationError } from "../../errors/http.error";
+import { invokeController } from "../../helpers/lambda-handler.helper";
+import { buildResponseBody } from "../../helpers/lambda-response.helper";
+import { ITag } from "../../interfaces/ITag";
+import { IListRequest } from "../../interfaces/IRequest";
+import { itemParamsSchema } from "../../schemas/item.schema";
+import { itemTagsQuerySchema, tagListSchema } from "../../schemas/tag.schema";
+import { DynamoDbService } from "../../services/dynamodb.service";
+
+@Controller('items/:id/tags')
+export class ItemTagsListController {
+	@Get('')
+	@Params(itemParamsSchema)
+	@Query(itemTagsQuerySchema)
+	@ApiResponse(200, 'A page of the tags of the item.', tagListSchema)
+	async handler(request: IListRequest) {
+		const { limit, cursor } = request.queryStringParameters || {};
+
+		if (cursor && !DynamoDbService.isValidCursor(String(cursor)))
+			throw new ValidationError('The cursor is invalid.');
+
+		const dynamoDbService = new DynamoDbService();
+		const page = await dynamoDbService.listChildren<ITag>(RELATIONSHIPS.ITEM_TAGS, request.pathParameters.id, {
+			limit: limit ? Number(limit) : undefined,
+			cursor: cursor ? String(cursor) : undefined
+		});
+
+		return buildResponseBody(200, page);
+	}
+}
+
+export const handler = async (request: IListRequest, context?: Context) => {
+	const controller = new ItemTagsListController();
+	return await invokeController(controller, 'handler', request, context);
+}
@@ -0,0 +1,36 @@
+import { Context, ScheduledEvent } from "aws-lambda";
+import { Schedule } from "../../../../../testing/decorators";
+import { invokeHandler } from "../../helpers/lambda-handler.helper";
+import { IItem } from "../../interfaces/IItem";
+import { DynamoDbService } from "../../services/dynamodb.service";
+import { LoggerService } from "../../services/logger.service";
+
+const PAGE_SIZE = 100;
+
+const logger = new LoggerService();
+
+/**
+ * Logs the number of items every hour.
+ */
+@Schedule('rate(1 hour)')
+export class ItemsCountScheduledHandler {
+	async handler(event: ScheduledEvent) {
+		const dynamoDbService = new DynamoDbService();
+
+		let count = 0;
+		let cursor: string | undefined;
+		do {
+			const page = await dynamoDbService.list<IItem>('ITEM', 'ITEM', { limit: PAGE_SIZE, cursor });
+			count += page.items.length;
+			cursor = page.nextCursor;
+		} while (cursor);
+
+		logger.info(`There are ${count} Item(s) at ${event.time}.`, { count });
+		return { count };
+	}
+}
+
+export const handler = async (event: ScheduledEvent, context?: Context) => {
+	const scheduledHandler = new ItemsCountScheduledHandler();
+	return await invokeHandler(scheduledHandler, event, context);
+}
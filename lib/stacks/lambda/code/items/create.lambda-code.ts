@@ -1,30 +1,28 @@
-import { Controller, Post } from "../../../../../testing/decorators";
+import { Context } from "aws-lambda";
+import { ApiResponse, Body, Controller, Post } from "../../../../../testing/decorators";
+import { invokeController } from "../../helpers/lambda-handler.helper";
 import { buildResponseBody } from "../../helpers/lambda-response.helper";
 import { INewItem } from "../../interfaces/IItem";
 import { IRequest } from "../../interfaces/IRequest";
+import { newItemSchema } from "../../schemas/item.schema";
 import { DynamoDbService } from "../../services/dynamodb.service";
 
 @Controller('items')
 export class ItemsCreateController {
 	@Post('')
+	@Body(newItemSchema)
+	@ApiResponse(201, 'The item was created.', { type: 'object', properties: { id: { type: 'string' } } })
 	async handler(request: IRequest) {
-		try {
-			console.log(`Creating a new Item.`);
-			const body: INewItem = JSON.parse(request.body);
+		const body: INewItem = request.body;
 
-			const dynamoDbService = new DynamoDbService();
-			const id = await dynamoDbService.create(body, 'ITEM', 'ITEM');
+		const dynamoDbService = new DynamoDbService();
+		const id = await dynamoDbService.create(body, 'ITEM', 'ITEM');
 
-			console.log('Done.');
-			return buildResponseBody(201, { id }, 'ALLOW');
-		} catch (error: any) {
-			console.log(`Failed to create a new Item:`, error);
-			return buildResponseBody(500, error.message, 'ALLOW');
-		}
+		return buildResponseBody(201, { id });
 	}
 }
 
-export const handler = async (request: IRequest) => {
+export const handler = async (request: IRequest, context?: Context) => {
 	const controller = new ItemsCreateController();
-	return await controller.handler(request);
-}
\ No newline at end of file
+	return await invokeController(controller, 'handler', request, context);
+}
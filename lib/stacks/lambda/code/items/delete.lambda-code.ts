@@ -1,27 +1,26 @@
-import { Controller, Delete } from "../../../../../testing/decorators";
+import { Context } from "aws-lambda";
+import { ApiResponse, Controller, Delete, Params } from "../../../../../testing/decorators";
+import { invokeController } from "../../helpers/lambda-handler.helper";
 import { buildResponseBody } from "../../helpers/lambda-response.helper";
 import { IRequest } from "../../interfaces/IRequest";
+import { itemParamsSchema } from "../../schemas/item.schema";
 import { DynamoDbService } from "../../services/dynamodb.service";
 
 @Controller('items')
 export class ItemsDeleteController {
 	@Delete(':id')
+	@Params(itemParamsSchema)
+	@ApiResponse(204, 'The item was deleted.')
+	@ApiResponse(404, 'The item does not exist.')
 	async handler(request: IRequest) {
-		try {
-			console.log('Deleting Item from DynamoDB.');
-			const dynamoDbService = new DynamoDbService();
-			await dynamoDbService.delete(request.pathParameters.id, 'ITEM', 'ITEM');
+		const dynamoDbService = new DynamoDbService();
+		await dynamoDbService.delete(request.pathParameters.id, 'ITEM', 'ITEM');
 
-			console.log('Done.');
-			return buildResponseBody(204, undefined, 'ALLOW');
-		} catch (error: any) {
-			console.log(`Failed to delete the Item with ID ${request.pathParameters.id}:`, error);
-			return buildResponseBody(500, error.message, 'ALLOW');
-		}
+		return buildResponseBody(204, undefined);
 	}
 }
 
-export const handler = async (request: IRequest) => {
+export const handler = async (request: IRequest, context?: Context) => {
 	const controller = new ItemsDeleteController();
-	return await controller.handler(request);
-}
\ No newline at end of file
+	return await invokeController(controller, 'handler', request, context);
+}
@@ -1,28 +1,32 @@
-import { Controller, Get } from "../../../../../testing/decorators";
+import { Context } from "aws-lambda";
+import { ApiResponse, Controller, Get, Params } from "../../../../../testing/decorators";
+import { NotFoundError } from "../../errors/http.error";
+import { invokeController } from "../../helpers/lambda-handler.helper";
 import { buildResponseBody } from "../../helpers/lambda-response.helper";
+import { buildETag } from "../../helpers/request.helper";
 import { IItem } from "../../interfaces/IItem";
 import { IRequest } from "../../interfaces/IRequest";
+import { itemParamsSchema, itemSchema } from "../../schemas/item.schema";
 import { DynamoDbService } from "../../services/dynamodb.service";
 
 @Controller('items')
 export class ItemsGetController {
 	@Get(':id')
+	@Params(itemParamsSchema)
+	@ApiResponse(200, 'The item.', itemSchema)
+	@ApiResponse(404, 'The item does not exist.')
 	async handler(request: IRequest) {
-		try {
-			console.log('Fetching Item.');
-			const dynamoDbService = new DynamoDbService();
-			const item = await dynamoDbService.get<IItem>(request.pathParameters.id, 'ITEM', 'ITEM');
+		const dynamoDbService = new DynamoDbService();
+		const item = await dynamoDbService.get<IItem>(request.pathParameters.id, 'ITEM', 'ITEM');
+		if (!item) throw new NotFoundError(`Item ${request.pathParameters.id} was not found.`);
 
-			console.log('Done.');
-			return buildResponseBody(200, item, 'ALLOW');
-		} catch (error: any) {
-			console.log(`Failed to get Item with ID ${request.pathParameters.id}:`, error);
-			return buildResponseBody(500, error.message, 'ALLOW');
-		}
+		// Items created before versioning was added don't have a version yet.
+		const headers = item.version ? { ETag: buildETag(item.version) } : undefined;
+		return buildResponseBody(200, item, headers);
 	}
 }
 
-export const handler = async (request: IRequest) => {
+export const handler = async (request: IRequest, context?: Context) => {
 	const controller = new ItemsGetController();
-	return await controller.handler(request);
-}
\ No newline at end of file
+	return await invokeController(controller, 'handler', request, context);
+}
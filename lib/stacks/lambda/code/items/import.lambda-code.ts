@@ -0,0 +1,32 @@
+import { Context } from "aws-lambda";
+import { ApiResponse, Body, Controller, Post } from "../../../../../testing/decorators";
+import { invokeController } from "../../helpers/lambda-handler.helper";
+import { buildResponseBody } from "../../helpers/lambda-response.helper";
+import { INewItem } from "../../interfaces/IItem";
+import { IRequest } from "../../interfaces/IRequest";
+import { importItemsSchema } from "../../schemas/item.schema";
+import { LoggerService } from "../../services/logger.service";
+import { QueueService } from "../../services/queue.service";
+
+const logger = new LoggerService();
+
+@Controller('items')
+export class ItemsImportController {
+	@Post('import')
+	@Body(importItemsSchema)
+	@ApiResponse(202, 'The items are created in the background.', { type: 'object', properties: { messageIds: { type: 'array', items: { type: 'string' } } } })
+	async handler(request: IRequest) {
+		const { items }: { items: INewItem[] } = request.body;
+		logger.info(`Queueing ${items.length} Item(s) for import.`);
+
+		const queueService = new QueueService();
+		const messageIds = await queueService.sendBatch('item-imports', items);
+
+		return buildResponseBody(202, { messageIds });
+	}
+}
+
+export const handler = async (request: IRequest, context?: Context) => {
+	const controller = new ItemsImportController();
+	return await invokeController(controller, 'handler', request, context);
+}
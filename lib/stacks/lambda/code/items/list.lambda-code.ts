@@ -1,30 +1,64 @@
 import 'reflect-metadata';
 
+import { Context } from "aws-lambda";
+import { ValidationError } from "../../errors/http.error";
+import { invokeController } from "../../helpers/lambda-handler.helper";
 import { buildResponseBody } from "../../helpers/lambda-response.helper";
 import { IItem } from "../../interfaces/IItem";
+import { FilterValue } from "../../interfaces/IList";
+import { IListRequest } from "../../interfaces/IRequest";
+import { itemListSchema, listItemsQuerySchema } from "../../schemas/item.schema";
 import { DynamoDbService } from "../../services/dynamodb.service";
-import { Controller, Get } from '../../../../../testing/decorators';
+import { ApiResponse, Controller, Get, Query } from '../../../../../testing/decorators';
+
+const DEFAULT_LIMIT = 25;
 
 @Controller('items')
 export class ItemsListController {
 	@Get('')
-	async handler() {
-		try {
-			console.log('Fetching list of Items.');
-			const dynamoDbService = new DynamoDbService();
-
-			const items = await dynamoDbService.list<IItem>('ITEM', 'ITEM');
-
-			console.log('Done.');
-			return buildResponseBody(200, items, 'ALLOW');
-		} catch (error: any) {
-			console.log(`Failed to get a list of Items:`, error);
-			return buildResponseBody(500, error.message, 'ALLOW');
+	@Query(listItemsQuerySchema)
+	@ApiResponse(200, 'A page of items.', itemListSchema)
+	async handler(request: IListRequest) {
+		const { limit, cursor, order, ...filters } = request.queryStringParameters || {};
+
+		if (cursor && !DynamoDbService.isValidCursor(String(cursor)))
+			throw new ValidationError('The cursor is invalid.');
+
+		const dynamoDbService = new DynamoDbService();
+		const page = await dynamoDbService.list<IItem>('ITEM', 'ITEM', {
+			limit: Number(limit || DEFAULT_LIMIT),
+			cursor: cursor ? String(cursor) : undefined,
+			direction: order === 'desc' ? 'desc' : 'asc',
+			filters: this.toFilters(filters)
+		});
+
+		return buildResponseBody(200, page);
+	}
+
+	/**
+	 * Query string values are always strings, so also match the number or boolean the value could stand for.
+	 * 
+	 * @param query 
+	 * @returns 
+	 */
+	private toFilters(query: Record<string, string | number>) {
+		const filters: Record<string, FilterValue[]> = {};
+
+		for (const attribute in query) {
+			const value = String(query[attribute]);
+			const candidates: FilterValue[] = [value];
+
+			if (value.trim() !== '' && !isNaN(Number(value))) candidates.push(Number(value));
+			if (value === 'true' || value === 'false') candidates.push(value === 'true');
+
+			filters[attribute] = candidates;
 		}
+
+		return filters;
 	}
 }
 
-export const handler = async () => {
+export const handler = async (request: IListRequest, context?: Context) => {
 	const controller = new ItemsListController();
-	return await controller.handler();
-}
\ No newline at end of file
+	return await invokeController(controller, 'handler', request, context);
+}
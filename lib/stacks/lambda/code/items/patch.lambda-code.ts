@@ -0,0 +1,49 @@
+import { Context } from "aws-lambda";
+import { ApiResponse, Body, Controller, Params, Patch } from "../../../../../testing/decorators";
+import { NotFoundError, ValidationError } from "../../errors/http.error";
+import { invokeController } from "../../helpers/lambda-handler.helper";
+import { buildResponseBody } from "../../helpers/lambda-response.helper";
+import { hasNestedObjects, mergePatchToChanges } from "../../helpers/merge-patch.helper";
+import { buildETag, getExpectedVersion } from "../../helpers/request.helper";
+import { IItem } from "../../interfaces/IItem";
+import { IRequest } from "../../interfaces/IRequest";
+import { itemParamsSchema, itemSchema, patchItemSchema } from "../../schemas/item.schema";
+import { DynamoDbService } from "../../services/dynamodb.service";
+
+@Controller('items')
+export class ItemsPatchController {
+	@Patch(':id')
+	@Params(itemParamsSchema)
+	@Body(patchItemSchema)
+	@ApiResponse(200, 'The updated item, the ETag header has the new version.', itemSchema)
+	@ApiResponse(404, 'The item does not exist.')
+	@ApiResponse(409, 'The item was changed since the version in the If-Match header.')
+	async handler(request: IRequest) {
+		const mergePatch = request.body;
+
+		let expectedVersion = getExpectedVersion(request);
+		if (Number.isNaN(expectedVersion))
+			throw new ValidationError('The If-Match header must be an ETag, e.g. "1".');
+
+		const dynamoDbService = new DynamoDbService();
+
+		let current: IItem | undefined;
+		if (hasNestedObjects(mergePatch)) {
+			current = await dynamoDbService.get<IItem>(request.pathParameters.id, 'ITEM', 'ITEM');
+			if (!current) throw new NotFoundError(`Item ${request.pathParameters.id} was not found.`);
+
+			// The nested objects are merged with the item that was read, so it may not change in between.
+			expectedVersion ??= current.version;
+		}
+
+		const changes = mergePatchToChanges(mergePatch, current);
+		const item = await dynamoDbService.patch<IItem>(request.pathParameters.id, 'ITEM', 'ITEM', changes, expectedVersion);
+
+		return buildResponseBody(200, item, { ETag: buildETag(item.version) });
+	}
+}
+
+export const handler = async (request: IRequest, context?: Context) => {
+	const controller = new ItemsPatchController();
+	return await invokeController(controller, 'handler', request, context);
+}
@@ -0,0 +1,41 @@
+import { Context, SQSBatchItemFailure, SQSEvent } from "aws-lambda";
+import { Queue } from "../../../../../testing/decorators";
+import { invokeHandler } from "../../helpers/lambda-handler.helper";
+import { INewItem } from "../../interfaces/IItem";
+import { DynamoDbService } from "../../services/dynamodb.service";
+import { LoggerService } from "../../services/logger.service";
+
+const logger = new LoggerService();
+
+/**
+ * Creates the items that POST /items/import sent to the queue.
+ *
+ * A message that fails is reported on its own, so that only that one is retried and ends up in the dead-letter queue.
+ */
+@Queue('item-imports', { batchSize: 10 })
+export class ItemsImportQueueHandler {
+	async handler(event: SQSEvent) {
+		const dynamoDbService = new DynamoDbService();
+		const batchItemFailures: SQSBatchItemFailure[] = [];
+
+		for (const record of event.Records) {
+			try {
+				const { name, description }: INewItem = JSON.parse(record.body);
+				if (!name) throw new Error('The Item doesn\'t have a name.');
+
+				const id = await dynamoDbService.create({ name, description }, 'ITEM', 'ITEM');
+				logger.info(`Imported Item ${id}.`);
+			} catch (error) {
+				logger.error(`Importing message ${record.messageId} failed.`, { error });
+				batchItemFailures.push({ itemIdentifier: record.messageId });
+			}
+		}
+
+		return { batchItemFailures };
+	}
+}
+
+export const handler = async (event: SQSEvent, context?: Context) => {
+	const queueHandler = new ItemsImportQueueHandler();
+	return await invokeHandler(queueHandler, event, context);
+}
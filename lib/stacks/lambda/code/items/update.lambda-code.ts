@@ -1,30 +1,38 @@
-import { Controller, Put } from "../../../../../testing/decorators";
+import { Context } from "aws-lambda";
+import { ApiResponse, Body, Controller, Params, Put } from "../../../../../testing/decorators";
+import { ValidationError } from "../../errors/http.error";
+import { invokeController } from "../../helpers/lambda-handler.helper";
 import { buildResponseBody } from "../../helpers/lambda-response.helper";
+import { buildETag, getExpectedVersion } from "../../helpers/request.helper";
 import { IItem } from "../../interfaces/IItem";
 import { IRequest } from "../../interfaces/IRequest";
+import { itemParamsSchema, updateItemSchema } from "../../schemas/item.schema";
 import { DynamoDbService } from "../../services/dynamodb.service";
 
 @Controller('items')
 export class ItemsUpdateController {
 	@Put(':id')
+	@Params(itemParamsSchema)
+	@Body(updateItemSchema)
+	@ApiResponse(204, 'The item was updated, the ETag header has the new version.')
+	@ApiResponse(404, 'The item does not exist.')
+	@ApiResponse(409, 'The item was changed or deleted since the version in the If-Match header.')
 	async handler(request: IRequest) {
-		try {
-			console.log('Updating Item.');
-			const body: IItem = JSON.parse(request.body);
+		const body: IItem = request.body;
+		body.id = request.pathParameters.id;
 
-			const dynamoDbService = new DynamoDbService();
-			await dynamoDbService.update(body, 'ITEM', 'ITEM');
+		const expectedVersion = getExpectedVersion(request);
+		if (Number.isNaN(expectedVersion))
+			throw new ValidationError('The If-Match header must be an ETag, e.g. "1".');
 
-			console.log('Done.');
-			return buildResponseBody(204, undefined, 'ALLOW');
-		} catch (error: any) {
-			console.log(`Failed to update Item with ID ${request.pathParameters.id}:`, error);
-			return buildResponseBody(500, error.message, 'ALLOW');
-		}
+		const dynamoDbService = new DynamoDbService();
+		const version = await dynamoDbService.update(body, 'ITEM', 'ITEM', expectedVersion);
+
+		return buildResponseBody(204, undefined, { ETag: buildETag(version) });
 	}
 }
 
-export const handler = async (request: IRequest) => {
+export const handler = async (request: IRequest, context?: Context) => {
 	const controller = new ItemsUpdateController();
-	return await controller.handler(request);
+	return await invokeController(controller, 'handler', request, context);
 }
\ No newline at end of file
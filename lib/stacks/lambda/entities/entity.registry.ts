@@ -0,0 +1,26 @@
+/**
+ * The entity types of the single-table design.
+ * 
+ * Main items use the type as their SK and `<type>#<id>` as their PK, e.g. SK = ITEM & PK = ITEM#<id>.
+ * Register new entity types here to be able to use them with the DynamoDbService.
+ */
+export const ENTITY_TYPES = ['ITEM', 'TAG', 'USER'] as const;
+
+export type ENTITY_TYPE = typeof ENTITY_TYPES[number];
+
+/**
+ * A one-to-many relationship, stored as an adjacency-list edge:
+ * PK = `<parent>#<parentId>` & SK = `<child>#<childId>`.
+ * 
+ * Children are queried on the base table, parents through the SK-PK-index.
+ */
+export interface IRelationship<P extends ENTITY_TYPE = ENTITY_TYPE, C extends ENTITY_TYPE = ENTITY_TYPE> {
+	parent: P;
+	child: C;
+}
+
+const defineRelationship = <P extends ENTITY_TYPE, C extends ENTITY_TYPE>(parent: P, child: C): IRelationship<P, C> => ({ parent, child });
+
+export const RELATIONSHIPS = {
+	ITEM_TAGS: defineRelationship('ITEM', 'TAG')
+};
@@ -0,0 +1,41 @@
+/**
+ * Base class for errors that map to an HTTP status.
+ * 
+ * These are turned into an RFC 7807 problem+json response by invokeController.
+ */
+export class HttpError extends Error {
+	constructor(readonly statusCode: number, readonly title: string, message: string, readonly extensions: Record<string, any> = {}) {
+		super(message);
+		this.name = new.target.name;
+	}
+}
+
+export class ValidationError extends HttpError {
+	constructor(message: string, errors?: { location: string; path: string; message: string }[]) {
+		super(400, 'Bad Request', message, errors ? { errors } : {});
+	}
+}
+
+export class UnauthorizedError extends HttpError {
+	constructor(message = 'You have to sign in to access this resource.') {
+		super(401, 'Unauthorized', message);
+	}
+}
+
+export class ForbiddenError extends HttpError {
+	constructor(message = 'You are not allowed to access this resource.') {
+		super(403, 'Forbidden', message);
+	}
+}
+
+export class NotFoundError extends HttpError {
+	constructor(message = 'The resource was not found.') {
+		super(404, 'Not Found', message);
+	}
+}
+
+export class ConflictError extends HttpError {
+	constructor(message = 'The resource was changed by another request.') {
+		super(409, 'Conflict', message);
+	}
+}
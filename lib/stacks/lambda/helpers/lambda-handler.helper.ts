@@ -0,0 +1,62 @@
+import { Context } from 'aws-lambda';
+
+import { getMiddleware } from '../../../../testing/decorators';
+import { ValidationError } from '../errors/http.error';
+import { GLOBAL_MIDDLEWARE } from '../middleware/global.middleware';
+import { runMiddleware } from '../middleware/middleware.pipeline';
+import { LoggerService } from '../services/logger.service';
+import { validateRequest } from './request-validation.helper';
+
+/**
+ * Invoke a method of a controller through its middlewares, after validating the request against its @Body, @Query and @Params schemas.
+ *
+ * The GLOBAL_MIDDLEWARE wrap the middlewares of the @Use decorators, e.g. the errorMapping middleware turns a NotFoundError into a 404.
+ * The logs of the invocation get its request id and route.
+ *
+ * This is used by both the lambda handler exports and the local server, so that the behaviour is the same.
+ *
+ * @param controller - An instance of the controller.
+ * @param methodName
+ * @param request
+ * @param context - The Lambda context, which is passed on to the controller.
+ * @returns
+ */
+export const invokeController = async (controller: any, methodName: string, request: any, context?: Context) => {
+	const prototype = Object.getPrototypeOf(controller);
+	const middlewares = [...GLOBAL_MIDDLEWARE, ...getMiddleware(prototype, methodName)];
+	const invocation = { event: request, context, handlerName: controller.constructor.name, target: prototype, methodName, internal: {} };
+
+	return await LoggerService.runWithContext({ awsRequestId: context?.awsRequestId, route: getRoute(request) }, () =>
+		runMiddleware(middlewares, invocation, async ({ event, context }) => {
+			const errors = validateRequest(prototype, methodName, event);
+			if (errors) throw new ValidationError('The request is invalid.', errors);
+
+			return await controller[methodName](event, context);
+		})
+	);
+}
+
+/**
+ * Invoke the "handler" method of a @StreamHandler, @Queue or @Schedule class, with the request id in its logs.
+ *
+ * @param handler - An instance of the class.
+ * @param event
+ * @param context
+ * @returns
+ */
+export const invokeHandler = async (handler: any, event: any, context?: Context) => {
+	return await LoggerService.runWithContext({ awsRequestId: context?.awsRequestId }, () => handler.handler(event, context));
+}
+
+/**
+ * The route of an API Gateway event, e.g. "GET /items/{id}".
+ *
+ * @param request
+ * @returns
+ */
+const getRoute = (request: any): string | undefined => {
+	if (request?.routeKey) return request.routeKey;
+	if (request?.httpMethod) return `${request.httpMethod} ${request.resource || request.path}`;
+
+	return undefined;
+}
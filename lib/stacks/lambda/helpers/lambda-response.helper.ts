@@ -1,5 +1,14 @@
+import { HttpError } from "../errors/http.error";
+
 type HeadersModel = Record<string, string> | 'ALLOW' | undefined;
 
+export const CORS_HEADERS: Record<string, string> = {
+	'Access-Control-Allow-Headers': '*',
+	'Access-Control-Allow-Origin': '*',
+	'Access-Control-Allow-Methods': '*',
+	'Access-Control-Expose-Headers': 'ETag, X-Correlation-Id'
+};
+
 /**
  * 
  * @param status 
@@ -10,11 +19,7 @@ type HeadersModel = Record<string, string> | 'ALLOW' | undefined;
 export const buildResponseBody = (status: number, body: any = undefined, headers: HeadersModel = undefined) => {
 	let headersToUse: any = {};
 	if (headers === 'ALLOW') {
-		headersToUse = {
-			'Access-Control-Allow-Headers': '*',
-			'Access-Control-Allow-Origin': '*',
-			'Access-Control-Allow-Methods': '*'
-		};
+		headersToUse = CORS_HEADERS;
 	} else if (headers) headersToUse = headers;
 
 	return {
@@ -23,3 +28,23 @@ export const buildResponseBody = (status: number, body: any = undefined, headers
 		body: typeof body === 'string' ? body : JSON.stringify(body)
 	};
 };
+
+/**
+ * Build an RFC 7807 problem+json response for an error.
+ * 
+ * Errors that aren't an HttpError are returned as a 500, without their message, so that no internals leak to the client.
+ * 
+ * @param error 
+ * @param instance - The path of the request that failed.
+ * @returns 
+ */
+export const buildProblemResponse = (error: unknown, instance?: string) => {
+	const problem = error instanceof HttpError
+		? { type: 'about:blank', title: error.title, status: error.statusCode, detail: error.message, ...error.extensions }
+		: { type: 'about:blank', title: 'Internal Server Error', status: 500, detail: 'An unexpected error occurred.' };
+
+	return buildResponseBody(problem.status, instance ? { ...problem, instance } : problem, {
+		...CORS_HEADERS,
+		'Content-Type': 'application/problem+json'
+	});
+};
@@ -0,0 +1,51 @@
+import { IPatchChanges } from '../interfaces/IPatch';
+
+const isPlainObject = (value: any): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Apply a JSON Merge Patch (RFC 7396) to a value.
+ * 
+ * @param target 
+ * @param patch 
+ * @returns 
+ */
+export const applyMergePatch = (target: any, patch: any): any => {
+	if (!isPlainObject(patch)) return patch;
+
+	const result: Record<string, any> = isPlainObject(target) ? { ...target } : {};
+	for (const key in patch) {
+		if (patch[key] === null) delete result[key];
+		else result[key] = applyMergePatch(result[key], patch[key]);
+	}
+
+	return result;
+};
+
+/**
+ * Check if the patch has nested objects, which have to be merged with the current item.
+ * 
+ * @param patch 
+ * @returns 
+ */
+export const hasNestedObjects = (patch: Record<string, any>) => Object.values(patch).some(isPlainObject);
+
+/**
+ * Convert a merge patch to the changes for DynamoDbService.patch.
+ * 
+ * Top-level nulls remove the attribute, and nested objects are merged with the current value of the attribute.
+ * 
+ * @param patch 
+ * @param current - The current item, only needed when the patch has nested objects.
+ * @returns 
+ */
+export const mergePatchToChanges = (patch: Record<string, any>, current?: Record<string, any>): IPatchChanges => {
+	const changes: IPatchChanges = {};
+
+	for (const key in patch) {
+		if (patch[key] === null) changes[key] = null;
+		else if (isPlainObject(patch[key])) changes[key] = applyMergePatch(current?.[key], patch[key]);
+		else changes[key] = patch[key];
+	}
+
+	return changes;
+};
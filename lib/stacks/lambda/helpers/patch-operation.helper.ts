@@ -0,0 +1,30 @@
+import { IAddOperation, IAppendOperation } from '../interfaces/IPatch';
+
+/**
+ * Marks the operations of DynamoDbService.patch, which the data of a request can't have, e.g. { "$add": 5 } in the attributes of a merge patch.
+ */
+export const PATCH_OPERATION = Symbol('PatchOperation');
+
+/**
+ * Append the values to a list attribute, creating it when it doesn't exist.
+ * 
+ * @param values 
+ * @returns 
+ */
+export const appendToList = (values: any[]): IAppendOperation => ({ [PATCH_OPERATION]: true, $append: values });
+
+/**
+ * Add a number to a number attribute, creating it when it doesn't exist.
+ * 
+ * @param value 
+ * @returns 
+ */
+export const addToNumber = (value: number): IAddOperation => ({ [PATCH_OPERATION]: true, $add: value });
+
+/**
+ * Check if a patch value was created by one of the operations above, a plain object with the same properties is just data.
+ * 
+ * @param value 
+ * @returns 
+ */
+export const isPatchOperation = (value: any): value is IAppendOperation | IAddOperation => !!value && typeof value === 'object' && value[PATCH_OPERATION] === true;
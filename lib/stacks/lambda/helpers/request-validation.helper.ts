@@ -0,0 +1,83 @@
+import Ajv, { ErrorObject } from 'ajv';
+
+import { getValidationSchemas, RequestPart } from '../../../../testing/decorators';
+
+export interface IValidationError {
+	location: RequestPart;
+	path: string;
+	message: string;
+}
+
+// Query string and path parameters are always strings, so those are coerced to the types in the schema.
+const bodyValidator = new Ajv({ allErrors: true });
+const parametersValidator = new Ajv({ allErrors: true, coerceTypes: true });
+
+/**
+ * Validate a request against the schemas registered through @Body, @Query and @Params.
+ *
+ * @param target - The prototype of the controller.
+ * @param methodName
+ * @param request
+ * @returns The validation errors, or undefined when the request is valid.
+ */
+export const validateRequest = (target: any, methodName: string, request: any): IValidationError[] | undefined => {
+	const schemas = getValidationSchemas(target, methodName);
+	const errors: IValidationError[] = [];
+
+	if (schemas.body) {
+		let body: any;
+		try {
+			body = parseBody(request);
+		} catch (error) {
+			return [{ location: 'body', path: '', message: 'must be valid JSON' }];
+		}
+
+		errors.push(...validate(bodyValidator, schemas.body, body, 'body'));
+	}
+
+	if (schemas.query)
+		errors.push(...validate(parametersValidator, schemas.query, request.queryStringParameters || {}, 'query'));
+
+	if (schemas.params)
+		errors.push(...validate(parametersValidator, schemas.params, request.pathParameters || {}, 'params'));
+
+	return errors.length ? errors : undefined;
+}
+
+/**
+ * Parse the JSON body of a request, unless the jsonBody middleware already did.
+ *
+ * @param request
+ * @returns
+ */
+const parseBody = (request: any) => {
+	if (request.body === undefined || request.body === null || request.body === '') return undefined;
+	if (typeof request.body !== 'string') return request.body;
+
+	const body = request.isBase64Encoded ? Buffer.from(request.body, 'base64').toString('utf-8') : request.body;
+	return JSON.parse(body);
+}
+
+/**
+ * Run a single schema.
+ *
+ * ! The coercing validator changes the data in place, e.g. turning "10" into 10.
+ *
+ * @param ajv
+ * @param schema
+ * @param data
+ * @param location
+ * @returns
+ */
+const validate = (ajv: Ajv, schema: object, data: any, location: RequestPart): IValidationError[] => {
+	const validateFn = ajv.compile(schema);
+	if (validateFn(data)) return [];
+
+	return (validateFn.errors || []).map((error: ErrorObject) => ({
+		location,
+		path: error.instancePath,
+		message: error.keyword === 'additionalProperties'
+			? `must NOT have additional property '${error.params.additionalProperty}'`
+			: error.message || 'is invalid'
+	}));
+}
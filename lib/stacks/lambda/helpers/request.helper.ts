@@ -0,0 +1,50 @@
+import { IClaims, IRequest } from '../interfaces/IRequest';
+
+/**
+ * Get a header from the request, ignoring the casing of the name.
+ * 
+ * @param request 
+ * @param name 
+ * @returns 
+ */
+export const getHeader = (request: IRequest, name: string) => {
+	const headers = request.headers || {};
+	const key = Object.keys(headers).find(header => header.toLowerCase() === name.toLowerCase());
+
+	return key ? headers[key] : undefined;
+};
+
+/**
+ * Get the claims of the Cognito user pool authorizer (REST API) or of the JWT authorizer (HTTP API).
+ * 
+ * @param request 
+ * @returns The claims, undefined when the request didn't go through an authorizer.
+ */
+export const getClaims = (request: any): IClaims | undefined => {
+	const authorizer = request?.requestContext?.authorizer;
+	return authorizer?.claims || authorizer?.jwt?.claims;
+};
+
+/**
+ * Get the version the client expects the item to have, from the If-Match header.
+ * 
+ * E.g. `"3"` or `W/"3"` returns 3. A missing header or `*` returns undefined, which means any version.
+ * 
+ * @param request 
+ * @returns The version, undefined when any version is fine, or NaN when the header is invalid.
+ */
+export const getExpectedVersion = (request: IRequest) => {
+	const ifMatch = getHeader(request, 'If-Match')?.trim();
+	if (!ifMatch || ifMatch === '*') return undefined;
+
+	const match = ifMatch.match(/^(?:W\/)?"(\d+)"$/);
+	return match ? parseInt(match[1]) : NaN;
+};
+
+/**
+ * The ETag header for a version of an item.
+ * 
+ * @param version 
+ * @returns 
+ */
+export const buildETag = (version: number) => `"${version}"`;
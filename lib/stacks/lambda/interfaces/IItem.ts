@@ -1,10 +1,14 @@
 export interface INewItem {
 	name: string;
 	description: string;
+	// Free-form properties, e.g. { color: 'red', size: { width: 40 } }, which PATCH merges with the current ones.
+	attributes?: Record<string, any>;
 }
 
 export interface IItem extends INewItem {
 	id: string;
 	createdOn: string;
 	lastModifiedOn: string;
+	// Incremented on every write, used for optimistic concurrency.
+	version: number;
 }
\ No newline at end of file
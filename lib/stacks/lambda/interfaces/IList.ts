@@ -0,0 +1,17 @@
+export type FilterValue = string | number | boolean;
+
+export interface IListOptions {
+	// Maximum number of items to return, all items are returned when not set.
+	limit?: number;
+	// The nextCursor of the previous page.
+	cursor?: string;
+	direction?: 'asc' | 'desc';
+	// Attributes that have to be equal to the value, or to one of the values for an array.
+	filters?: Record<string, FilterValue | FilterValue[]>;
+}
+
+export interface IListResult<T> {
+	items: T[];
+	// Only set when there are more items.
+	nextCursor?: string;
+}
@@ -0,0 +1,22 @@
+import { PATCH_OPERATION } from '../helpers/patch-operation.helper';
+
+export interface IAppendOperation {
+	[PATCH_OPERATION]: true;
+	$append: any[];
+}
+
+export interface IAddOperation {
+	[PATCH_OPERATION]: true;
+	$add: number;
+}
+
+/**
+ * Changes for DynamoDbService.patch, per attribute:
+ * - A value sets the attribute.
+ * - null removes the attribute.
+ * - appendToList([...]) appends to a list attribute, creating it when it doesn't exist.
+ * - addToNumber(n) adds to a number attribute, creating it when it doesn't exist.
+ *
+ * ! Only the operations of patch-operation.helper run as one, a plain { $append: [...] } or { $add: n } is stored as it is.
+ */
+export type IPatchChanges = Record<string, IAppendOperation | IAddOperation | null | any>;
@@ -1,3 +1,10 @@
+export interface IClaims {
+	sub?: string;
+	email: string;
+	'custom:userType'?: string;
+	[claim: string]: any;
+}
+
 export interface IRequest {
 	pathParameters: {
 		id: string;
@@ -5,14 +12,18 @@ export interface IRequest {
 		eventId: string;
 		judgeId: string;
 		choirId: string;
+		tag: string;
 	},
-	body: string;
+	// The parsed JSON, through the jsonBody middleware.
+	body: any;
+	// Set by the correlationId middleware.
+	correlationId?: string;
+	headers?: {
+		[name: string]: string | undefined;
+	};
 	requestContext: {
 		authorizer: {
-			claims: {
-				email: string;
-				'custom:userType'?: string;
-			}
+			claims: IClaims
 		}
 	};
 }
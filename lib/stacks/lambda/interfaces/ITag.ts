@@ -0,0 +1,9 @@
+export interface INewTag {
+	name: string;
+}
+
+export interface ITag extends INewTag {
+	itemId: string;
+	createdOn: string;
+	lastModifiedOn: string;
+}
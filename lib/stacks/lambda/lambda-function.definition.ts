@@ -0,0 +1,66 @@
+/**
+ * The settings of the functions, used by the CDK stacks and the local server, which enforces the same limits.
+ *
+ * ! The local server loads this file as well, so it can't import anything from aws-cdk-lib.
+ */
+
+export interface IFunctionDefinition {
+	// Seconds before an invocation is stopped.
+	timeout: number;
+	// MB, the local server limits the heap of the worker to this.
+	memorySize: number;
+	// Names of the @Queue queues that the function sends messages to, through the QueueService.
+	sendsTo?: string[];
+}
+
+export const DEFAULT_FUNCTION: IFunctionDefinition = {
+	timeout: 30,
+	memorySize: 128
+};
+
+/**
+ * Settings of specific functions, by their folder and code file, e.g. { 'items/list': { memorySize: 256 } }
+ */
+export const FUNCTION_OVERRIDES: Record<string, Partial<IFunctionDefinition>> = {
+	'items/import': { sendsTo: ['item-imports'] }
+};
+
+/**
+ * Get the settings of the function of a lambda code file.
+ *
+ * @param folder - Folder inside of the lambda code folder, e.g. "items".
+ * @param codeFile - Name of the code file without the ".lambda-code" suffix, e.g. "create".
+ * @returns
+ */
+export const getFunctionDefinition = (folder: string, codeFile: string): IFunctionDefinition => ({
+	...DEFAULT_FUNCTION,
+	...FUNCTION_OVERRIDES[`${folder}/${codeFile}`]
+});
+
+/**
+ * The name of the function of a lambda code file, e.g. dev-ProjectName-items-create
+ *
+ * @param stage
+ * @param folder
+ * @param codeFile
+ * @returns
+ */
+export const getFunctionName = (stage: string, folder: string, codeFile: string) => `${stage}-ProjectName-${folder.replace(/\//g, '-')}-${codeFile}`;
+
+/**
+ * The name of the queue of a @Queue handler, e.g. dev-ProjectName-item-imports
+ *
+ * @param stage
+ * @param queueName - The name of the @Queue decorator.
+ * @returns
+ */
+export const getQueueName = (stage: string, queueName: string) => `${stage}-ProjectName-${queueName}`;
+
+/**
+ * The name of the dead-letter queue of a @Queue handler, e.g. dev-ProjectName-item-imports-dlq
+ *
+ * @param stage
+ * @param queueName - The name of the @Queue decorator.
+ * @returns
+ */
+export const getDeadLetterQueueName = (stage: string, queueName: string) => `${getQueueName(stage, queueName)}-dlq`;
@@ -0,0 +1,42 @@
+import { Token } from 'aws-cdk-lib';
+
+import { LogLevelEnum } from '../../enums/log-level.enum';
+import { StageEnum } from '../../enums/stage.enum';
+import { ILambdaStackProps } from '../../interfaces/lambda.stack-props';
+
+const USER_POOL_ARN_PATTERN = /^arn:aws[\w-]*:cognito-idp:[\w-]+:\d{12}:userpool\/(.+)$/;
+
+/**
+ * Fail the synthesis when the props of the functions don't fit together, instead of deploying functions that don't work.
+ *
+ * E.g. a userPoolArn without a userPoolId would deploy the functions without a USERPOOL_ID.
+ *
+ * @param id - The id of the stack, used in the error message.
+ * @param props
+ */
+export const validateLambdaStackProps = (id: string, props: ILambdaStackProps) => {
+	const errors: string[] = [];
+
+	if (!Object.values(StageEnum).includes(props.stage))
+		errors.push(`stage must be one of ${Object.values(StageEnum).join(', ')}, got "${props.stage}".`);
+
+	if (!props.region)
+		errors.push('region is required.');
+
+	if (props.logLevel && !Object.values(LogLevelEnum).includes(props.logLevel))
+		errors.push(`logLevel must be one of ${Object.values(LogLevelEnum).join(', ')}, got "${props.logLevel}".`);
+
+	if (!!props.userPoolArn !== !!props.userPoolId)
+		errors.push('userPoolArn and userPoolId have to be set together.');
+
+	// Tokens, e.g. of a UserPool of another stack, are only known at deploy time.
+	if (props.userPoolArn && props.userPoolId && !Token.isUnresolved(props.userPoolArn) && !Token.isUnresolved(props.userPoolId)) {
+		const match = props.userPoolArn.match(USER_POOL_ARN_PATTERN);
+
+		if (!match) errors.push(`userPoolArn is not the ARN of a user pool: "${props.userPoolArn}".`);
+		else if (match[1] !== props.userPoolId) errors.push(`userPoolId "${props.userPoolId}" is not the id of the user pool of userPoolArn.`);
+	}
+
+	if (errors.length)
+		throw new Error(`Invalid props for ${id}:\n- ${errors.join('\n- ')}`);
+}
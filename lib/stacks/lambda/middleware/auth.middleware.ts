@@ -0,0 +1,28 @@
+import { getRouteAuthorization } from '../../../../testing/decorators';
+import { ForbiddenError, UnauthorizedError } from '../errors/http.error';
+import { getClaims } from '../helpers/request.helper';
+import { IMiddleware } from './middleware.pipeline';
+
+/**
+ * Check the claims of the authorizer against the @Public and @UserTypes decorators of the method.
+ *
+ * The Cognito authorizer of API Gateway only validates the token, so the "custom:userType" claim is checked here,
+ * which makes the deployed API and the local server return the same 403.
+ * Like the authorizer, this is only active when a user pool is configured (USERPOOL_ID).
+ *
+ * @returns
+ */
+export const auth = (): IMiddleware => ({
+	before({ event, target, methodName }) {
+		if (!process.env.USERPOOL_ID || !target || !methodName) return;
+
+		const { isPublic, userTypes } = getRouteAuthorization(target, methodName);
+		if (isPublic) return;
+
+		const claims = getClaims(event);
+		if (!claims) throw new UnauthorizedError();
+
+		if (userTypes.length && !userTypes.includes(claims['custom:userType']!))
+			throw new ForbiddenError();
+	}
+});
@@ -0,0 +1,32 @@
+import { v4 } from 'uuid';
+
+import { getHeader } from '../helpers/request.helper';
+import { LoggerService } from '../services/logger.service';
+import { IInvocation, IMiddleware } from './middleware.pipeline';
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-Id';
+
+/**
+ * Give every request a correlation id, so that the logs of a request can be found across functions.
+ *
+ * The id of the X-Correlation-Id header is kept, otherwise the request id of API Gateway or Lambda is used.
+ * It is set as request.correlationId, added to the logs of the request and returned in the X-Correlation-Id header.
+ *
+ * @returns
+ */
+export const correlationId = (): IMiddleware => {
+	const addHeader = ({ event, response }: IInvocation) => {
+		if (!response || typeof response !== 'object' || !event?.correlationId) return;
+		response.headers = { ...response.headers, [CORRELATION_ID_HEADER]: event.correlationId };
+	};
+
+	return {
+		before({ event, context }) {
+			if (!event || typeof event !== 'object') return;
+			event.correlationId = getHeader(event, CORRELATION_ID_HEADER) || event.requestContext?.requestId || context?.awsRequestId || v4();
+			LoggerService.appendContext({ correlationId: event.correlationId });
+		},
+		after: addHeader,
+		onError: addHeader
+	};
+}
@@ -0,0 +1,19 @@
+import { CORS_HEADERS } from '../helpers/lambda-response.helper';
+import { IInvocation, IMiddleware } from './middleware.pipeline';
+
+/**
+ * Add the CORS headers to every response, also to the problem responses.
+ *
+ * Headers that the controller already set, e.g. another Access-Control-Expose-Headers, are kept.
+ *
+ * @param headers
+ * @returns
+ */
+export const cors = (headers: Record<string, string> = CORS_HEADERS): IMiddleware => {
+	const addHeaders = ({ response }: IInvocation) => {
+		if (!response || typeof response !== 'object') return;
+		response.headers = { ...headers, ...response.headers };
+	};
+
+	return { after: addHeaders, onError: addHeaders };
+}
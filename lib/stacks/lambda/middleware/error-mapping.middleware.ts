@@ -0,0 +1,22 @@
+import { HttpError } from '../errors/http.error';
+import { buildProblemResponse } from '../helpers/lambda-response.helper';
+import { LoggerService } from '../services/logger.service';
+import { IMiddleware } from './middleware.pipeline';
+
+const logger = new LoggerService('errorMapping');
+
+/**
+ * Map the errors of the controllers to a problem+json response, e.g. a NotFoundError becomes a 404.
+ *
+ * @returns
+ */
+export const errorMapping = (): IMiddleware => ({
+	onError(invocation) {
+		const { error, event, handlerName } = invocation;
+
+		if (error instanceof HttpError && error.statusCode < 500) logger.info(`${error.name}: ${error.message}`);
+		else logger.error(`${handlerName} failed.`, { error });
+
+		invocation.response = buildProblemResponse(error, event?.path || event?.rawPath);
+	}
+});
@@ -0,0 +1,21 @@
+import { auth } from './auth.middleware';
+import { correlationId } from './correlation-id.middleware';
+import { cors } from './cors.middleware';
+import { errorMapping } from './error-mapping.middleware';
+import { jsonBody } from './json-body.middleware';
+import { IMiddleware } from './middleware.pipeline';
+import { timing } from './timing.middleware';
+
+/**
+ * The middlewares of every controller, which wrap the middlewares of their @Use decorators.
+ *
+ * The errorMapping middleware wraps the auth and jsonBody middlewares, so that their errors are problem responses which the others also see.
+ */
+export const GLOBAL_MIDDLEWARE: IMiddleware[] = [
+	correlationId(),
+	timing(),
+	cors(),
+	errorMapping(),
+	auth(),
+	jsonBody()
+];
@@ -0,0 +1,27 @@
+import { ValidationError } from '../errors/http.error';
+import { getHeader } from '../helpers/request.helper';
+import { IMiddleware } from './middleware.pipeline';
+
+/**
+ * Parse the JSON body of the request, so that the controllers get request.body as an object.
+ *
+ * Bodies without a Content-Type are parsed as well, other content types are passed on as they are.
+ *
+ * @returns
+ */
+export const jsonBody = (): IMiddleware => ({
+	before({ event }) {
+		if (typeof event.body !== 'string' || event.body === '') return;
+
+		const contentType = getHeader(event, 'Content-Type');
+		if (contentType && !/^application\/([\w.-]+\+)?json\b/i.test(contentType)) return;
+
+		const body = event.isBase64Encoded ? Buffer.from(event.body, 'base64').toString('utf-8') : event.body;
+		try {
+			event.body = JSON.parse(body);
+			event.isBase64Encoded = false;
+		} catch {
+			throw new ValidationError('The request is invalid.', [{ location: 'body', path: '', message: 'must be valid JSON' }]);
+		}
+	}
+});
@@ -0,0 +1,78 @@
+import { Context } from 'aws-lambda';
+
+/**
+ * The state of a single invocation, which the middlewares read and change.
+ */
+export interface IInvocation {
+	// The API Gateway event, e.g. the jsonBody middleware replaces its body with the parsed JSON.
+	event: any;
+	context?: Context;
+	// The result of the handler, or the response that a middleware returns instead.
+	response?: any;
+	// The error of the handler or of a middleware, while the onError middlewares run.
+	error?: unknown;
+	// The name of the controller, for the logs.
+	handlerName: string;
+	// The prototype of the controller and the name of its method, for the middlewares that read their decorators.
+	target?: object;
+	methodName?: string;
+	// Values that the middlewares share with each other, e.g. the start time of the timing middleware.
+	internal: Record<string, any>;
+}
+
+/**
+ * A middleware in the style of Middy.
+ *
+ * The before hooks run in order, the after and onError hooks in reverse order, so the first middleware wraps all the others.
+ * A before hook that sets the response skips the handler and the middlewares after it.
+ * An onError hook that sets the response handles the error, otherwise the error is thrown once all the onError hooks ran.
+ */
+export interface IMiddleware {
+	before?(invocation: IInvocation): void | Promise<void>;
+	after?(invocation: IInvocation): void | Promise<void>;
+	onError?(invocation: IInvocation): void | Promise<void>;
+}
+
+/**
+ * Run a handler through a chain of middlewares.
+ *
+ * @param middlewares - From the outermost to the innermost.
+ * @param invocation
+ * @param handler - E.g. the method of a controller.
+ * @returns - The response.
+ */
+export const runMiddleware = async (middlewares: IMiddleware[], invocation: IInvocation, handler: (invocation: IInvocation) => Promise<any>) => {
+	// The middlewares whose before hook ran, only those wrap the response.
+	let entered = 0;
+
+	try {
+		for (const middleware of middlewares) {
+			entered++;
+			await middleware.before?.(invocation);
+			if (invocation.response !== undefined) break;
+		}
+
+		if (invocation.response === undefined) invocation.response = await handler(invocation);
+
+		for (const middleware of middlewares.slice(0, entered).reverse())
+			await middleware.after?.(invocation);
+
+		return invocation.response;
+	} catch (error) {
+		invocation.error = error;
+		invocation.response = undefined;
+
+		for (const middleware of middlewares.slice(0, entered).reverse()) {
+			try {
+				await middleware.onError?.(invocation);
+			} catch (onErrorError) {
+				// E.g. a middleware that maps the error to another error.
+				invocation.error = onErrorError;
+				invocation.response = undefined;
+			}
+		}
+
+		if (invocation.response === undefined) throw invocation.error;
+		return invocation.response;
+	}
+}
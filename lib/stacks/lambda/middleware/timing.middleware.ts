@@ -0,0 +1,30 @@
+import { LoggerService } from '../services/logger.service';
+import { IInvocation, IMiddleware } from './middleware.pipeline';
+
+const logger = new LoggerService('timing');
+
+/**
+ * Log the method, path, status and duration of every request, and return the duration in a Server-Timing header.
+ *
+ * @returns
+ */
+export const timing = (): IMiddleware => {
+	const finish = ({ event, response, internal }: IInvocation) => {
+		const duration = performance.now() - internal.startTime;
+		const method = event?.httpMethod || event?.requestContext?.http?.method;
+		const status = response?.statusCode ?? 500;
+
+		if (response && typeof response === 'object')
+			response.headers = { ...response.headers, 'Server-Timing': `handler;dur=${duration.toFixed(1)}` };
+
+		logger.info(`[${method}] ${event?.path || event?.rawPath} ${status}`, { status, durationMs: Math.round(duration) });
+	};
+
+	return {
+		before({ internal }) {
+			internal.startTime = performance.now();
+		},
+		after: finish,
+		onError: finish
+	};
+}
@@ -0,0 +1,84 @@
+import * as cdk from 'aws-cdk-lib';
+import { NodejsFunction } from "aws-cdk-lib/aws-lambda-nodejs";
+import { ApplicationLogLevel, LoggingFormat, Runtime, SystemLogLevel } from "aws-cdk-lib/aws-lambda";
+import { Construct } from "constructs";
+import { Effect, Policy, PolicyStatement } from 'aws-cdk-lib/aws-iam';
+
+import path = require('path');
+
+import { ILambdaStackProps } from '../../interfaces/lambda.stack-props';
+import { getFunctionDefinition } from './lambda-function.definition';
+import { STAGE_LOG_LEVELS } from './services/logger.service';
+
+// The actions of the commands that the DynamoDbService sends.
+const TABLE_ACTIONS = ['dynamodb:PutItem', 'dynamodb:Query', 'dynamodb:GetItem', 'dynamodb:DeleteItem', 'dynamodb:UpdateItem'];
+
+/**
+ * Creates the function, with its policies and tags, for a single lambda code file.
+ *
+ * Shared by the RequestLambdaStack and the RestApiStack.
+ */
+export class RequestLambda extends Construct {
+	readonly function: NodejsFunction;
+
+	constructor(scope: Construct, id: string, folder: string, codeFile: string, props: ILambdaStackProps) {
+		super(scope, id);
+
+		const env: any = {
+			REGION: props.region,
+			STAGE: props.stage
+		};
+
+		if (props.table) env.TABLE_NAME = props.table.tableName;
+		if (props.userPoolId) env.USERPOOL_ID = props.userPoolId;
+
+		// The local server enforces the same timeout and memory size.
+		const { timeout, memorySize, sendsTo = [] } = getFunctionDefinition(folder, codeFile);
+		const logLevel = props.logLevel || STAGE_LOG_LEVELS[props.stage];
+
+		this.function = new NodejsFunction(this, id, {
+			functionName: id,
+			runtime: Runtime.NODEJS_LATEST,
+			entry: path.join(__dirname, 'code', `${folder}/${codeFile}.lambda-code.ts`),
+			handler: 'handler',
+			timeout: cdk.Duration.seconds(timeout),
+			memorySize,
+			environment: env,
+			// The LoggerService writes JSON lines with a level, so that Lambda can filter them. It reads the level from AWS_LAMBDA_LOG_LEVEL.
+			loggingFormat: LoggingFormat.JSON,
+			applicationLogLevelV2: ApplicationLogLevel[logLevel],
+			systemLogLevelV2: SystemLogLevel.INFO
+		});
+
+		const statements: cdk.aws_iam.PolicyStatement[] = [];
+
+		if (props.userPoolArn)
+			statements.push(new PolicyStatement({
+				effect: Effect.ALLOW,
+				actions: ['cognito-idp:AdminCreateUser', 'cognito-idp:AdminDeleteUser', 'cognito-idp:AdminUpdateUserAttributes'],
+				resources: [props.userPoolArn]
+			}));
+
+		if (statements.length > 0) {
+			const policy = new Policy(this, `${id}-policy`, {
+				policyName: `${id}-policy`,
+				statements: statements
+			});
+
+			this.function.role!.attachInlinePolicy(policy);
+		}
+
+		// Also covers the indexes of the table.
+		if (props.table) props.table.grant(this.function, ...TABLE_ACTIONS);
+
+		sendsTo.forEach(queueName => {
+			const queue = props.queues?.[queueName];
+			if (!queue) throw new Error(`${id} sends to the queue "${queueName}", pass the queues of the QueueStack to its stack.`);
+
+			// Includes sqs:GetQueueUrl, which the QueueService looks the queue up with.
+			queue.grantSendMessages(this.function);
+		});
+
+		cdk.Tags.of(this.function).add('app', 'ProjectName');
+	}
+}
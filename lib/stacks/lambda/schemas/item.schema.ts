@@ -0,0 +1,113 @@
+import { JSONSchemaType } from 'ajv';
+
+import { IItem, INewItem } from '../interfaces/IItem';
+
+// The names of the free-form attributes can't start with "$", like the operators of the patch operations, e.g. { "$add": 5 }.
+const ATTRIBUTE_NAME = { type: 'string', pattern: '^(?!\\$)' } as const;
+
+/**
+ * Request body for creating an item.
+ *
+ * ? Typed against the interface, so the schema has to be updated together with it.
+ */
+export const newItemSchema: JSONSchemaType<INewItem> = {
+	type: 'object',
+	properties: {
+		name: { type: 'string', minLength: 1 },
+		description: { type: 'string' },
+		attributes: { type: 'object', nullable: true, required: [], propertyNames: ATTRIBUTE_NAME }
+	},
+	required: ['name', 'description'],
+	additionalProperties: false
+};
+
+/**
+ * Request body for importing items in the background, every item is sent to the item-imports queue.
+ */
+export const importItemsSchema = {
+	type: 'object',
+	properties: {
+		items: { type: 'array', items: newItemSchema, minItems: 1, maxItems: 100 }
+	},
+	required: ['items'],
+	additionalProperties: false
+};
+
+/**
+ * Request body for updating an item.
+ *
+ * The read-only properties are allowed, so that an item fetched from the API can be sent back as is, but they are ignored.
+ * The expected version is sent in the If-Match header.
+ */
+export const updateItemSchema = {
+	type: 'object',
+	properties: {
+		...newItemSchema.properties,
+		id: { type: 'string' },
+		createdOn: { type: 'string' },
+		lastModifiedOn: { type: 'string' },
+		version: { type: 'integer' }
+	},
+	required: ['name', 'description'],
+	additionalProperties: false
+};
+
+/**
+ * JSON Merge Patch (RFC 7396) body for an item, only the given properties are changed.
+ *
+ * The attributes are merged with the current ones, a null removes an attribute, or all of them for "attributes": null.
+ */
+export const patchItemSchema = {
+	type: 'object',
+	properties: {
+		name: { type: 'string', minLength: 1 },
+		description: { type: 'string' },
+		attributes: { type: 'object', nullable: true, propertyNames: ATTRIBUTE_NAME }
+	},
+	minProperties: 1,
+	additionalProperties: false
+};
+
+export const itemSchema: JSONSchemaType<IItem> = {
+	type: 'object',
+	properties: {
+		name: { type: 'string' },
+		description: { type: 'string' },
+		attributes: { type: 'object', nullable: true, required: [], propertyNames: ATTRIBUTE_NAME },
+		id: { type: 'string' },
+		createdOn: { type: 'string' },
+		lastModifiedOn: { type: 'string' },
+		version: { type: 'integer' }
+	},
+	required: ['id', 'name', 'description', 'createdOn', 'lastModifiedOn', 'version']
+};
+
+export const itemParamsSchema = {
+	type: 'object',
+	properties: {
+		id: { type: 'string', pattern: '^[0-9a-fA-F-]{36}$' }
+	},
+	required: ['id']
+};
+
+/**
+ * Query string of the list endpoint. Any other parameter is used as an attribute filter.
+ */
+export const listItemsQuerySchema = {
+	type: 'object',
+	properties: {
+		limit: { type: 'integer', minimum: 1, maximum: 100 },
+		cursor: { type: 'string' },
+		order: { type: 'string', enum: ['asc', 'desc'] }
+	},
+	additionalProperties: { type: 'string' }
+};
+
+export const itemListSchema = {
+	type: 'object',
+	properties: {
+		items: { type: 'array', items: itemSchema },
+		nextCursor: { type: 'string' }
+	},
+	required: ['items']
+};
@@ -0,0 +1,53 @@
+import { JSONSchemaType } from 'ajv';
+
+import { INewTag, ITag } from '../interfaces/ITag';
+import { itemParamsSchema } from './item.schema';
+
+const tagNameSchema = { type: 'string', pattern: '^[\\w-]{1,50}$' } as const;
+
+export const newTagSchema: JSONSchemaType<INewTag> = {
+	type: 'object',
+	properties: {
+		name: tagNameSchema
+	},
+	required: ['name'],
+	additionalProperties: false
+};
+
+export const tagSchema: JSONSchemaType<ITag> = {
+	type: 'object',
+	properties: {
+		name: { type: 'string' },
+		itemId: { type: 'string' },
+		createdOn: { type: 'string' },
+		lastModifiedOn: { type: 'string' }
+	},
+	required: ['name', 'itemId', 'createdOn', 'lastModifiedOn']
+};
+
+export const tagListSchema = {
+	type: 'object',
+	properties: {
+		items: { type: 'array', items: tagSchema },
+		nextCursor: { type: 'string' }
+	},
+	required: ['items']
+};
+
+export const itemTagParamsSchema = {
+	type: 'object',
+	properties: {
+		...itemParamsSchema.properties,
+		tag: tagNameSchema
+	},
+	required: ['id', 'tag']
+};
+
+export const itemTagsQuerySchema = {
+	type: 'object',
+	properties: {
+		limit: { type: 'integer', minimum: 1, maximum: 100 },
+		cursor: { type: 'string' }
+	},
+	additionalProperties: false
+};
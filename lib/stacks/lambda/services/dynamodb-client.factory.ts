@@ -0,0 +1,63 @@
+import { DynamoDBClient, DynamoDBClientConfig } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+
+const REGION = process.env.REGION!;
+const LOCAL_MODE = !!process.env.IS_LOCAL;
+// The DynamoDB Local container, the local server sets it from its config.
+const LOCAL_ENDPOINT = process.env.DYNAMODB_ENDPOINT || 'http://localhost:8000';
+
+let localRequestHandler: DynamoDBClientConfig['requestHandler'];
+
+/**
+ * Send the requests of every client that is created from now on to this handler, instead of over HTTP.
+ *
+ * Used by the local server and the tests to run against the in-memory DynamoDB (DYNAMODB_MODE=memory), this is never set in a deployed lambda.
+ *
+ * @param requestHandler
+ */
+export const setLocalRequestHandler = (requestHandler: DynamoDBClientConfig['requestHandler']) => {
+	localRequestHandler = requestHandler;
+}
+
+/**
+ * The config of a client for the DynamoDB Local container, or for the local request handler when it is set.
+ *
+ * Also used by the local server for its DynamoDB Streams client, which isn't bundled into the lambdas.
+ *
+ * @returns
+ */
+export const getLocalClientConfig = (): DynamoDBClientConfig => {
+	if (localRequestHandler)
+		return {
+			region: REGION || 'local',
+			endpoint: LOCAL_ENDPOINT,
+			requestHandler: localRequestHandler,
+			// The requests never leave the process, but they are still signed.
+			credentials: { accessKeyId: 'local', secretAccessKey: 'local' }
+		};
+
+	return {
+		region: REGION,
+		endpoint: LOCAL_ENDPOINT
+	};
+}
+
+/**
+ * Create a client for the deployed table, the DynamoDB Local container (IS_LOCAL) or the local request handler.
+ *
+ * @param local - Always use the local table, e.g. for the setup of the local server.
+ * @returns
+ */
+export const createDynamoDbClient = (local = LOCAL_MODE) => {
+	if (localRequestHandler || local) return new DynamoDBClient(getLocalClientConfig());
+
+	return new DynamoDBClient({ region: REGION });
+}
+
+/**
+ * Create a DocumentClient, which converts the DynamoDB attribute values to plain values and back.
+ *
+ * @param local
+ * @returns
+ */
+export const createDocumentClient = (local = LOCAL_MODE) => DynamoDBDocumentClient.from(createDynamoDbClient(local));
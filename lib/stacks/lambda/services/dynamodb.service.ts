@@ -1,37 +1,50 @@
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, QueryCommand, PutCommand, GetCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand, PutCommand, GetCommand, DeleteCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
 
 import { v4 } from 'uuid';
 
-const REGION = process.env.REGION!;
+import { createDocumentClient } from './dynamodb-client.factory';
+import { LoggerService } from './logger.service';
+import { SK_PK_INDEX } from '../../data/data-table.definition';
+import { ENTITY_TYPE, IRelationship } from '../entities/entity.registry';
+import { ConflictError, NotFoundError } from '../errors/http.error';
+import { FilterValue, IListOptions, IListResult } from '../interfaces/IList';
+import { isPatchOperation } from '../helpers/patch-operation.helper';
+import { IPatchChanges } from '../interfaces/IPatch';
+
 const TABLE_NAME = process.env.TABLE_NAME!;
-const LOCAL_MODE = !!process.env.IS_LOCAL;
 
-type RESOURCE_TYPE = 'ITEM';
+type RESOURCE_TYPE = ENTITY_TYPE;
 type RESOURCE_FILTER = RESOURCE_TYPE | `${RESOURCE_TYPE}#${string}`;
 
+// Attributes that are managed by this service and can't be patched.
+const PROTECTED_ATTRIBUTES = ['PK', 'SK', 'id', 'createdOn', 'lastModifiedOn', 'version'];
+
+interface ICondition {
+	expression: string;
+	names?: Record<string, string>;
+	values?: Record<string, any>;
+}
+
 export class DynamoDbService {
 	private client: DynamoDBDocumentClient;
+	private logger = new LoggerService('DynamoDbService');
 
 	constructor() {
-		const dynamoDbClient = new DynamoDBClient({
-			region: REGION,
-			endpoint: LOCAL_MODE ? 'http://localhost:8000' : undefined
-		});
-		this.client = DynamoDBDocumentClient.from(dynamoDbClient);
+		this.client = createDocumentClient();
 	}
 
 	/**
-	 * Get a list of items.
+	 * Get a page of items.
 	 * 
 	 * @param sk - Specified type for main items, string for other items.
 	 * @param pk - Additional filter for the items.
+	 * @param options - Limit, cursor, sort direction and attribute filters.
 	 * @returns 
 	 */
-	async list<T>(sk: RESOURCE_FILTER, pk: RESOURCE_FILTER): Promise<T[]> {
+	async list<T>(sk: RESOURCE_FILTER, pk: RESOURCE_FILTER, options: IListOptions = {}): Promise<IListResult<T>> {
 		const cmd = new QueryCommand({
 			TableName: TABLE_NAME,
-			IndexName: 'SK-PK-index',
+			IndexName: SK_PK_INDEX,
 			KeyConditionExpression: 'SK = :sk and begins_with(PK, :pk)',
 			ExpressionAttributeValues: {
 				':sk': sk,
@@ -39,21 +52,103 @@ export class DynamoDbService {
 			}
 		});
 
-		console.log(`Executing Query Command for 1st page.`);
-		let results = await this.client.send(cmd);
-		const items = [...results.Items!];
+		return this.query<T>(cmd, options);
+	}
 
-		let pageNumber = 1;
-		while (results.LastEvaluatedKey) {
-			console.log(`Loading page ${++pageNumber} from DynamoDB.`);
-			cmd.input.ExclusiveStartKey = results.LastEvaluatedKey;
+	/**
+	 * Get a page of the children of an item, e.g. all the tags of an item.
+	 * 
+	 * @param relationship 
+	 * @param parentId 
+	 * @param options - Limit, cursor, sort direction and attribute filters.
+	 * @returns 
+	 */
+	async listChildren<T>(relationship: IRelationship, parentId: string, options: IListOptions = {}): Promise<IListResult<T>> {
+		const cmd = new QueryCommand({
+			TableName: TABLE_NAME,
+			KeyConditionExpression: 'PK = :pk and begins_with(SK, :sk)',
+			ExpressionAttributeValues: {
+				':pk': `${relationship.parent}#${parentId}`,
+				':sk': `${relationship.child}#`
+			}
+		});
 
-			results = await this.client.send(cmd);
-			if (results.Items?.length) items.push(...results.Items);
+		return this.query<T>(cmd, options);
+	}
+
+	/**
+	 * Get a page of the parents of an item, e.g. all the items with a tag.
+	 * 
+	 * @param relationship 
+	 * @param childId 
+	 * @param options - Limit, cursor, sort direction and attribute filters.
+	 * @returns 
+	 */
+	async listParents<T>(relationship: IRelationship, childId: string, options: IListOptions = {}): Promise<IListResult<T>> {
+		const cmd = new QueryCommand({
+			TableName: TABLE_NAME,
+			IndexName: SK_PK_INDEX,
+			KeyConditionExpression: 'SK = :sk and begins_with(PK, :pk)',
+			ExpressionAttributeValues: {
+				':sk': `${relationship.child}#${childId}`,
+				':pk': `${relationship.parent}#`
+			}
+		});
+
+		return this.query<T>(cmd, options);
+	}
+
+	/**
+	 * Link a child to a parent, replacing the link when it already exists.
+	 * 
+	 * @param relationship 
+	 * @param parentId 
+	 * @param childId 
+	 * @param resource - Attributes to store on the link.
+	 */
+	async link(relationship: IRelationship, parentId: string, childId: string, resource: any = {}) {
+		await this.createLink(resource, `${relationship.parent}#${parentId}`, `${relationship.child}#${childId}`);
+	}
+
+	/**
+	 * Remove the link between a child and a parent, throws a NotFoundError when they aren't linked.
+	 * 
+	 * @param relationship 
+	 * @param parentId 
+	 * @param childId 
+	 */
+	async unlink(relationship: IRelationship, parentId: string, childId: string) {
+		const cmd = new DeleteCommand({
+			TableName: TABLE_NAME,
+			Key: {
+				PK: `${relationship.parent}#${parentId}`,
+				SK: `${relationship.child}#${childId}`
+			},
+			ConditionExpression: 'attribute_exists(PK)'
+		});
+
+		try {
+			await this.client.send(cmd);
+		} catch (error: any) {
+			if (error.name === 'ConditionalCheckFailedException')
+				throw new NotFoundError(`${relationship.parent} ${parentId} is not linked to ${relationship.child} ${childId}.`);
+			throw error;
 		}
+	}
 
-		console.log(`Returning ${items.length} items.`);
-		return this.removeKeys(items);
+	/**
+	 * Check that a cursor was created by one of the list functions.
+	 * 
+	 * @param cursor 
+	 * @returns 
+	 */
+	static isValidCursor(cursor: string) {
+		try {
+			const key = DynamoDbService.decodeCursor(cursor);
+			return !!key && typeof key === 'object' && typeof key.PK === 'string' && typeof key.SK === 'string';
+		} catch (error) {
+			return false;
+		}
 	}
 
 	/**
@@ -69,8 +164,9 @@ export class DynamoDbService {
 		resource.createdOn = new Date().toISOString();
 		resource.PK = `${pk}#${resource.id}`;
 		resource.SK = sk;
+		resource.version = 1;
 
-		await this.putItem(resource);
+		await this.putItem(resource, { expression: 'attribute_not_exists(PK)' });
 
 		return resource.id;
 	}
@@ -117,28 +213,129 @@ export class DynamoDbService {
 	/**
 	 * Update an item.
 	 * 
+	 * The put only succeeds when the item still has the version that was read (or the expected version when given),
+	 * otherwise a ConflictError is thrown. This also stops a deleted item from being recreated.
+	 * 
 	 * @param resource 
 	 * @param pk 
 	 * @param sk 
+	 * @param expectedVersion - The version the client last saw, e.g. from the If-Match header.
+	 * @returns The new version of the item.
 	 */
-	async update(resource: any, pk: RESOURCE_FILTER, sk: RESOURCE_FILTER) {
+	async update(resource: any, pk: RESOURCE_FILTER, sk: RESOURCE_FILTER, expectedVersion?: number) {
 		resource.PK = `${pk}#${resource.id}`;
 		resource.SK = sk;
 
 		const existingItem: any | undefined = await this.get(resource.id, pk, sk);
-		if (!existingItem) throw '404';
+		if (!existingItem) throw new NotFoundError(`${pk} ${resource.id} was not found.`);
+
+		// Items created before versioning was added don't have a version yet.
+		const currentVersion: number | undefined = existingItem.version;
+		if (expectedVersion === undefined) expectedVersion = currentVersion;
 
 		for (const prop in resource) {
-			if (['createdOn', 'id'].includes(prop)) continue;
+			if (['createdOn', 'id', 'version'].includes(prop)) continue;
 
 			existingItem[prop] = resource[prop];
 		}
 
-		await this.putItem(existingItem);
+		existingItem.version = (expectedVersion || 0) + 1;
+
+		try {
+			await this.putItem(existingItem, expectedVersion === undefined
+				? { expression: 'attribute_exists(PK) and attribute_not_exists(#version)', names: { '#version': 'version' } }
+				: { expression: 'attribute_exists(PK) and #version = :expectedVersion', names: { '#version': 'version' }, values: { ':expectedVersion': expectedVersion } }
+			);
+		} catch (error: any) {
+			if (error.name === 'ConditionalCheckFailedException')
+				throw new ConflictError(`${pk} ${resource.id} was changed or deleted by another request.`);
+			throw error;
+		}
+
+		return existingItem.version as number;
+	}
+
+	/**
+	 * Partially update an item with a single UpdateCommand, without reading it first.
+	 * 
+	 * @see IPatchChanges
+	 * 
+	 * @param id 
+	 * @param pk 
+	 * @param sk 
+	 * @param changes 
+	 * @param expectedVersion - The version the client last saw, e.g. from the If-Match header.
+	 * @returns The updated item.
+	 * @throws NotFoundError when the item doesn't exist, ConflictError when the version doesn't match.
+	 */
+	async patch<T>(id: string, pk: RESOURCE_FILTER, sk: RESOURCE_FILTER, changes: IPatchChanges, expectedVersion?: number): Promise<T> {
+		const setExpressions: string[] = ['#lastModifiedOn = :lastModifiedOn'];
+		const removeExpressions: string[] = [];
+		const addExpressions: string[] = ['#version :one'];
+		const names: Record<string, string> = { '#lastModifiedOn': 'lastModifiedOn', '#version': 'version' };
+		const values: Record<string, any> = { ':lastModifiedOn': new Date().toISOString(), ':one': 1 };
+
+		Object.keys(changes)
+			.filter(attribute => !PROTECTED_ATTRIBUTES.includes(attribute))
+			.forEach((attribute, index) => {
+				const value = changes[attribute];
+				const name = `#a${index}`;
+				names[name] = attribute;
+
+				if (value === null) {
+					removeExpressions.push(name);
+				} else if (this.isOperation(value, '$append')) {
+					values[`:a${index}`] = value.$append;
+					values[':emptyList'] = [];
+					setExpressions.push(`${name} = list_append(if_not_exists(${name}, :emptyList), :a${index})`);
+				} else if (this.isOperation(value, '$add')) {
+					values[`:a${index}`] = value.$add;
+					addExpressions.push(`${name} :a${index}`);
+				} else {
+					values[`:a${index}`] = value;
+					setExpressions.push(`${name} = :a${index}`);
+				}
+			});
+
+		let condition = 'attribute_exists(PK)';
+		if (expectedVersion !== undefined) {
+			condition += ' and #version = :expectedVersion';
+			values[':expectedVersion'] = expectedVersion;
+		}
+
+		const cmd = new UpdateCommand({
+			TableName: TABLE_NAME,
+			Key: {
+				PK: `${pk}#${id}`,
+				SK: sk
+			},
+			UpdateExpression: [
+				`SET ${setExpressions.join(', ')}`,
+				removeExpressions.length ? `REMOVE ${removeExpressions.join(', ')}` : '',
+				`ADD ${addExpressions.join(', ')}`
+			].filter(Boolean).join(' '),
+			ConditionExpression: condition,
+			ExpressionAttributeNames: names,
+			ExpressionAttributeValues: values,
+			ReturnValues: 'ALL_NEW',
+			ReturnValuesOnConditionCheckFailure: 'ALL_OLD'
+		});
+
+		try {
+			const response = await this.client.send(cmd);
+			return this.removeKeys([response.Attributes!])[0];
+		} catch (error: any) {
+			if (error.name === 'ConditionalCheckFailedException') {
+				// Without the old item, the condition failed because the item doesn't exist.
+				if (!error.Item) throw new NotFoundError(`${pk} ${id} was not found.`);
+				throw new ConflictError(`${pk} ${id} was changed by another request.`);
+			}
+			throw error;
+		}
 	}
 
 	/**
-	 * Delete an item.
+	 * Delete an item, throws a NotFoundError when it doesn't exist.
 	 * 
 	 * @param id 
 	 * @param pk 
@@ -150,10 +347,16 @@ export class DynamoDbService {
 			Key: {
 				PK: `${pk}#${id}`,
 				SK: sk
-			}
+			},
+			ConditionExpression: 'attribute_exists(PK)'
 		});
 
-		await this.client.send(cmd);
+		try {
+			await this.client.send(cmd);
+		} catch (error: any) {
+			if (error.name === 'ConditionalCheckFailedException') throw new NotFoundError(`${pk} ${id} was not found.`);
+			throw error;
+		}
 	}
 
 	/**
@@ -174,6 +377,99 @@ export class DynamoDbService {
 		await this.client.send(cmd);
 	}
 
+	/**
+	 * Run a query, loading pages until the limit is reached or there are no more items.
+	 * 
+	 * @param cmd 
+	 * @param options 
+	 * @returns 
+	 */
+	private async query<T>(cmd: QueryCommand, options: IListOptions): Promise<IListResult<T>> {
+		cmd.input.ScanIndexForward = options.direction !== 'desc';
+		cmd.input.ExclusiveStartKey = options.cursor ? DynamoDbService.decodeCursor(options.cursor) : undefined;
+
+		this.addFilters(cmd, options.filters);
+
+		const items: Record<string, any>[] = [];
+		let pageNumber = 0;
+		let lastEvaluatedKey: Record<string, any> | undefined;
+
+		do {
+			// The limit is applied before the filter, so keep on loading pages until there are enough items.
+			if (options.limit) cmd.input.Limit = options.limit - items.length;
+
+			this.logger.debug(`Loading page ${++pageNumber} from DynamoDB.`, { indexName: cmd.input.IndexName });
+			const results = await this.client.send(cmd);
+			if (results.Items?.length) items.push(...results.Items);
+
+			lastEvaluatedKey = results.LastEvaluatedKey;
+			cmd.input.ExclusiveStartKey = lastEvaluatedKey;
+		} while (lastEvaluatedKey && (!options.limit || items.length < options.limit));
+
+		this.logger.debug(`Returning ${items.length} items.`, { pages: pageNumber });
+		return {
+			items: this.removeKeys(items),
+			nextCursor: lastEvaluatedKey ? DynamoDbService.encodeCursor(lastEvaluatedKey) : undefined
+		};
+	}
+
+	/**
+	 * Add the attribute filters to a query.
+	 * 
+	 * ! Key attributes can't be used in a filter expression, so those are skipped.
+	 * 
+	 * @param cmd 
+	 * @param filters 
+	 */
+	private addFilters(cmd: QueryCommand, filters: IListOptions['filters'] = {}) {
+		const expressions: string[] = [];
+		const names: Record<string, string> = {};
+		const values: Record<string, any> = {};
+
+		Object.keys(filters)
+			.filter(attribute => !['PK', 'SK'].includes(attribute))
+			.forEach((attribute, index) => {
+				const candidates = ([] as FilterValue[]).concat(filters[attribute]);
+				const valueNames = candidates.map((_, valueIndex) => `:f${index}_${valueIndex}`);
+
+				names[`#f${index}`] = attribute;
+				valueNames.forEach((valueName, valueIndex) => values[valueName] = candidates[valueIndex]);
+
+				expressions.push(candidates.length === 1 ? `#f${index} = ${valueNames[0]}` : `#f${index} IN (${valueNames.join(', ')})`);
+			});
+
+		if (!expressions.length) return;
+
+		cmd.input.FilterExpression = expressions.join(' and ');
+		cmd.input.ExpressionAttributeNames = names;
+		cmd.input.ExpressionAttributeValues = { ...cmd.input.ExpressionAttributeValues, ...values };
+	}
+
+	/**
+	 * Check if a patch value is one of the operations, e.g. appendToList([...]).
+	 * 
+	 * @param value 
+	 * @param operation 
+	 * @returns 
+	 */
+	private isOperation(value: any, operation: '$append' | '$add') {
+		return isPatchOperation(value) && operation in value;
+	}
+
+	/**
+	 * The cursor is the base64 encoded LastEvaluatedKey.
+	 * 
+	 * @param key 
+	 * @returns 
+	 */
+	private static encodeCursor(key: Record<string, any>) {
+		return Buffer.from(JSON.stringify(key)).toString('base64url');
+	}
+
+	private static decodeCursor(cursor: string) {
+		return JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+	}
+
 	/**
 	 * Remove the PK & SK properties from the items.
 	 * 
@@ -191,13 +487,17 @@ export class DynamoDbService {
 	 * Save an item to DynamoDB.
 	 * 
 	 * @param resource 
+	 * @param condition - Optional condition expression for the put.
 	 */
-	private async putItem(resource: any) {
+	private async putItem(resource: any, condition?: ICondition) {
 		resource.lastModifiedOn = new Date().toISOString();
 
 		const cmd = new PutCommand({
 			TableName: TABLE_NAME,
-			Item: resource
+			Item: resource,
+			ConditionExpression: condition?.expression,
+			ExpressionAttributeNames: condition?.names,
+			ExpressionAttributeValues: condition?.values
 		});
 
 		await this.client.send(cmd);
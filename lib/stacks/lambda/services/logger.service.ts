@@ -0,0 +1,122 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+import { LogLevelEnum } from '../../../enums/log-level.enum';
+import { StageEnum } from '../../../enums/stage.enum';
+
+// The level of a stage, unless LOG_LEVEL is set. The functions are deployed with the same level (request-lambda.cdk-construct.ts).
+export const STAGE_LOG_LEVELS: Record<StageEnum, LogLevelEnum> = {
+	[StageEnum.DEV]: LogLevelEnum.DEBUG,
+	[StageEnum.QA]: LogLevelEnum.INFO,
+	[StageEnum.PROD]: LogLevelEnum.INFO
+};
+
+const LEVELS = Object.values(LogLevelEnum);
+
+export interface ILogContext {
+	awsRequestId?: string;
+	correlationId?: string;
+	// E.g. "GET /items/{id}".
+	route?: string;
+}
+
+// Each invocation gets its own context, which also keeps the concurrent requests of the local server apart.
+const storage = new AsyncLocalStorage<ILogContext>();
+
+/**
+ * Writes the logs as JSON lines with the level, timestamp, stage and the context of the invocation, so that CloudWatch can filter them per request.
+ *
+ * Locally (IS_LOCAL=true) the logs are pretty printed instead, unless LOG_FORMAT=json is set.
+ */
+export class LoggerService {
+	/**
+	 * @param name - E.g. the name of the service, logged as "logger".
+	 */
+	constructor(private name?: string) { }
+
+	/**
+	 * Run a function with a log context of its own, e.g. an invocation of a lambda.
+	 *
+	 * @param context
+	 * @param fn
+	 * @returns - The result of the function.
+	 */
+	static runWithContext<T>(context: ILogContext, fn: () => T): T {
+		return storage.run({ ...context }, fn);
+	}
+
+	/**
+	 * Add values to the log context of the current invocation, e.g. the correlation id once it is known.
+	 *
+	 * @param context
+	 */
+	static appendContext(context: ILogContext) {
+		const current = storage.getStore();
+		if (current) Object.assign(current, context);
+	}
+
+	/**
+	 * The level of the current stage, which LOG_LEVEL or the application log level of the function (AWS_LAMBDA_LOG_LEVEL) override.
+	 *
+	 * @returns
+	 */
+	static get level(): LogLevelEnum {
+		const level = (process.env.LOG_LEVEL || process.env.AWS_LAMBDA_LOG_LEVEL)?.toUpperCase() as LogLevelEnum;
+		if (LEVELS.includes(level)) return level;
+
+		return STAGE_LOG_LEVELS[process.env.STAGE as StageEnum] || LogLevelEnum.DEBUG;
+	}
+
+	debug(message: string, data?: Record<string, any>) {
+		this.log(LogLevelEnum.DEBUG, message, data);
+	}
+
+	info(message: string, data?: Record<string, any>) {
+		this.log(LogLevelEnum.INFO, message, data);
+	}
+
+	warn(message: string, data?: Record<string, any>) {
+		this.log(LogLevelEnum.WARN, message, data);
+	}
+
+	error(message: string, data?: Record<string, any>) {
+		this.log(LogLevelEnum.ERROR, message, data);
+	}
+
+	private log(level: LogLevelEnum, message: string, data: Record<string, any> = {}) {
+		if (LEVELS.indexOf(level) < LEVELS.indexOf(LoggerService.level)) return;
+
+		const context = storage.getStore() || {};
+		const values = Object.fromEntries(Object.entries(data).map(([key, value]) => [key, value instanceof Error ? serializeError(value) : value]));
+
+		if (isPretty()) return this.print(level, message, context, values);
+
+		const entry = {
+			level,
+			timestamp: new Date().toISOString(),
+			message,
+			stage: process.env.STAGE,
+			logger: this.name,
+			...context,
+			...values
+		};
+
+		// Written to stdout instead of the console, so that Lambda doesn't wrap the JSON in a log record of its own.
+		process.stdout.write(`${JSON.stringify(entry)}\n`);
+	}
+
+	private print(level: LogLevelEnum, message: string, context: ILogContext, values: Record<string, any>) {
+		const prefix = [level.padEnd(5), context.route && `[${context.route}]`, this.name && `${this.name}:`].filter(Boolean).join(' ');
+		// The stack of an error is printed below the line.
+		const { error, ...rest } = values;
+		const details = Object.keys(rest).length ? ` ${JSON.stringify(rest)}` : '';
+		const line = `${prefix} ${message}${details}${error ? `\n${error.stack || JSON.stringify(error)}` : ''}`;
+
+		if (level === LogLevelEnum.ERROR || level === LogLevelEnum.FATAL) console.error(line);
+		else if (level === LogLevelEnum.WARN) console.warn(line);
+		else console.log(line);
+	}
+}
+
+const isPretty = () => process.env.LOG_FORMAT ? process.env.LOG_FORMAT === 'pretty' : process.env.IS_LOCAL === 'true';
+
+const serializeError = (error: Error) => ({ name: error.name, message: error.message, stack: error.stack });
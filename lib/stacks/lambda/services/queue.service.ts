@@ -0,0 +1,91 @@
+import { GetQueueUrlCommand, SendMessageBatchCommand, SendMessageCommand, SQSClient } from '@aws-sdk/client-sqs';
+
+import { createSqsClient } from './sqs-client.factory';
+import { getQueueName } from '../lambda-function.definition';
+
+const STAGE = process.env.STAGE || 'local';
+
+// SQS doesn't take more messages per batch.
+const MAX_BATCH_SIZE = 10;
+
+// The URLs don't change, so they are looked up once per container.
+const queueUrls = new Map<string, Promise<string>>();
+
+export interface ISendOptions {
+	// Seconds before the message can be received, at most 900.
+	delaySeconds?: number;
+}
+
+/**
+ * Sends messages to the queues of the @Queue handlers.
+ *
+ * ! The function needs the queue in the sendsTo of its definition (lambda-function.definition.ts), otherwise it isn't allowed to send to it.
+ */
+export class QueueService {
+	private client: SQSClient;
+
+	constructor() {
+		this.client = createSqsClient();
+	}
+
+	/**
+	 * Send a message to a queue.
+	 *
+	 * @param queueName - The name of the @Queue decorator, e.g. "item-imports".
+	 * @param body - Sent as JSON unless it is a string.
+	 * @param options
+	 * @returns - The id of the message.
+	 */
+	async send(queueName: string, body: unknown, options: ISendOptions = {}) {
+		const { MessageId } = await this.client.send(new SendMessageCommand({
+			QueueUrl: await this.getQueueUrl(queueName),
+			MessageBody: toMessageBody(body),
+			DelaySeconds: options.delaySeconds
+		}));
+
+		return MessageId!;
+	}
+
+	/**
+	 * Send messages to a queue, in batches of 10.
+	 *
+	 * ! Throws when any of the messages wasn't sent, the ones before it may have been sent already.
+	 *
+	 * @param queueName
+	 * @param bodies - Sent as JSON unless they are strings.
+	 * @returns - The ids of the messages, in the same order.
+	 */
+	async sendBatch(queueName: string, bodies: unknown[]) {
+		const queueUrl = await this.getQueueUrl(queueName);
+		const messageIds: string[] = [];
+
+		for (let i = 0; i < bodies.length; i += MAX_BATCH_SIZE) {
+			const batch = bodies.slice(i, i + MAX_BATCH_SIZE);
+			const { Successful = [], Failed = [] } = await this.client.send(new SendMessageBatchCommand({
+				QueueUrl: queueUrl,
+				Entries: batch.map((body, index) => ({ Id: String(index), MessageBody: toMessageBody(body) }))
+			}));
+
+			if (Failed.length) throw new Error(`${Failed.length} message(s) couldn't be sent to ${queueName}: ${Failed[0].Message}`);
+
+			messageIds.push(...Successful.sort((a, b) => Number(a.Id) - Number(b.Id)).map(entry => entry.MessageId!));
+		}
+
+		return messageIds;
+	}
+
+	private getQueueUrl(queueName: string) {
+		const name = getQueueName(STAGE, queueName);
+
+		if (!queueUrls.has(name)) {
+			const url = this.client.send(new GetQueueUrlCommand({ QueueName: name })).then(({ QueueUrl }) => QueueUrl!);
+			// Look it up again next time, e.g. when the queue didn't exist yet.
+			url.catch(() => queueUrls.delete(name));
+			queueUrls.set(name, url);
+		}
+
+		return queueUrls.get(name)!;
+	}
+}
+
+const toMessageBody = (body: unknown) => typeof body === 'string' ? body : JSON.stringify(body);
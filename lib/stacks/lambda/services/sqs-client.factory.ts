@@ -0,0 +1,35 @@
+import { SQSClient, SQSClientConfig } from '@aws-sdk/client-sqs';
+
+const REGION = process.env.REGION!;
+const LOCAL_ENDPOINT = 'http://localhost:9324';
+
+let localRequestHandler: SQSClientConfig['requestHandler'];
+
+/**
+ * Send the requests of every client that is created from now on to this handler, instead of over HTTP.
+ *
+ * Used by the local server and the tests to run against the in-memory SQS, this is never set in a deployed lambda.
+ *
+ * @param requestHandler
+ */
+export const setLocalSqsRequestHandler = (requestHandler: SQSClientConfig['requestHandler']) => {
+	localRequestHandler = requestHandler;
+}
+
+/**
+ * Create a client for the deployed queues, or for the local request handler when it is set.
+ *
+ * @returns
+ */
+export const createSqsClient = () => {
+	if (localRequestHandler)
+		return new SQSClient({
+			region: REGION || 'local',
+			endpoint: LOCAL_ENDPOINT,
+			requestHandler: localRequestHandler,
+			// The requests never leave the process, but they are still signed.
+			credentials: { accessKeyId: 'local', secretAccessKey: 'local' }
+		});
+
+	return new SQSClient({ region: REGION });
+}
@@ -0,0 +1,69 @@
+import * as cdk from 'aws-cdk-lib';
+import { SqsEventSource } from 'aws-cdk-lib/aws-lambda-event-sources';
+import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
+import { IQueue, Queue } from 'aws-cdk-lib/aws-sqs';
+import { Construct } from 'constructs';
+
+import { ILambdaStackProps } from '../../interfaces/lambda.stack-props';
+import { RequestLambda } from '../lambda/request-lambda.cdk-construct';
+import { validateLambdaStackProps } from '../lambda/lambda-stack-props.validator';
+import { getDeadLetterQueueName, getFunctionDefinition, getFunctionName, getQueueName } from '../lambda/lambda-function.definition';
+import { loadQueueHandlers } from '../../../testing/controller.loader';
+import { QUEUE_DEFAULTS } from '../../../testing/decorators';
+
+// The longest that SQS keeps a message, to have time to look into the failed ones.
+const DEAD_LETTER_RETENTION = cdk.Duration.days(14);
+
+/**
+ * Creates a queue with a dead-letter queue for every @Queue handler, and the function that its event source mapping invokes with the messages.
+ *
+ * The local server creates the same queues in the in-memory SQS, with the same batch sizes, visibility timeouts and max receive counts.
+ * Pass the queues to the other stacks, so that their functions can send to them.
+ */
+export class QueueStack extends cdk.Stack {
+	// By the name of the @Queue decorator, e.g. "item-imports".
+	readonly queues: Record<string, IQueue> = {};
+	readonly deadLetterQueues: Record<string, IQueue> = {};
+	readonly functions: Record<string, NodejsFunction> = {};
+
+	constructor(scope: Construct, props: ILambdaStackProps) {
+		const id = `${props.stage}-ProjectName-queues`;
+		validateLambdaStackProps(id, props);
+
+		super(scope, id, props);
+
+		const queueHandlers = loadQueueHandlers('ts');
+
+		// All the queues first, so that the handlers can send to each other.
+		queueHandlers.forEach(({ folder, codeFile, queueName, options }) => {
+			const { timeout } = getFunctionDefinition(folder, codeFile);
+
+			this.deadLetterQueues[queueName] = new Queue(this, `${queueName}-dlq`, {
+				queueName: getDeadLetterQueueName(props.stage, queueName),
+				retentionPeriod: DEAD_LETTER_RETENTION
+			});
+
+			this.queues[queueName] = new Queue(this, queueName, {
+				queueName: getQueueName(props.stage, queueName),
+				visibilityTimeout: cdk.Duration.seconds(options.visibilityTimeout ?? timeout * QUEUE_DEFAULTS.visibilityTimeoutFactor),
+				deadLetterQueue: {
+					queue: this.deadLetterQueues[queueName],
+					maxReceiveCount: options.maxReceiveCount || QUEUE_DEFAULTS.maxReceiveCount
+				}
+			});
+		});
+
+		queueHandlers.forEach(({ folder, codeFile, queueName, options }) => {
+			const functionId = getFunctionName(props.stage, folder, codeFile);
+			const fn = new RequestLambda(this, functionId, folder, codeFile, { ...props, queues: { ...props.queues, ...this.queues } }).function;
+
+			fn.addEventSource(new SqsEventSource(this.queues[queueName], {
+				batchSize: options.batchSize || QUEUE_DEFAULTS.batchSize,
+				// Only the messages in the batchItemFailures of the handler are retried.
+				reportBatchItemFailures: true
+			}));
+
+			this.functions[`${folder}/${codeFile}`] = fn;
+		});
+	}
+}
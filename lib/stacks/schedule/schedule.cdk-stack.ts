@@ -0,0 +1,44 @@
+import * as cdk from 'aws-cdk-lib';
+import { Rule, Schedule } from 'aws-cdk-lib/aws-events';
+import { LambdaFunction } from 'aws-cdk-lib/aws-events-targets';
+import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
+import { Construct } from 'constructs';
+
+import { ILambdaStackProps } from '../../interfaces/lambda.stack-props';
+import { RequestLambda } from '../lambda/request-lambda.cdk-construct';
+import { validateLambdaStackProps } from '../lambda/lambda-stack-props.validator';
+import { getFunctionName } from '../lambda/lambda-function.definition';
+import { loadScheduledHandlers } from '../../../testing/controller.loader';
+import { parseScheduleExpression } from '../../../testing/schedules/schedule.expression';
+
+/**
+ * Creates a function for every @Schedule handler, with an EventBridge rule that invokes it on its schedule expression.
+ *
+ * The local server runs the handlers on the same expressions, an expression that it can't parse fails the synthesis as well.
+ */
+export class ScheduleStack extends cdk.Stack {
+	readonly functions: Record<string, NodejsFunction> = {};
+
+	constructor(scope: Construct, props: ILambdaStackProps) {
+		const id = `${props.stage}-ProjectName-schedules`;
+		validateLambdaStackProps(id, props);
+
+		super(scope, id, props);
+
+		loadScheduledHandlers('ts').forEach(({ folder, codeFile, expression }) => {
+			parseScheduleExpression(expression);
+
+			const functionId = getFunctionName(props.stage, folder, codeFile);
+			const fn = new RequestLambda(this, functionId, folder, codeFile, props).function;
+
+			// The local server names the rule the same way in the resources of the event.
+			new Rule(this, `${functionId}-schedule`, {
+				ruleName: `${functionId}-schedule`,
+				schedule: Schedule.expression(expression),
+				targets: [new LambdaFunction(fn)]
+			});
+
+			this.functions[`${folder}/${codeFile}`] = fn;
+		});
+	}
+}
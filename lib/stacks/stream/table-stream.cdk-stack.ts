@@ -0,0 +1,44 @@
+import * as cdk from 'aws-cdk-lib';
+import { FilterCriteria, StartingPosition } from 'aws-cdk-lib/aws-lambda';
+import { DynamoEventSource } from 'aws-cdk-lib/aws-lambda-event-sources';
+import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
+import { Construct } from 'constructs';
+
+import { ITableStreamStackProps } from '../../interfaces/table-stream.stack-props';
+import { RequestLambda } from '../lambda/request-lambda.cdk-construct';
+import { validateLambdaStackProps } from '../lambda/lambda-stack-props.validator';
+import { getFunctionName } from '../lambda/lambda-function.definition';
+import { loadStreamHandlers } from '../../../testing/controller.loader';
+import { STREAM_HANDLER_DEFAULTS } from '../../../testing/decorators';
+import { buildStreamFilterPattern } from '../../../testing/dynamodb-streams/stream-filter.pattern';
+
+/**
+ * Creates a function for every @StreamHandler, which the stream of the table invokes with the changes that pass its filter.
+ *
+ * The local server polls the stream of the local table with the same filters, batch sizes and retries.
+ */
+export class TableStreamStack extends cdk.Stack {
+	readonly functions: Record<string, NodejsFunction> = {};
+
+	constructor(scope: Construct, props: ITableStreamStackProps) {
+		const id = `${props.stage}-ProjectName-streams`;
+		validateLambdaStackProps(id, props);
+
+		super(scope, id, props);
+
+		loadStreamHandlers('ts').forEach(({ folder, codeFile, options }) => {
+			const functionId = getFunctionName(props.stage, folder, codeFile);
+			const fn = new RequestLambda(this, functionId, folder, codeFile, props).function;
+			const pattern = buildStreamFilterPattern(options);
+
+			fn.addEventSource(new DynamoEventSource(props.table, {
+				startingPosition: StartingPosition.LATEST,
+				batchSize: options.batchSize || STREAM_HANDLER_DEFAULTS.batchSize,
+				retryAttempts: options.retryAttempts ?? STREAM_HANDLER_DEFAULTS.retryAttempts,
+				filters: pattern ? [FilterCriteria.filter(pattern)] : undefined
+			}));
+
+			this.functions[`${folder}/${codeFile}`] = fn;
+		});
+	}
+}
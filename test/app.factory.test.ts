@@ -0,0 +1,120 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+import { createApp, ILocalApp, IReloadable, reloadLambdaCode } from '../testing/app.factory';
+import { ILoadedController, loadControllers } from '../testing/controller.loader';
+import { Controller, Get, getControllerRoutes } from '../testing/decorators';
+import { buildResponseBody } from '../lib/stacks/lambda/helpers/lambda-response.helper';
+
+// The lambda code is replaced by the controllers below, jest keeps its own module registry, which the loader can't unload.
+jest.mock('../testing/controller.loader', () => ({
+	...jest.requireActual('../testing/controller.loader'),
+	loadControllers: jest.fn(),
+	unloadControllers: jest.fn()
+}));
+
+@Controller('chairs')
+class ChairsController {
+	@Get('')
+	async handler() {
+		return buildResponseBody(200, { items: ['chair'] });
+	}
+}
+
+@Controller('tables')
+class TablesController {
+	@Get('')
+	async handler() {
+		return buildResponseBody(200, { items: ['table'] });
+	}
+}
+
+@Controller('lamps')
+class LampsController {
+	@Get('')
+	async handler() {
+		return buildResponseBody(200, { items: ['lamp'] });
+	}
+}
+
+@Controller('tables')
+class OtherTablesController {
+	@Get('')
+	async handler() {
+		return buildResponseBody(200, { items: ['other table'] });
+	}
+}
+
+const load = (...controllers: Function[]): ILoadedController[] => controllers.map(controller => ({
+	controller,
+	folder: 'test',
+	codeFile: controller.name,
+	routes: getControllerRoutes(controller)
+}));
+
+const handlers = (calls: string[], fail?: string): IReloadable => ({
+	prepareReload: () => {
+		if (fail) throw new Error(fail);
+		return { commit: () => { calls.push('commit'); } };
+	}
+});
+
+let server: http.Server;
+let baseUrl: string;
+let localApp: ILocalApp;
+
+const get = async (path: string) => {
+	const response = await fetch(`${baseUrl}${path}`);
+	return { status: response.status, body: response.status === 200 ? await response.json() : undefined };
+}
+
+beforeEach(async () => {
+	jest.mocked(loadControllers).mockReturnValue(load(ChairsController, TablesController));
+	localApp = createApp({ extension: 'ts', serverUrl: 'http://localhost', verbose: false });
+
+	server = http.createServer(localApp.app);
+	await new Promise<void>(resolve => server.listen(0, resolve));
+	baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+afterEach(async () => {
+	await new Promise(resolve => server.close(resolve));
+});
+
+describe('reloadLambdaCode', () => {
+	test('serves the added controllers and stops serving the removed ones', async () => {
+		const calls: string[] = [];
+		jest.mocked(loadControllers).mockReturnValue(load(TablesController, LampsController));
+
+		const result = reloadLambdaCode(localApp, [handlers(calls)]);
+
+		expect(result).toEqual({ added: ['[GET] /lamps'], removed: ['[GET] /chairs'] });
+		expect(calls).toEqual(['commit']);
+		expect(localApp.controllers.map(({ controller }) => controller)).toEqual([TablesController, LampsController]);
+		expect(await get('/lamps')).toEqual({ status: 200, body: { items: ['lamp'] } });
+		expect(await get('/tables')).toEqual({ status: 200, body: { items: ['table'] } });
+		expect((await get('/chairs')).status).toBe(404);
+	});
+
+	test('keeps the previous routes and handlers for a duplicate route', async () => {
+		const calls: string[] = [];
+		jest.mocked(loadControllers).mockReturnValue(load(LampsController, TablesController, OtherTablesController));
+
+		expect(() => reloadLambdaCode(localApp, [handlers(calls)])).toThrow(new Error('Duplicate Route: [GET] /tables'));
+
+		expect(calls).toEqual([]);
+		expect(localApp.controllers.map(({ controller }) => controller)).toEqual([ChairsController, TablesController]);
+		expect(await get('/chairs')).toEqual({ status: 200, body: { items: ['chair'] } });
+		expect((await get('/lamps')).status).toBe(404);
+	});
+
+	test('keeps the previous routes and handlers when a handler can\'t be loaded', async () => {
+		const calls: string[] = [];
+		jest.mocked(loadControllers).mockReturnValue(load(LampsController));
+
+		expect(() => reloadLambdaCode(localApp, [handlers(calls), handlers(calls, 'Invalid schedule expression')])).toThrow('Invalid schedule expression');
+
+		expect(calls).toEqual([]);
+		expect(await get('/chairs')).toEqual({ status: 200, body: { items: ['chair'] } });
+		expect((await get('/lamps')).status).toBe(404);
+	});
+});
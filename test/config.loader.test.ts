@@ -0,0 +1,87 @@
+import { loadConfig, resolveStage, toServerEnvironment } from '../lib/config/config.loader';
+import { LogLevelEnum } from '../lib/enums/log-level.enum';
+import { StageEnum } from '../lib/enums/stage.enum';
+
+describe('resolveStage', () => {
+	test.each([
+		['the --stage argument', ['node', 'server', '--stage', 'qa'], {}, 'qa'],
+		['the --stage= argument', ['node', 'server', '--stage=prod'], { STAGE: 'qa' }, 'prod'],
+		['the STAGE variable', ['node', 'server'], { STAGE: 'dev' }, 'dev'],
+		['the fallback', ['node', 'server'], {}, 'local']
+	])('uses %s', (_, argv, env, stage) => {
+		expect(resolveStage('local', argv, env)).toBe(stage);
+	});
+
+	test('fails for an unknown stage', () => {
+		expect(() => resolveStage('local', ['--stage', 'staging'], {})).toThrow('Unknown stage "staging", use one of local, dev, qa, prod.');
+	});
+});
+
+describe('loadConfig', () => {
+	test('loads the file of the stage', () => {
+		const config = loadConfig(StageEnum.DEV, {});
+
+		expect(config).toMatchObject({ stage: 'dev', region: 'eu-west-1', tableName: 'dev-data' });
+		expect(config.server).toBeUndefined();
+	});
+
+	test('overrides the values with the environment variables', () => {
+		const config = loadConfig('local', { TABLE_NAME: 'other-data', PORT: '4000', DYNAMODB_MODE: 'memory', LOG_LEVEL: 'warn' });
+
+		expect(config).toMatchObject({
+			tableName: 'other-data',
+			logLevel: LogLevelEnum.WARN,
+			server: { port: 4000, dynamoDb: { mode: 'memory', endpoint: 'http://localhost:8000' } }
+		});
+	});
+
+	test('requires the account of qa and prod', () => {
+		expect(() => loadConfig(StageEnum.QA, {})).toThrow('account is required (ACCOUNT), qa is only deployed to an account of its own.');
+		expect(loadConfig(StageEnum.QA, { ACCOUNT: '123456789012' }).account).toBe('123456789012');
+	});
+
+	test('lists every invalid value with the file of the stage', () => {
+		const env = { ACCOUNT: 'abc', PORT: 'none', DYNAMODB_MODE: 'disk', USERPOOL_ID: 'eu-west-1_AbCdEf123' };
+
+		expect(() => loadConfig(StageEnum.DEV, env)).toThrow([
+			'Invalid config for the stage "dev" (lib/config/dev.config.ts):',
+			'- account must be an AWS account id of 12 digits, got "abc".',
+			'- userPool.arn is required to deploy the authorizer (USERPOOL_ARN).'
+		].join('\n'));
+
+		expect(() => loadConfig('local', env)).toThrow(/server\.port must be a port number, got "NaN" \(PORT\)\.\n- server\.dynamoDb\.mode must be one of container, memory, got "disk" \(DYNAMODB_MODE\)\./);
+	});
+
+	test('only accepts the allowed values of the server variables', () => {
+		expect(() => loadConfig('local', { DYNAMODB_MODE: 'disk', LAMBDA_EXECUTION: 'thread', API_PAYLOAD_VERSION: '3.0' })).toThrow([
+			'Invalid config for the stage "local" (lib/config/local.config.ts):',
+			'- server.dynamoDb.mode must be one of container, memory, got "disk" (DYNAMODB_MODE).',
+			'- server.lambdaExecution must be one of process, worker, got "thread" (LAMBDA_EXECUTION).',
+			'- server.apiPayloadVersion must be one of 1.0, 2.0, got "3.0" (API_PAYLOAD_VERSION).'
+		].join('\n'));
+
+		expect(loadConfig('local', { DYNAMODB_MODE: 'memory', LAMBDA_EXECUTION: 'worker', API_PAYLOAD_VERSION: '2.0' }).server)
+			.toMatchObject({ dynamoDb: { mode: 'memory' }, lambdaExecution: 'worker', apiPayloadVersion: '2.0' });
+	});
+});
+
+describe('toServerEnvironment', () => {
+	test('sets the variables that the lambda code reads', () => {
+		expect(toServerEnvironment(loadConfig('local', { USERPOOL_ID: 'eu-west-1_AbCdEf123', LAMBDA_IDLE_TIMEOUT: '0' }))).toEqual({
+			STAGE: 'local',
+			REGION: 'eu-west-1',
+			TABLE_NAME: 'dev-data',
+			IS_LOCAL: 'true',
+			DYNAMODB_MODE: 'container',
+			DYNAMODB_ENDPOINT: 'http://localhost:8000',
+			LAMBDA_EXECUTION: 'process',
+			LAMBDA_IDLE_TIMEOUT: '0',
+			API_PAYLOAD_VERSION: '1.0',
+			USERPOOL_ID: 'eu-west-1_AbCdEf123'
+		});
+	});
+
+	test('fails for a stage without server settings', () => {
+		expect(() => toServerEnvironment(loadConfig(StageEnum.DEV, {}))).toThrow('The local server can\'t run the stage "dev", lib/config/dev.config.ts doesn\'t have its server settings.');
+	});
+});
@@ -0,0 +1,165 @@
+import {
+	getDynamoDbType,
+	isAttributeValue,
+	marshallRecord,
+	parseCsvHeader,
+	parseCsvValue,
+	unmarshallRecord,
+	unmarshallValue
+} from '../testing/dynamodb-json.parser';
+
+const BINARY = Buffer.from('binary');
+const BINARY_BASE64 = BINARY.toString('base64');
+
+describe('unmarshallValue', () => {
+	test.each([
+		['a string', { S: 'John' }, 'John'],
+		['an empty string', { S: '' }, ''],
+		['a number', { N: '3.5' }, 3.5],
+		['a boolean', { BOOL: false }, false],
+		['a null', { NULL: true }, null],
+		['a binary value', { B: BINARY_BASE64 }, BINARY],
+		['a string set', { SS: ['a', 'b'] }, new Set(['a', 'b'])],
+		['a number set', { NS: ['1', '2'] }, new Set([1, 2])],
+		['a binary set', { BS: [BINARY_BASE64] }, new Set([BINARY])]
+	])('converts %s', (_, attributeValue, expected) => {
+		expect(unmarshallValue(attributeValue)).toEqual(expected);
+	});
+
+	test('converts nested maps and lists', () => {
+		const attributeValue = {
+			M: {
+				tags: { L: [{ S: 'John' }, { M: { age: { N: '3' }, pets: { L: [] } } }, { NULL: true }] },
+				address: { M: { zipCode: { S: '0123' }, verified: { BOOL: true } } }
+			}
+		};
+
+		expect(unmarshallValue(attributeValue)).toEqual({
+			tags: ['John', { age: 3, pets: [] }, null],
+			address: { zipCode: '0123', verified: true }
+		});
+	});
+
+	test('fails for an unknown type', () => {
+		expect(() => unmarshallValue({ X: 'value' })).toThrow('Unknown DynamoDB type: {"X":"value"}');
+	});
+});
+
+describe('isAttributeValue', () => {
+	test.each([
+		[{ S: 'John' }, true],
+		[{ NULL: true }, true],
+		[{ L: [] }, true],
+		[{ S: 1 }, false],
+		[{ M: [] }, false],
+		[{ S: 'John', N: '1' }, false],
+		[{ name: 'John' }, false],
+		[['S'], false],
+		[null, false]
+	])('%j is %s', (value, expected) => {
+		expect(isAttributeValue(value)).toBe(expected);
+	});
+});
+
+describe('unmarshallRecord', () => {
+	test('converts DynamoDB-JSON', () => {
+		expect(unmarshallRecord({ PK: { S: 'ITEM#1' }, count: { N: '2' } })).toEqual({ PK: 'ITEM#1', count: 2 });
+	});
+
+	test('converts the S3 export format', () => {
+		expect(unmarshallRecord({ Item: { PK: { S: 'ITEM#1' } } })).toEqual({ PK: 'ITEM#1' });
+	});
+
+	test('returns plain items as they are', () => {
+		const item = { PK: 'ITEM#1', name: { S: 'Looks like DynamoDB-JSON' }, count: 2 };
+
+		expect(unmarshallRecord(item)).toBe(item);
+		expect(unmarshallRecord({})).toEqual({});
+	});
+});
+
+describe('marshallRecord', () => {
+	test('converts every type, and back', () => {
+		const item = {
+			name: 'John',
+			empty: '',
+			age: 3,
+			active: true,
+			nothing: null,
+			photo: BINARY,
+			names: new Set(['a', 'b']),
+			numbers: new Set([1, 2]),
+			photos: new Set([BINARY]),
+			address: { zipCode: '0123', lines: ['Main Street', { number: 1 }] }
+		};
+
+		const marshalled = marshallRecord({ ...item, skipped: undefined });
+
+		expect(marshalled).toEqual({
+			name: { S: 'John' },
+			empty: { S: '' },
+			age: { N: '3' },
+			active: { BOOL: true },
+			nothing: { NULL: true },
+			photo: { B: BINARY_BASE64 },
+			names: { SS: ['a', 'b'] },
+			numbers: { NS: ['1', '2'] },
+			photos: { BS: [BINARY_BASE64] },
+			address: { M: { zipCode: { S: '0123' }, lines: { L: [{ S: 'Main Street' }, { M: { number: { N: '1' } } }] } } }
+		});
+		expect(unmarshallRecord(marshalled)).toEqual(item);
+	});
+
+	test.each([
+		[new Uint8Array([1]), 'B'],
+		[new Set([BigInt(1)]), 'NS'],
+		[new Set(), 'SS'],
+		[undefined, 'NULL']
+	])('gets the type of %p', (value, type) => {
+		expect(getDynamoDbType(value)).toBe(type);
+	});
+});
+
+describe('parseCsvValue', () => {
+	test.each([
+		['a number', '123', 123],
+		['a zero-padded number as a string', '0123', '0123'],
+		['a boolean', 'true', true],
+		['text', 'John Doe', 'John Doe'],
+		['a JSON object', '{"age":3}', { age: 3 }],
+		['stringified DynamoDB-JSON', '[{"S":"John"},{"M":{"age":{"N":"3"}}}]', ['John', { age: 3 }]]
+	])('parses %s without a type hint', (_, value, expected) => {
+		expect(parseCsvValue(value)).toEqual(expected);
+	});
+
+	test.each([
+		['S', '123', '123'],
+		['N', '0123', 123],
+		['BOOL', 'FALSE', false],
+		['NULL', '', null],
+		['B', BINARY_BASE64, BINARY],
+		['SS', '[{"S":"a"},"b"]', new Set(['a', 'b'])],
+		['NS', '[{"N":"1"},2]', new Set([1, 2])],
+		['BS', `[{"B":"${BINARY_BASE64}"}]`, new Set([BINARY])],
+		['M', '{"age":{"N":"3"}}', { age: 3 }],
+		['L', '[{"BOOL":true},{"NULL":true}]', [true, null]]
+	] as const)('parses the type hint %s', (typeHint, value, expected) => {
+		expect(parseCsvValue(value, typeHint)).toEqual(expected);
+	});
+
+	test('fails for invalid JSON with a type hint that needs it', () => {
+		expect(() => parseCsvValue('{age', 'M')).toThrow('Expected a JSON value, got: {age');
+		expect(() => parseCsvValue('a,b', 'SS')).toThrow('Expected a JSON value, got: a,b');
+	});
+});
+
+describe('parseCsvHeader', () => {
+	test.each([
+		['zipCode (S)', { name: 'zipCode', typeHint: 'S' }],
+		['tags(L)', { name: 'tags', typeHint: 'L' }],
+		['name', { name: 'name' }],
+		['size (XL)', { name: 'size (XL)' }]
+	])('parses %s', (header, expected) => {
+		expect(parseCsvHeader(header)).toEqual(expected);
+	});
+});
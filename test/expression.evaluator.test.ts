@@ -0,0 +1,167 @@
+import { AttributeMap } from '../testing/in-memory-dynamodb/attribute-value.helper';
+import { applyUpdate, evaluateCondition, project } from '../testing/in-memory-dynamodb/expression.evaluator';
+import { ExpressionParser } from '../testing/in-memory-dynamodb/expression.parser';
+
+const ITEM: AttributeMap = {
+	PK: { S: 'ITEM#1' },
+	SK: { S: 'ITEM' },
+	name: { S: 'Chair' },
+	version: { N: '3' },
+	active: { BOOL: true },
+	colors: { SS: ['red', 'blue'] },
+	sizes: { NS: ['40', '45'] },
+	tags: { L: [{ S: 'wood' }, { N: '1' }] },
+	address: { M: { city: { S: 'Ghent' }, lines: { L: [{ S: 'Main Street' }] } } }
+};
+
+const VALUES: AttributeMap = {
+	':chair': { S: 'Chair' },
+	':ch': { S: 'Ch' },
+	':three': { N: '3' },
+	':one': { N: '1' },
+	':ten': { N: '10' },
+	':red': { S: 'red' },
+	':wood': { S: 'wood' },
+	':ghent': { S: 'Ghent' },
+	':ss': { S: 'SS' }
+};
+
+const NAMES = { '#name': 'name', '#version': 'version', '#city': 'city' };
+
+const parseCondition = (expression: string) => new ExpressionParser(expression, NAMES, VALUES).parseCondition();
+
+const condition = (expression: string, item: AttributeMap = ITEM) => evaluateCondition(item, parseCondition(expression));
+
+const update = (expression: string, values: AttributeMap = {}) =>
+	applyUpdate(ITEM, new ExpressionParser(expression, NAMES, { ...VALUES, ...values }).parseUpdate(), ['PK', 'SK']);
+
+describe('condition expressions', () => {
+	test.each([
+		['#name = :chair', true],
+		['#name <> :chair', false],
+		['#version > :one AND #version <= :three', true],
+		['#version BETWEEN :one AND :ten', true],
+		['#version BETWEEN :three AND :three', true],
+		['#version IN (:one, :ten)', false],
+		['#version IN (:one, :three)', true],
+		['NOT #version = :three', false],
+		['#version = :one OR #name = :chair AND active = :one', false],
+		['(#version = :one OR #name = :chair) AND attribute_exists(active)', true],
+		['#version < :chair', false],
+		['attribute_exists(PK)', true],
+		['attribute_not_exists(missing)', true],
+		['attribute_type(colors, :ss)', true],
+		['begins_with(#name, :ch)', true],
+		['begins_with(#version, :three)', false],
+		['contains(#name, :ch)', true],
+		['contains(colors, :red)', true],
+		['contains(tags, :wood)', true],
+		['contains(tags, :one)', true],
+		['size(colors) = :one', false],
+		['size(tags) < :three', true],
+		['address.#city = :ghent', true],
+		['address.lines[0] = :chair', false]
+	])('%s is %s', (expression, expected) => {
+		expect(condition(expression)).toBe(expected);
+	});
+
+	test('treats a missing item as an item without attributes', () => {
+		expect(evaluateCondition(undefined, parseCondition('attribute_not_exists(PK)'))).toBe(true);
+		expect(evaluateCondition(undefined, parseCondition('attribute_exists(PK) and #version = :three'))).toBe(false);
+	});
+
+	test('compares the numbers as numbers', () => {
+		expect(condition('#version = :three', { version: { N: '3.0' } })).toBe(true);
+		expect(condition('#version < :ten', { version: { N: '9' } })).toBe(true);
+	});
+});
+
+describe('key condition expressions', () => {
+	test('matches the partition key and the begins_with of the sort key', () => {
+		const values = { ':pk': { S: 'ITEM#1' }, ':sk': { S: 'TAG#' } };
+		const parse = (expression: string) => new ExpressionParser(expression, { '#pk': 'PK', '#sk': 'SK' }, values).parseCondition();
+
+		const keyCondition = parse('#pk = :pk AND begins_with(#sk, :sk)');
+
+		expect(evaluateCondition({ PK: { S: 'ITEM#1' }, SK: { S: 'TAG#wood' } }, keyCondition)).toBe(true);
+		expect(evaluateCondition({ PK: { S: 'ITEM#1' }, SK: { S: 'ITEM' } }, keyCondition)).toBe(false);
+		expect(evaluateCondition({ PK: { S: 'ITEM#2' }, SK: { S: 'TAG#wood' } }, keyCondition)).toBe(false);
+	});
+});
+
+describe('update expressions', () => {
+	test('sets, removes and adds the attributes', () => {
+		const result = update('SET #name = :chair, #version = #version + :one, count = if_not_exists(count, :ten) REMOVE active ADD sizes :sizes, views :one', { ':sizes': { NS: ['45', '50'] } });
+
+		expect(result).toMatchObject({ version: { N: '4' }, count: { N: '10' }, sizes: { NS: ['40', '45', '50'] }, views: { N: '1' } });
+		expect(result.active).toBeUndefined();
+		// The item itself isn't changed.
+		expect(ITEM.version).toEqual({ N: '3' });
+	});
+
+	test('appends to a list, also when it doesn\'t exist yet', () => {
+		const values = { ':items': { L: [{ S: 'oak' }] }, ':empty': { L: [] } };
+
+		expect(update('SET tags = list_append(tags, :items)', values).tags.L).toEqual([{ S: 'wood' }, { N: '1' }, { S: 'oak' }]);
+		expect(update('SET history = list_append(if_not_exists(history, :empty), :items)', values).history).toEqual({ L: [{ S: 'oak' }] });
+	});
+
+	test('evaluates every value against the item before the update', () => {
+		expect(update('SET #version = :ten, previous = #version')).toMatchObject({ version: { N: '10' }, previous: { N: '3' } });
+	});
+
+	test('updates and removes nested paths', () => {
+		const result = update('SET address.#city = :chair, address.lines[5] = :wood REMOVE tags[0], tags[1]');
+
+		expect(result.address.M).toEqual({ city: { S: 'Chair' }, lines: { L: [{ S: 'Main Street' }, { S: 'wood' }] } });
+		expect(result.tags).toEqual({ L: [] });
+	});
+
+	test('deletes from a set, and removes the set when it is empty', () => {
+		expect(update('DELETE colors :colors', { ':colors': { SS: ['red'] } }).colors).toEqual({ SS: ['blue'] });
+		expect(update('DELETE colors :colors', { ':colors': { SS: ['red', 'blue'] } }).colors).toBeUndefined();
+	});
+
+	test.each([
+		['SET PK = :chair', 'One or more parameter values were invalid: Cannot update attribute PK. This attribute is part of the key'],
+		['SET #name = missing', 'The provided expression refers to an attribute that does not exist in the item'],
+		['SET #name = #name + :one', 'An operand in the update expression has an incorrect data type'],
+		['ADD #name :chair', 'Invalid UpdateExpression: Incorrect operand type for operator or function; operator: ADD'],
+		['ADD #version :colors', 'An operand in the update expression has an incorrect data type'],
+		['DELETE colors :red', 'Invalid UpdateExpression: Incorrect operand type for operator or function; operator: DELETE'],
+		['SET #name.first = :chair', 'The document path provided in the update expression is invalid for update']
+	])('fails for %s', (expression, message) => {
+		expect(() => update(expression, { ':colors': { SS: ['red'] } })).toThrow(message);
+	});
+});
+
+describe('projection expressions', () => {
+	test('only keeps the given paths', () => {
+		const paths = new ExpressionParser('#name, address.#city, tags[1], missing', NAMES).parseProjection();
+
+		expect(project(ITEM, paths)).toEqual({ name: { S: 'Chair' }, address: { M: { city: { S: 'Ghent' } } }, tags: { L: [{ N: '1' }] } });
+	});
+});
+
+describe('ExpressionParser', () => {
+	test.each([
+		['#missing = :chair', 'Value provided in ExpressionAttributeNames unused in expressions or not defined: keys: {#missing}'],
+		['#name = :missing', 'An expression attribute value used in expression is not defined; attribute value: :missing'],
+		['#name = :chair extra', 'Invalid expression: Syntax error, unexpected "extra"; expression: #name = :chair extra'],
+		['#name :chair', 'Invalid expression: Syntax error, expected a comparison operator, got ":chair"'],
+		['#version BETWEEN :one', 'Invalid expression: Syntax error, expected AND in BETWEEN'],
+		['#name = ', 'Invalid expression: Syntax error, unexpected end of the expression'],
+		['#name == :chair', 'Invalid expression: Syntax error, expected an attribute name, got "="'],
+		['#name = :chair;', 'Invalid expression: Syntax error; token: ";", near: ";"']
+	])('fails for the condition "%s"', (expression, message) => {
+		expect(() => parseCondition(expression)).toThrow(message);
+	});
+
+	test('fails for an unknown update section', () => {
+		expect(() => new ExpressionParser('UPSERT #name = :chair', NAMES, VALUES).parseUpdate()).toThrow('Invalid expression: Syntax error, unexpected "UPSERT"');
+	});
+
+	test('throws a ValidationException', () => {
+		expect(() => parseCondition('#name = :missing')).toThrow(expect.objectContaining({ name: 'ValidationException', type: 'ValidationException' }));
+	});
+});
@@ -0,0 +1,17 @@
+import * as cdk from 'aws-cdk-lib';
+import { Template } from 'aws-cdk-lib/assertions';
+
+/**
+ * Create an app that skips the esbuild bundling of the functions, the tests only look at the templates.
+ *
+ * @returns
+ */
+export const createTestApp = () => new cdk.App({ context: { 'aws:cdk:bundling-stacks': [] } });
+
+/**
+ * The template without the asset hashes, which change with every change to the code of a function.
+ *
+ * @param template
+ * @returns
+ */
+export const toSnapshot = (template: Template) => JSON.parse(JSON.stringify(template.toJSON()).replace(/[0-9a-f]{64}(\.zip)?/g, '<asset-hash>$1'));
@@ -0,0 +1,116 @@
+import { Runtime } from 'aws-cdk-lib/aws-lambda';
+import { Template } from 'aws-cdk-lib/assertions';
+
+import { StageEnum } from '../../lib/enums/stage.enum';
+
+export interface ILambdaExpectations {
+	stage: StageEnum;
+	region: string;
+	// The functions get the TABLE_NAME and the TABLE_ACTIONS on the table.
+	withTable: boolean;
+	userPoolArn?: string;
+	userPoolId?: string;
+}
+
+// What every function may do, besides the access the props give it.
+const BASIC_EXECUTION_ROLE = 'service-role/AWSLambdaBasicExecutionRole';
+
+// The commands of the DynamoDbService, e.g. a grantReadWriteData would also allow Scan and BatchWriteItem.
+const TABLE_ACTIONS = ['dynamodb:DeleteItem', 'dynamodb:GetItem', 'dynamodb:PutItem', 'dynamodb:Query', 'dynamodb:UpdateItem'];
+
+// Sending to the queues of its sendsTo, and receiving from its own queue for a queue handler.
+const QUEUE_ACTIONS = ['sqs:SendMessage', 'sqs:GetQueueAttributes', 'sqs:GetQueueUrl', 'sqs:ReceiveMessage', 'sqs:ChangeMessageVisibility', 'sqs:DeleteMessage'];
+
+/**
+ * Check the conventions of every function in a synthesized template: the name, runtime, environment variables, log format, tags and least-privilege policies.
+ *
+ * @param template
+ * @param expected
+ * @returns - The number of functions that were checked.
+ */
+export const expectLambdasToFollowConventions = (template: Template, expected: ILambdaExpectations) => {
+	const functions = Object.entries(template.findResources('AWS::Lambda::Function'));
+	const policies = Object.values(template.findResources('AWS::IAM::Policy'));
+	const roles = template.findResources('AWS::IAM::Role');
+
+	expect(functions.length).toBeGreaterThan(0);
+
+	functions.forEach(([logicalId, { Properties: properties }]) => {
+		const context = `${logicalId} (${properties.FunctionName})`;
+
+		expect({ context, name: properties.FunctionName }).toEqual({ context, name: expect.stringMatching(new RegExp(`^${expected.stage}-ProjectName-[\\w-]+$`)) });
+		expect({ context, runtime: properties.Runtime }).toEqual({ context, runtime: Runtime.NODEJS_LATEST.name });
+		expect({ context, environment: properties.Environment.Variables }).toEqual({ context, environment: expectedEnvironment(expected) });
+		expect({ context, logFormat: properties.LoggingConfig?.LogFormat }).toEqual({ context, logFormat: 'JSON' });
+		expect({ context, tags: properties.Tags }).toEqual({ context, tags: expect.arrayContaining([{ Key: 'app', Value: 'ProjectName' }]) });
+
+		const roleId = properties.Role['Fn::GetAtt'][0];
+		expect({ context, managedPolicies: roles[roleId].Properties.ManagedPolicyArns.map(toManagedPolicyName) })
+			.toEqual({ context, managedPolicies: [BASIC_EXECUTION_ROLE] });
+
+		const statements = policies
+			.filter(policy => policy.Properties.Roles.some((role: any) => role.Ref === roleId))
+			.flatMap(policy => policy.Properties.PolicyDocument.Statement);
+
+		expectLeastPrivilege(context, statements, expected);
+	});
+
+	return functions.length;
+}
+
+const expectedEnvironment = ({ stage, region, withTable, userPoolId }: ILambdaExpectations) => {
+	const environment: Record<string, any> = { REGION: region, STAGE: stage };
+
+	if (withTable) environment.TABLE_NAME = expect.anything();
+	if (userPoolId) environment.USERPOOL_ID = userPoolId;
+
+	return environment;
+}
+
+/**
+ * Only allow the actions that the props ask for, on the resources they name, and never a wildcard.
+ *
+ * The dynamodb actions have to be exactly the TABLE_ACTIONS.
+ *
+ * @param context
+ * @param statements
+ * @param expected
+ */
+const expectLeastPrivilege = (context: string, statements: any[], expected: ILambdaExpectations) => {
+	const services = new Set<string>();
+	const tableActions = new Set<string>();
+
+	statements.forEach(statement => {
+		const actions: string[] = [statement.Action].flat();
+		const resources: any[] = [statement.Resource].flat();
+
+		expect({ context, effect: statement.Effect }).toEqual({ context, effect: 'Allow' });
+		expect({ context, wildcards: actions.filter(action => action.includes('*')) }).toEqual({ context, wildcards: [] });
+		expect({ context, wildcards: resources.filter(resource => resource === '*') }).toEqual({ context, wildcards: [] });
+
+		actions.forEach(action => services.add(action.split(':')[0]));
+		actions.filter(action => action.startsWith('dynamodb:')).forEach(action => tableActions.add(action));
+
+		if (actions.some(action => action.startsWith('cognito-idp:')))
+			expect({ context, resources }).toEqual({ context, resources: [expected.userPoolArn] });
+
+		// The queues depend on the function, so they aren't part of the expectations.
+		if (actions.some(action => action.startsWith('sqs:')))
+			expect({ context, actions: actions.filter(action => !QUEUE_ACTIONS.includes(action)) }).toEqual({ context, actions: [] });
+	});
+
+	const expectedServices = [expected.withTable && 'dynamodb', expected.userPoolArn && 'cognito-idp'].filter(Boolean);
+	expect({ context, services: [...services].filter(service => service !== 'sqs').sort() }).toEqual({ context, services: expectedServices.sort() });
+	expect({ context, tableActions: [...tableActions].sort() }).toEqual({ context, tableActions: expected.withTable ? TABLE_ACTIONS : [] });
+}
+
+/**
+ * E.g. { "Fn::Join": ["", ["arn:", { "Ref": "AWS::Partition" }, ":iam::aws:policy/service-role/AWSLambdaBasicExecutionRole"]] }
+ *
+ * @param arn
+ * @returns
+ */
+const toManagedPolicyName = (arn: any) => {
+	const parts: any[] = arn['Fn::Join']?.[1] || [arn];
+	return parts.filter(part => typeof part === 'string').join('').replace(/^.*:policy\//, '');
+}
@@ -0,0 +1,203 @@
+import { CreateTableCommand, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { BatchWriteCommand, DeleteCommand, DynamoDBDocumentClient, GetCommand, PutCommand, QueryCommand, QueryCommandInput, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+
+import { InMemoryDynamoDb } from '../testing/in-memory-dynamodb/in-memory-dynamodb.store';
+import { useInMemoryDynamoDb } from '../testing/in-memory-dynamodb/in-memory-request.handler';
+import { createDynamoDbClient } from '../lib/stacks/lambda/services/dynamodb-client.factory';
+
+const TableName = 'in-memory-test';
+
+let database: InMemoryDynamoDb;
+let client: DynamoDBClient;
+let documentClient: DynamoDBDocumentClient;
+
+/**
+ * The error that a command throws, so that its name, message and properties can be checked.
+ *
+ * @param promise
+ * @returns
+ */
+const errorOf = async (promise: Promise<unknown>): Promise<any> => {
+	try {
+		await promise;
+	} catch (error) {
+		return error;
+	}
+
+	throw new Error('The command did not fail.');
+}
+
+const put = (Item: Record<string, any>) => documentClient.send(new PutCommand({ TableName, Item }));
+
+const query = async (input: Omit<QueryCommandInput, 'TableName'>) => await documentClient.send(new QueryCommand({ TableName, ...input }));
+
+beforeAll(() => {
+	database = useInMemoryDynamoDb();
+	client = createDynamoDbClient(true);
+	documentClient = DynamoDBDocumentClient.from(client);
+});
+
+beforeEach(async () => {
+	database.clear();
+
+	await client.send(new CreateTableCommand({
+		TableName,
+		KeySchema: [{ AttributeName: 'PK', KeyType: 'HASH' }, { AttributeName: 'SK', KeyType: 'RANGE' }],
+		AttributeDefinitions: [
+			{ AttributeName: 'PK', AttributeType: 'S' },
+			{ AttributeName: 'SK', AttributeType: 'S' },
+			{ AttributeName: 'rank', AttributeType: 'N' }
+		],
+		GlobalSecondaryIndexes: [
+			{ IndexName: 'SK-PK-index', KeySchema: [{ AttributeName: 'SK', KeyType: 'HASH' }, { AttributeName: 'PK', KeyType: 'RANGE' }], Projection: { ProjectionType: 'ALL' } },
+			{ IndexName: 'SK-rank-index', KeySchema: [{ AttributeName: 'SK', KeyType: 'HASH' }, { AttributeName: 'rank', KeyType: 'RANGE' }], Projection: { ProjectionType: 'KEYS_ONLY' } }
+		],
+		BillingMode: 'PAY_PER_REQUEST'
+	}));
+});
+
+describe('conditions', () => {
+	test('fails the condition the same way as DynamoDB', async () => {
+		await put({ PK: 'ITEM#1', SK: 'ITEM', version: 1 });
+
+		const error = await errorOf(documentClient.send(new PutCommand({ TableName, Item: { PK: 'ITEM#1', SK: 'ITEM' }, ConditionExpression: 'attribute_not_exists(PK)' })));
+
+		expect(error.name).toBe('ConditionalCheckFailedException');
+		expect(error.message).toBe('The conditional request failed');
+		expect(error.Item).toBeUndefined();
+	});
+
+	test('returns the old item with ReturnValuesOnConditionCheckFailure', async () => {
+		await put({ PK: 'ITEM#1', SK: 'ITEM', version: 2 });
+		const update = (PK: string) => documentClient.send(new UpdateCommand({
+			TableName,
+			Key: { PK, SK: 'ITEM' },
+			UpdateExpression: 'SET #version = #version + :one',
+			ConditionExpression: 'attribute_exists(PK) and #version = :expected',
+			ExpressionAttributeNames: { '#version': 'version' },
+			ExpressionAttributeValues: { ':one': 1, ':expected': 1 },
+			ReturnValuesOnConditionCheckFailure: 'ALL_OLD'
+		}));
+
+		// The DynamoDbService tells a conflict (the old item) from a missing item (no old item) this way.
+		expect((await errorOf(update('ITEM#1'))).Item).toEqual({ PK: { S: 'ITEM#1' }, SK: { S: 'ITEM' }, version: { N: '2' } });
+		expect((await errorOf(update('ITEM#2'))).Item).toBeUndefined();
+	});
+
+	test('only deletes an existing item with attribute_exists', async () => {
+		const error = await errorOf(documentClient.send(new DeleteCommand({ TableName, Key: { PK: 'ITEM#1', SK: 'ITEM' }, ConditionExpression: 'attribute_exists(PK)' })));
+
+		expect(error.name).toBe('ConditionalCheckFailedException');
+	});
+});
+
+describe('UpdateItem', () => {
+	test('creates the item and returns the attributes that changed', async () => {
+		const result = await documentClient.send(new UpdateCommand({
+			TableName,
+			Key: { PK: 'ITEM#1', SK: 'ITEM' },
+			UpdateExpression: 'SET #name = :name ADD #version :one',
+			ExpressionAttributeNames: { '#name': 'name', '#version': 'version' },
+			ExpressionAttributeValues: { ':name': 'Chair', ':one': 1 },
+			ReturnValues: 'UPDATED_NEW'
+		}));
+
+		expect(result.Attributes).toEqual({ name: 'Chair', version: 1 });
+		expect((await documentClient.send(new GetCommand({ TableName, Key: { PK: 'ITEM#1', SK: 'ITEM' } }))).Item).toEqual({ PK: 'ITEM#1', SK: 'ITEM', name: 'Chair', version: 1 });
+	});
+});
+
+describe('Query', () => {
+	beforeEach(async () => {
+		await documentClient.send(new BatchWriteCommand({
+			RequestItems: {
+				[TableName]: [
+					{ PK: 'ITEM#2', SK: 'ITEM', rank: 1, name: 'Lamp' },
+					{ PK: 'ITEM#1', SK: 'ITEM', rank: 3, name: 'Chair' },
+					{ PK: 'ITEM#3', SK: 'ITEM', rank: 2, name: 'Table' },
+					// Not in the SK-rank-index, because it doesn't have a rank.
+					{ PK: 'ITEM#4', SK: 'ITEM', name: 'Shelf' },
+					{ PK: 'ITEM#1', SK: 'TAG#wood' },
+					{ PK: 'ITEM#1', SK: 'TAG#oak' }
+				].map(Item => ({ PutRequest: { Item } }))
+			}
+		}));
+	});
+
+	test('sorts by the sort key, in reverse with ScanIndexForward', async () => {
+		const input = { KeyConditionExpression: 'PK = :pk AND begins_with(SK, :tag)', ExpressionAttributeValues: { ':pk': 'ITEM#1', ':tag': 'TAG#' } };
+
+		expect((await query(input)).Items!.map(item => item.SK)).toEqual(['TAG#oak', 'TAG#wood']);
+		expect((await query({ ...input, ScanIndexForward: false })).Items!.map(item => item.SK)).toEqual(['TAG#wood', 'TAG#oak']);
+	});
+
+	test('sorts an index by its own keys and only projects them', async () => {
+		const byPk = await query({ IndexName: 'SK-PK-index', KeyConditionExpression: 'SK = :sk', ExpressionAttributeValues: { ':sk': 'ITEM' } });
+		const byRank = await query({ IndexName: 'SK-rank-index', KeyConditionExpression: 'SK = :sk', ExpressionAttributeValues: { ':sk': 'ITEM' }, ScanIndexForward: false });
+
+		expect(byPk.Items!.map(item => item.name)).toEqual(['Chair', 'Lamp', 'Table', 'Shelf']);
+		expect(byRank.Items).toEqual([
+			{ PK: 'ITEM#1', SK: 'ITEM', rank: 3 },
+			{ PK: 'ITEM#3', SK: 'ITEM', rank: 2 },
+			{ PK: 'ITEM#2', SK: 'ITEM', rank: 1 }
+		]);
+	});
+
+	test('pages with ExclusiveStartKey and LastEvaluatedKey', async () => {
+		const input = { IndexName: 'SK-rank-index', KeyConditionExpression: 'SK = :sk', ExpressionAttributeValues: { ':sk': 'ITEM' }, Limit: 2 };
+
+		const first = await query(input);
+		expect(first.Items!.map(item => item.rank)).toEqual([1, 2]);
+		// The keys of the index and of the table.
+		expect(first.LastEvaluatedKey).toEqual({ SK: 'ITEM', rank: 2, PK: 'ITEM#3' });
+
+		// A full last page still returns a LastEvaluatedKey, the same as DynamoDB.
+		const second = await query({ ...input, ExclusiveStartKey: first.LastEvaluatedKey });
+		expect(second.Items!.map(item => item.rank)).toEqual([3]);
+		expect(second.LastEvaluatedKey).toBeUndefined();
+
+		const reversed = await query({ ...input, Limit: 1, ScanIndexForward: false, ExclusiveStartKey: { SK: 'ITEM', rank: 3, PK: 'ITEM#1' } });
+		expect(reversed.Items!.map(item => item.rank)).toEqual([2]);
+		expect(reversed.LastEvaluatedKey).toEqual({ SK: 'ITEM', rank: 2, PK: 'ITEM#3' });
+	});
+
+	test('counts the items that the filter removes towards the limit', async () => {
+		const result = await query({
+			IndexName: 'SK-PK-index',
+			KeyConditionExpression: 'SK = :sk',
+			FilterExpression: '#name <> :name',
+			ExpressionAttributeNames: { '#name': 'name' },
+			ExpressionAttributeValues: { ':sk': 'ITEM', ':name': 'Chair' },
+			Limit: 2
+		});
+
+		expect(result).toMatchObject({ Count: 1, ScannedCount: 2, LastEvaluatedKey: { SK: 'ITEM', PK: 'ITEM#2' } });
+		expect(result.Items!.map(item => item.name)).toEqual(['Lamp']);
+	});
+});
+
+describe('errors', () => {
+	test.each([
+		['a query without a key condition', () => query({}), 'ValidationException', 'Either the KeyConditions or KeyConditionExpression parameter must be specified in the request.'],
+		['an unknown index', () => query({ IndexName: 'missing-index', KeyConditionExpression: 'SK = :sk', ExpressionAttributeValues: { ':sk': 'ITEM' } }), 'ValidationException', 'The table does not have the specified index: missing-index'],
+		['an undefined value', () => query({ KeyConditionExpression: 'PK = :pk' }), 'ValidationException', 'An expression attribute value used in expression is not defined; attribute value: :pk'],
+		['a key without the sort key', () => documentClient.send(new GetCommand({ TableName, Key: { PK: 'ITEM#1' } })), 'ValidationException', 'The provided key element does not match the schema'],
+		['an empty key', () => put({ PK: '', SK: 'ITEM' }), 'ValidationException', 'One or more parameter values are not valid. The AttributeValue for a key attribute cannot contain an empty value.'],
+		['an unknown table', () => documentClient.send(new GetCommand({ TableName: 'missing', Key: { PK: 'ITEM#1', SK: 'ITEM' } })), 'ResourceNotFoundException', 'Cannot do operations on a non-existent table'],
+		['updating a key', () => documentClient.send(new UpdateCommand({ TableName, Key: { PK: 'ITEM#1', SK: 'ITEM' }, UpdateExpression: 'SET SK = :sk', ExpressionAttributeValues: { ':sk': 'TAG' } })), 'ValidationException', 'One or more parameter values were invalid: Cannot update attribute SK. This attribute is part of the key'],
+		['too many writes', () => documentClient.send(new BatchWriteCommand({ RequestItems: { [TableName]: Array.from({ length: 26 }, (_, i) => ({ PutRequest: { Item: { PK: `ITEM#${i}`, SK: 'ITEM' } } })) } })), 'ValidationException', 'Too many items requested for the BatchWriteItem call'],
+		['duplicate writes', () => documentClient.send(new BatchWriteCommand({ RequestItems: { [TableName]: [1, 2].map(() => ({ PutRequest: { Item: { PK: 'ITEM#1', SK: 'ITEM' } } })) } })), 'ValidationException', 'Provided list of item keys contains duplicates']
+	])('fails for %s', async (_, send, name, message) => {
+		const error = await errorOf(send());
+
+		expect({ name: error.name, message: error.message }).toEqual({ name, message });
+	});
+
+	test('writes nothing of an invalid batch', async () => {
+		await errorOf(documentClient.send(new BatchWriteCommand({
+			RequestItems: { [TableName]: [{ PutRequest: { Item: { PK: 'ITEM#1', SK: 'ITEM' } } }, { PutRequest: { Item: { PK: 'ITEM#2' } } }] }
+		})));
+
+		expect((await documentClient.send(new GetCommand({ TableName, Key: { PK: 'ITEM#1', SK: 'ITEM' } }))).Item).toBeUndefined();
+	});
+});
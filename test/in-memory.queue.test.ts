@@ -0,0 +1,44 @@
+import { InMemoryQueue } from '../testing/in-memory-sqs/in-memory.queue';
+import { ReceiptHandleIsInvalid } from '../testing/in-memory-sqs/sqs.error';
+
+const createQueue = () => new InMemoryQueue('test-queue', 'http://localhost:9324/000000000000/test-queue', 'local', { visibilityTimeout: 30 });
+
+describe('InMemoryQueue', () => {
+	test('deletes a message with the handle of its last receive', () => {
+		const queue = createQueue();
+		queue.send('first');
+
+		const [message] = queue.receive();
+		queue.delete(message.receiptHandle!);
+
+		expect(queue.all).toEqual([]);
+	});
+
+	test('rejects the handle of an earlier receive', () => {
+		const queue = createQueue();
+		queue.send('first');
+
+		const [first] = queue.receive();
+		queue.changeVisibility(first.receiptHandle!, 0);
+		const [second] = queue.receive();
+
+		expect(second.receiptHandle).not.toBe(first.receiptHandle);
+		expect(() => queue.changeVisibility(first.receiptHandle!, 0)).toThrow(ReceiptHandleIsInvalid);
+
+		queue.delete(first.receiptHandle!);
+		expect(queue.all).toHaveLength(1);
+
+		queue.delete(second.receiptHandle!);
+		expect(queue.all).toEqual([]);
+	});
+
+	test('rejects a handle with the message id of a received message', () => {
+		const queue = createQueue();
+		queue.send('first');
+
+		const [message] = queue.receive();
+		const forged = Buffer.from(`${message.messageId}:other`).toString('base64url');
+
+		expect(() => queue.changeVisibility(forged, 0)).toThrow(`The input receipt handle "${forged}" is not a valid receipt handle.`);
+	});
+});
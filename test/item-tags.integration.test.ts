@@ -0,0 +1,96 @@
+import { IntegrationTestHarness } from '../testing/integration-test.harness';
+import { ItemTagsCreateController } from '../lib/stacks/lambda/code/item-tags/create.lambda-code';
+import { IListResult } from '../lib/stacks/lambda/interfaces/IList';
+import { ITag } from '../lib/stacks/lambda/interfaces/ITag';
+
+const CHAIR_ID = '00000000-0000-4000-8000-000000000001';
+const MISSING_ID = '00000000-0000-4000-8000-0000000000ff';
+
+let harness: IntegrationTestHarness;
+
+beforeAll(async () => harness = await IntegrationTestHarness.start({ seed: ['item'], streams: true }));
+beforeEach(() => harness.reset());
+afterAll(() => harness.stop());
+
+describe('POST /items/:id/tags', () => {
+	test('adds a tag to the item', async () => {
+		const result = await harness.invoke(ItemTagsCreateController, { pathParameters: { id: CHAIR_ID }, body: { name: 'wood' } });
+		expect(result.statusCode).toBe(201);
+
+		const tags = await harness.request<IListResult<ITag>>(`GET /items/${CHAIR_ID}/tags`);
+		expect(tags.body.items).toEqual([expect.objectContaining({ name: 'wood', itemId: CHAIR_ID })]);
+	});
+
+	test('returns a problem when the item does not exist', async () => {
+		const result = await harness.request(`POST /items/${MISSING_ID}/tags`, { name: 'wood' });
+
+		expect(result.statusCode).toBe(404);
+	});
+
+	test('validates the name of the tag', async () => {
+		const result = await harness.request(`POST /items/${CHAIR_ID}/tags`, { name: 'not a tag' });
+
+		expect(result.statusCode).toBe(400);
+	});
+});
+
+describe('GET /items/:id/tags', () => {
+	test('pages the tags of the item', async () => {
+		for (const name of ['blue', 'green', 'red'])
+			await harness.request(`POST /items/${CHAIR_ID}/tags`, { name });
+
+		const first = await harness.request<IListResult<ITag>>(`GET /items/${CHAIR_ID}/tags`, undefined, { query: { limit: 2 } });
+		expect(first.body.items.map(tag => tag.name)).toEqual(['blue', 'green']);
+
+		const second = await harness.request<IListResult<ITag>>(`GET /items/${CHAIR_ID}/tags`, undefined, { query: { limit: 2, cursor: first.body.nextCursor! } });
+		expect(second.body.items.map(tag => tag.name)).toEqual(['red']);
+	});
+
+	test('only lists the tags of the item itself', async () => {
+		await harness.request(`POST /items/${CHAIR_ID}/tags`, { name: 'wood' });
+
+		const result = await harness.request<IListResult<ITag>>('GET /items/00000000-0000-4000-8000-000000000002/tags');
+		expect(result.body.items).toEqual([]);
+	});
+});
+
+describe('DELETE /items/:id/tags/:tag', () => {
+	test('removes the tag from the item', async () => {
+		await harness.request(`POST /items/${CHAIR_ID}/tags`, { name: 'wood' });
+
+		const result = await harness.request(`DELETE /items/${CHAIR_ID}/tags/wood`);
+		expect(result.statusCode).toBe(204);
+
+		const tags = await harness.request<IListResult<ITag>>(`GET /items/${CHAIR_ID}/tags`);
+		expect(tags.body.items).toEqual([]);
+	});
+
+	test('returns a problem when the item does not have the tag', async () => {
+		const result = await harness.request(`DELETE /items/${CHAIR_ID}/tags/wood`);
+
+		expect(result.statusCode).toBe(404);
+	});
+});
+
+describe('ItemTagsCleanupStreamHandler', () => {
+	test('removes the tags of a deleted item', async () => {
+		for (const name of ['blue', 'wood'])
+			await harness.request(`POST /items/${CHAIR_ID}/tags`, { name });
+
+		await harness.request(`DELETE /items/${CHAIR_ID}`);
+		await harness.flushStreams();
+
+		const tags = await harness.request<IListResult<ITag>>(`GET /items/${CHAIR_ID}/tags`);
+		expect(tags.body.items).toEqual([]);
+	});
+
+	test('keeps the tags of the items that are changed', async () => {
+		await harness.request(`POST /items/${CHAIR_ID}/tags`, { name: 'wood' });
+
+		await harness.request(`PATCH /items/${CHAIR_ID}`, { description: 'A wooden chair.' }, { headers: { 'Content-Type': 'application/merge-patch+json' } });
+		await harness.flushStreams();
+
+		const tags = await harness.request<IListResult<ITag>>(`GET /items/${CHAIR_ID}/tags`);
+		expect(tags.body.items.map(tag => tag.name)).toEqual(['wood']);
+	});
+});
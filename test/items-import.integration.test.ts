@@ -0,0 +1,66 @@
+import { IntegrationTestHarness } from '../testing/integration-test.harness';
+import { ItemsCountScheduledHandler } from '../lib/stacks/lambda/code/items/count.lambda-code';
+import { IItem } from '../lib/stacks/lambda/interfaces/IItem';
+import { IListResult } from '../lib/stacks/lambda/interfaces/IList';
+import { QueueService } from '../lib/stacks/lambda/services/queue.service';
+
+let harness: IntegrationTestHarness;
+
+beforeAll(async () => harness = await IntegrationTestHarness.start({ seed: ['item'] }));
+beforeEach(() => harness.reset());
+afterAll(() => harness.stop());
+
+const findItems = async (name: string) => {
+	const result = await harness.request<IListResult<IItem>>('GET /items', undefined, { query: { name } });
+	return result.body.items;
+}
+
+describe('POST /items/import', () => {
+	test('creates the items once the queue is flushed', async () => {
+		const result = await harness.request('POST /items/import', {
+			items: [{ name: 'Shelf', description: 'A shelf.' }, { name: 'Shelf', description: 'Another shelf.' }]
+		});
+		expect(result.statusCode).toBe(202);
+		expect(result.body.messageIds).toHaveLength(2);
+
+		expect(await findItems('Shelf')).toEqual([]);
+
+		expect(await harness.flushQueues()).toBe(2);
+		expect((await findItems('Shelf')).map(item => item.description).sort()).toEqual(['A shelf.', 'Another shelf.']);
+	});
+
+	test('validates the items before they are queued', async () => {
+		const result = await harness.request('POST /items/import', { items: [{ name: 'Shelf' }] });
+
+		expect(result.statusCode).toBe(400);
+		expect(await harness.flushQueues()).toBe(0);
+	});
+});
+
+describe('ItemsImportQueueHandler', () => {
+	test('retries only the failed messages and then moves them to the dead-letter queue', async () => {
+		await new QueueService().sendBatch('item-imports', [{ name: 'Rug', description: 'A rug.' }, 'not json']);
+
+		// The valid message once, the invalid one until it reaches the max receive count.
+		expect(await harness.flushQueues({ skipVisibilityTimeout: true })).toBe(4);
+
+		expect(await findItems('Rug')).toHaveLength(1);
+		expect(harness.deadLetters('item-imports')).toEqual([expect.objectContaining({ body: 'not json', receiveCount: 3 })]);
+	});
+
+	test('keeps the failed messages hidden for the visibility timeout', async () => {
+		await new QueueService().send('item-imports', 'not json');
+
+		expect(await harness.flushQueues()).toBe(1);
+		expect(await harness.flushQueues()).toBe(0);
+		expect(harness.deadLetters('item-imports')).toEqual([]);
+	});
+});
+
+describe('ItemsCountScheduledHandler', () => {
+	test('counts the items', async () => {
+		const items = await harness.request<IListResult<IItem>>('GET /items', undefined, { query: { limit: 100 } });
+
+		expect(await harness.runSchedule(ItemsCountScheduledHandler)).toEqual({ count: items.body.items.length });
+	});
+});
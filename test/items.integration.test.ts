@@ -0,0 +1,215 @@
+import { IntegrationTestHarness } from '../testing/integration-test.harness';
+import { ItemsCreateController } from '../lib/stacks/lambda/code/items/create.lambda-code';
+import { ItemsGetController } from '../lib/stacks/lambda/code/items/get.lambda-code';
+import { mergePatchToChanges } from '../lib/stacks/lambda/helpers/merge-patch.helper';
+import { addToNumber, appendToList } from '../lib/stacks/lambda/helpers/patch-operation.helper';
+import { IItem } from '../lib/stacks/lambda/interfaces/IItem';
+import { IListResult } from '../lib/stacks/lambda/interfaces/IList';
+import { DynamoDbService } from '../lib/stacks/lambda/services/dynamodb.service';
+
+const CHAIR_ID = '00000000-0000-4000-8000-000000000001';
+const MISSING_ID = '00000000-0000-4000-8000-0000000000ff';
+
+let harness: IntegrationTestHarness;
+
+beforeAll(async () => harness = await IntegrationTestHarness.start({ seed: ['item'] }));
+beforeEach(() => harness.reset());
+afterAll(() => harness.stop());
+
+describe('GET /items', () => {
+	test('lists the items of the fixtures', async () => {
+		const result = await harness.request<IListResult<IItem>>('GET /items');
+
+		expect(result.statusCode).toBe(200);
+		expect(result.body.items.map(item => item.name).sort()).toEqual(['Chair', 'Lamp', 'Table']);
+	});
+
+	test('pages with the limit and the cursor', async () => {
+		const first = await harness.request<IListResult<IItem>>('GET /items', undefined, { query: { limit: 2 } });
+		expect(first.body.items).toHaveLength(2);
+		expect(first.body.nextCursor).toBeDefined();
+
+		const second = await harness.request<IListResult<IItem>>('GET /items', undefined, { query: { limit: 2, cursor: first.body.nextCursor! } });
+		expect(second.body.items).toHaveLength(1);
+		expect(second.body.nextCursor).toBeUndefined();
+	});
+
+	test('filters on an attribute', async () => {
+		const result = await harness.request<IListResult<IItem>>('GET /items', undefined, { query: { name: 'Lamp' } });
+
+		expect(result.body.items.map(item => item.name)).toEqual(['Lamp']);
+	});
+
+	test('rejects an invalid cursor', async () => {
+		const result = await harness.request('GET /items', undefined, { query: { cursor: 'not-a-cursor' } });
+
+		expect(result.statusCode).toBe(400);
+	});
+});
+
+describe('GET /items/:id', () => {
+	test('returns the item with its version as the ETag', async () => {
+		const result = await harness.request<IItem>(`GET /items/${CHAIR_ID}`);
+
+		expect(result.statusCode).toBe(200);
+		expect(result.body.name).toBe('Chair');
+		expect(result.headers.etag).toBe('"1"');
+	});
+
+	test('returns a problem when the item does not exist', async () => {
+		const result = await harness.invoke(ItemsGetController, { pathParameters: { id: MISSING_ID } });
+
+		expect(result.statusCode).toBe(404);
+		expect(result.headers['Content-Type']).toBe('application/problem+json');
+		expect(result.body.status).toBe(404);
+	});
+
+	test('validates the id', async () => {
+		const result = await harness.request('GET /items/not-an-id');
+
+		expect(result.statusCode).toBe(400);
+	});
+});
+
+describe('POST /items', () => {
+	test('creates an item', async () => {
+		const created = await harness.invoke<{ id: string }>(ItemsCreateController, { body: { name: 'Desk', description: 'A desk.' } });
+		expect(created.statusCode).toBe(201);
+
+		const result = await harness.request<IItem>(`GET /items/${created.body.id}`);
+		expect(result.body).toMatchObject({ id: created.body.id, name: 'Desk', description: 'A desk.', version: 1 });
+	});
+
+	test('validates the body', async () => {
+		const result = await harness.request('POST /items', { name: '' });
+
+		expect(result.statusCode).toBe(400);
+		expect(result.headers['content-type']).toContain('application/problem+json');
+	});
+});
+
+describe('PUT /items/:id', () => {
+	test('replaces the item and returns the new version', async () => {
+		const result = await harness.request(`PUT /items/${CHAIR_ID}`, { name: 'Armchair', description: 'A comfortable chair.' }, { headers: { 'If-Match': '"1"' } });
+		expect(result.statusCode).toBe(204);
+		expect(result.headers.etag).toBe('"2"');
+
+		const item = await harness.request<IItem>(`GET /items/${CHAIR_ID}`);
+		expect(item.body).toMatchObject({ name: 'Armchair', version: 2 });
+	});
+
+	test('rejects an outdated version', async () => {
+		const result = await harness.request(`PUT /items/${CHAIR_ID}`, { name: 'Armchair', description: 'A chair.' }, { headers: { 'If-Match': '"5"' } });
+
+		expect(result.statusCode).toBe(409);
+	});
+
+	test('returns a problem when the item does not exist', async () => {
+		const result = await harness.request(`PUT /items/${MISSING_ID}`, { name: 'Armchair', description: 'A chair.' });
+
+		expect(result.statusCode).toBe(404);
+	});
+});
+
+describe('PATCH /items/:id', () => {
+	test('only changes the given properties', async () => {
+		const result = await harness.request<IItem>(`PATCH /items/${CHAIR_ID}`, { description: 'A wooden chair.' }, { headers: { 'Content-Type': 'application/merge-patch+json' } });
+
+		expect(result.statusCode).toBe(200);
+		expect(result.body).toMatchObject({ name: 'Chair', description: 'A wooden chair.', version: 2 });
+		expect(result.headers.etag).toBe('"2"');
+	});
+
+	describe('attributes', () => {
+		const MERGE_PATCH = { 'Content-Type': 'application/merge-patch+json' };
+		let id: string;
+
+		beforeEach(async () => {
+			const attributes = { color: 'red', size: { width: 40, height: 80 }, tags: ['wood'] };
+			id = (await harness.request('POST /items', { name: 'Shelf', description: 'A shelf.', attributes })).body.id;
+		});
+
+		test('merges the nested objects and removes the null values', async () => {
+			const result = await harness.request<IItem>(`PATCH /items/${id}`, { attributes: { color: null, size: { width: 50 }, tags: ['oak'] } }, { headers: MERGE_PATCH });
+
+			expect(result.statusCode).toBe(200);
+			expect(result.body.attributes).toEqual({ size: { width: 50, height: 80 }, tags: ['oak'] });
+			expect((await harness.request<IItem>(`GET /items/${id}`)).body.attributes).toEqual({ size: { width: 50, height: 80 }, tags: ['oak'] });
+		});
+
+		test('removes the attributes with null', async () => {
+			const result = await harness.request<IItem>(`PATCH /items/${id}`, { attributes: null }, { headers: MERGE_PATCH });
+
+			expect(result.statusCode).toBe(200);
+			expect(result.body).toMatchObject({ name: 'Shelf', version: 2 });
+			expect(result.body.attributes).toBeUndefined();
+		});
+
+		test('checks the version of the merged item', async () => {
+			const result = await harness.request(`PATCH /items/${id}`, { attributes: { size: { width: 50 } } }, { headers: { ...MERGE_PATCH, 'If-Match': '"3"' } });
+
+			expect(result.statusCode).toBe(409);
+		});
+
+		test('rejects null for the required properties', async () => {
+			const result = await harness.request(`PATCH /items/${id}`, { description: null }, { headers: MERGE_PATCH });
+
+			expect(result.statusCode).toBe(400);
+		});
+
+		test.each([
+			['an $add operator', { $add: 5 }],
+			['an $append operator next to a removal', { color: null, $append: [1] }]
+		])('rejects %s as the attributes and keeps the item', async (_, attributes) => {
+			const result = await harness.request(`PATCH /items/${id}`, { attributes }, { headers: MERGE_PATCH });
+
+			expect(result.statusCode).toBe(400);
+			expect((await harness.request<IItem>(`GET /items/${id}`)).body).toMatchObject({
+				version: 1,
+				attributes: { color: 'red', size: { width: 40, height: 80 }, tags: ['wood'] }
+			});
+		});
+	});
+});
+
+describe('DynamoDbService.patch', () => {
+	test('appends to a list and adds to a number, creating them when they don\'t exist', async () => {
+		const dynamoDbService = new DynamoDbService();
+
+		await dynamoDbService.patch(CHAIR_ID, 'ITEM', 'ITEM', { history: appendToList(['created']), views: addToNumber(2) });
+		const item = await dynamoDbService.patch<any>(CHAIR_ID, 'ITEM', 'ITEM', { history: appendToList(['patched']), views: addToNumber(3) });
+
+		expect(item).toMatchObject({ history: ['created', 'patched'], views: 5, version: 3 });
+	});
+
+	test('stores the data of a merge patch as it is, even when it looks like an operation', async () => {
+		const changes = mergePatchToChanges({ attributes: { $add: 5 }, history: { x: null, $append: [1] } });
+
+		const item = await new DynamoDbService().patch<any>(CHAIR_ID, 'ITEM', 'ITEM', changes);
+
+		expect(item).toMatchObject({ attributes: { $add: 5 }, history: { $append: [1] }, version: 2 });
+	});
+
+	test('never changes the protected attributes', async () => {
+		const item = await new DynamoDbService().patch<IItem>(CHAIR_ID, 'ITEM', 'ITEM', { id: 'other', createdOn: 'never', PK: 'ITEM#other', name: 'Stool' });
+
+		expect(item).toMatchObject({ id: CHAIR_ID, name: 'Stool' });
+		expect(item.createdOn).not.toBe('never');
+	});
+});
+
+describe('DELETE /items/:id', () => {
+	test('deletes the item', async () => {
+		const result = await harness.request(`DELETE /items/${CHAIR_ID}`);
+		expect(result.statusCode).toBe(204);
+
+		const item = await harness.request(`GET /items/${CHAIR_ID}`);
+		expect(item.statusCode).toBe(404);
+	});
+
+	test('returns a problem when the item does not exist', async () => {
+		const result = await harness.request(`DELETE /items/${MISSING_ID}`);
+
+		expect(result.statusCode).toBe(404);
+	});
+});
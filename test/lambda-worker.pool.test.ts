@@ -0,0 +1,128 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { InMemoryDynamoDb } from '../testing/in-memory-dynamodb/in-memory-dynamodb.store';
+import { ILambdaFunction, LambdaWorkerPool } from '../testing/lambda-runtime/lambda-worker.pool';
+import { LambdaRuntimeError, LambdaTimeoutError } from '../testing/lambda-runtime/lambda-runtime.error';
+
+// Handlers of the functions, the module-level counter shows whether the container was reused.
+const CODE = `
+const { parentPort } = require('worker_threads');
+
+let invocations = 0;
+
+// Sends a request to the in-memory service of the main thread, the way the clients of the function do, and returns its response.
+const requestLocalService = (service, request) => new Promise(resolve => {
+	parentPort.on('message', message => message.type === 'aws' && message.id === -1 && resolve(message.response));
+	parentPort.postMessage({ type: 'aws', service, id: -1, request });
+});
+
+exports.handler = async (event, context) => {
+	invocations++;
+
+	if (event.wait) await new Promise(resolve => setTimeout(resolve, event.wait));
+	if (event.allocate) globalThis.leak = Array.from({ length: event.allocate }, (_, i) => ({ i, text: 'x'.repeat(100) + i }));
+	if (event.fail) throw new TypeError(event.fail);
+	if (event.service) return await requestLocalService(event.service, event.request);
+
+	return {
+		invocations,
+		functionName: context.functionName,
+		memoryLimitInMB: context.memoryLimitInMB,
+		remainingTime: context.getRemainingTimeInMillis()
+	};
+}
+`;
+
+let folder: string;
+let pool: LambdaWorkerPool;
+
+const createFunction = (name: string, settings: Partial<ILambdaFunction> = {}): ILambdaFunction => ({
+	functionName: `test-${name}`,
+	codeFile: path.join(folder, 'function.js'),
+	timeout: 5,
+	memorySize: 128,
+	...settings
+});
+
+beforeAll(() => {
+	folder = fs.mkdtempSync(path.join(os.tmpdir(), 'lambda-worker-pool-'));
+	fs.writeFileSync(path.join(folder, 'function.js'), CODE);
+	jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+beforeEach(() => pool = new LambdaWorkerPool());
+afterEach(() => pool.stop());
+afterAll(() => {
+	fs.rmSync(folder, { recursive: true, force: true });
+	jest.restoreAllMocks();
+});
+
+describe('LambdaWorkerPool', () => {
+	test('reuses the container of a function for the next invocation', async () => {
+		const fn = createFunction('warm');
+
+		const first = await pool.invoke(fn, {});
+		const second = await pool.invoke(fn, {});
+
+		expect(first).toMatchObject({ invocations: 1, functionName: 'test-warm', memoryLimitInMB: '128' });
+		expect(first.remainingTime).toBeGreaterThan(0);
+		expect(first.remainingTime).toBeLessThanOrEqual(5000);
+		expect(second.invocations).toBe(2);
+	});
+
+	test('starts a container per concurrent invocation', async () => {
+		const fn = createFunction('concurrent');
+
+		const results = await Promise.all([pool.invoke(fn, { wait: 50 }), pool.invoke(fn, { wait: 50 })]);
+
+		expect(results.map(result => result.invocations)).toEqual([1, 1]);
+	});
+
+	test('stops the container when the timeout is exceeded', async () => {
+		const fn = createFunction('timeout', { timeout: 1 });
+
+		await expect(pool.invoke(fn, { wait: 5000 })).rejects.toThrow(LambdaTimeoutError);
+		await expect(pool.invoke(fn, { wait: 5000 })).rejects.toThrow('Task timed out after 1.00 seconds');
+
+		// The next invocation is a cold start.
+		expect((await pool.invoke(fn, {})).invocations).toBe(1);
+	});
+
+	test('stops the container when the memory size is exceeded', async () => {
+		const fn = createFunction('memory', { memorySize: 64 });
+
+		await expect(pool.invoke(fn, { allocate: 5_000_000 })).rejects.toThrow(/ERR_WORKER_OUT_OF_MEMORY/);
+	});
+
+	test('keeps the container when the handler throws', async () => {
+		const fn = createFunction('error');
+
+		const error = await pool.invoke(fn, { fail: 'Oops' }).catch(e => e);
+
+		expect(error).toBeInstanceOf(LambdaRuntimeError);
+		expect(error).toMatchObject({ message: 'TypeError: Oops', errorType: 'TypeError' });
+		expect((await pool.invoke(fn, {})).invocations).toBe(2);
+	});
+
+	test('answers a request that the in-memory service fails to handle with an error', async () => {
+		const errors = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+		pool = new LambdaWorkerPool({ database: new InMemoryDynamoDb() });
+
+		// Without headers, the request can't even be read.
+		const response = await pool.invoke(createFunction('service'), { service: 'dynamodb', request: { body: '{}' } });
+
+		expect(response).toMatchObject({ statusCode: 500, headers: { 'content-type': 'application/x-amz-json-1.0' } });
+		expect(JSON.parse(response.body)).toEqual({ __type: 'InternalFailure', message: expect.any(String) });
+		expect(errors).toHaveBeenCalledWith('The in-memory dynamodb failed to handle a request:', expect.any(TypeError));
+	});
+
+	test('starts new containers after a drain', async () => {
+		const fn = createFunction('drain');
+
+		await pool.invoke(fn, {});
+		pool.drain();
+
+		expect((await pool.invoke(fn, {})).invocations).toBe(1);
+	});
+});
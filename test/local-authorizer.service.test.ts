@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+import { IntegrationTestHarness } from '../testing/integration-test.harness';
+import { Controller, Delete, getControllerRoutes, IRouteDefinition, UserTypes } from '../testing/decorators';
+import { LocalAuthorizerService } from '../testing/local-authorizer.service';
+import { TESTING_FOLDER } from '../testing/paths';
+import { invokeController } from '../lib/stacks/lambda/helpers/lambda-handler.helper';
+import { buildResponseBody } from '../lib/stacks/lambda/helpers/lambda-response.helper';
+
+const USERPOOL_ID = 'eu-west-1_AbCdEf123';
+const ENV = { ...process.env };
+
+const route: IRouteDefinition = { methodName: 'handler', httpMethod: 'get', fullPath: '/items', isPublic: false, userTypes: [] };
+
+/**
+ * Sign a token with the local key, with exactly the given payload.
+ *
+ * @param payload
+ * @returns
+ */
+const signPayload = (payload: object) => {
+	const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+	const privateKey = crypto.createPrivateKey(fs.readFileSync(path.join(TESTING_FOLDER, '.local-jwt-key.pem'), 'utf-8'));
+	const unsigned = `${encode({ alg: 'RS256', typ: 'JWT', kid: 'local' })}.${encode(payload)}`;
+
+	return `${unsigned}.${crypto.sign('RSA-SHA256', Buffer.from(unsigned), privateKey).toString('base64url')}`;
+}
+
+@Controller('admin')
+class AdminTestController {
+	@Delete('')
+	@UserTypes('admin')
+	async handler() {
+		return buildResponseBody(204);
+	}
+}
+
+beforeEach(() => {
+	process.env = { ...ENV, USERPOOL_ID };
+	delete process.env.DEV_USER_EMAIL;
+	delete process.env.DEV_USER_TYPE;
+});
+
+afterAll(() => process.env = ENV);
+
+describe('LocalAuthorizerService', () => {
+	const authorizer = new LocalAuthorizerService();
+	const unauthorized = { error: { statusCode: 401, message: 'Unauthorized' } };
+
+	test('accepts a signed token with or without the Bearer prefix', () => {
+		const token = authorizer.signToken({ email: 'john@doe.com', 'custom:userType': 'member' });
+
+		expect(authorizer.authorize(route, `Bearer ${token}`).claims).toMatchObject({ email: 'john@doe.com', 'custom:userType': 'member', token_use: 'id' });
+		expect(authorizer.authorize(route, token).claims?.email).toBe('john@doe.com');
+	});
+
+	test('rejects a request without a token', () => {
+		expect(authorizer.authorize(route, undefined)).toEqual(unauthorized);
+	});
+
+	test('uses the dev identity for a request without a token', () => {
+		process.env.DEV_USER_EMAIL = 'dev@doe.com';
+		process.env.DEV_USER_TYPE = 'admin';
+
+		expect(authorizer.authorize(route, undefined).claims).toEqual({ sub: 'local-dev-user', email: 'dev@doe.com', 'custom:userType': 'admin' });
+	});
+
+	test('lets public routes through without a token', () => {
+		expect(authorizer.authorize({ ...route, isPublic: true }, undefined)).toEqual({});
+	});
+
+	test('rejects a token with a bad signature', () => {
+		const [header, , signature] = authorizer.signToken({ email: 'john@doe.com' }).split('.');
+		const payload = Buffer.from(JSON.stringify({ email: 'john@doe.com', 'custom:userType': 'admin' })).toString('base64url');
+
+		expect(authorizer.authorize(route, `${header}.${payload}.${signature}`)).toEqual(unauthorized);
+		expect(authorizer.authorize(route, 'not-a-token')).toEqual(unauthorized);
+	});
+
+	test('rejects a token of another user pool', () => {
+		const token = authorizer.signToken({ email: 'john@doe.com' });
+		process.env.USERPOOL_ID = 'eu-west-1_Other';
+
+		expect(authorizer.authorize(route, token)).toEqual(unauthorized);
+	});
+
+	test('rejects an expired token', () => {
+		const token = authorizer.signToken({ email: 'john@doe.com' }, -10);
+
+		expect(authorizer.authorize(route, token)).toEqual({ error: { statusCode: 401, message: 'The incoming token has expired' } });
+	});
+
+	test.each([
+		['without', undefined],
+		['with an invalid', 'tomorrow']
+	])('rejects a token %s expiry', (_, exp) => {
+		const token = signPayload({ sub: '1', email: 'john@doe.com', iss: `https://cognito-idp.local/${USERPOOL_ID}`, token_use: 'id', exp });
+
+		expect(authorizer.authorize(route, token)).toEqual(unauthorized);
+	});
+
+	test('leaves the user types to the auth middleware', async () => {
+		const [adminRoute] = getControllerRoutes(AdminTestController);
+		const invoke = (userType: string) => {
+			const { claims } = authorizer.authorize(adminRoute, authorizer.signToken({ email: 'john@doe.com', 'custom:userType': userType }));
+			return invokeController(new AdminTestController(), adminRoute.methodName, { path: '/admin', headers: {}, requestContext: { authorizer: { claims } } });
+		};
+
+		expect((await invoke('member')).statusCode).toBe(403);
+		expect((await invoke('admin')).statusCode).toBe(204);
+	});
+});
+
+describe('local server', () => {
+	let harness: IntegrationTestHarness;
+
+	beforeAll(async () => {
+		process.env.USERPOOL_ID = USERPOOL_ID;
+		harness = await IntegrationTestHarness.start({ seed: ['item'] });
+	});
+	afterAll(() => harness.stop());
+
+	test('returns a 401 without a token', async () => {
+		const result = await harness.request('GET /items');
+
+		expect(result.statusCode).toBe(401);
+		expect(result.body).toEqual({ message: 'Unauthorized' });
+	});
+
+	test('accepts a token of POST /local/token', async () => {
+		const { body } = await harness.request('POST /local/token', { email: 'john@doe.com', 'custom:userType': 'member' });
+		const result = await harness.request('GET /items', undefined, { headers: { Authorization: `Bearer ${body.token}` } });
+
+		expect(result.statusCode).toBe(200);
+	});
+
+	test('returns a 401 for an expired token', async () => {
+		const token = new LocalAuthorizerService().signToken({ email: 'john@doe.com' }, -10);
+		const result = await harness.request('GET /items', undefined, { headers: { Authorization: token } });
+
+		expect(result.statusCode).toBe(401);
+		expect(result.body).toEqual({ message: 'The incoming token has expired' });
+	});
+});
@@ -0,0 +1,91 @@
+import { LoggerService } from '../lib/stacks/lambda/services/logger.service';
+
+const ENV = { ...process.env };
+
+let stdout: jest.SpyInstance;
+let consoleLog: jest.SpyInstance;
+
+/**
+ * The JSON lines that were written to stdout.
+ *
+ * @returns
+ */
+const entries = () => stdout.mock.calls.map(([line]) => JSON.parse(String(line)));
+
+beforeEach(() => {
+	process.env = { ...ENV, LOG_FORMAT: 'json', STAGE: 'qa' };
+	delete process.env.LOG_LEVEL;
+
+	stdout = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+	consoleLog = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+	process.env = ENV;
+	jest.restoreAllMocks();
+});
+
+describe('LoggerService', () => {
+	test('writes a JSON line with the level, timestamp, stage and data', () => {
+		new LoggerService('DynamoDbService').info('Loading page 1 from DynamoDB.', { indexName: 'SK-PK-index' });
+
+		expect(entries()).toEqual([{
+			level: 'INFO',
+			timestamp: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+			message: 'Loading page 1 from DynamoDB.',
+			stage: 'qa',
+			logger: 'DynamoDbService',
+			indexName: 'SK-PK-index'
+		}]);
+	});
+
+	test('adds the context of the invocation', async () => {
+		const logger = new LoggerService();
+
+		await LoggerService.runWithContext({ awsRequestId: 'request-1', route: 'GET /items/{id}' }, async () => {
+			LoggerService.appendContext({ correlationId: 'correlation-1' });
+			await Promise.resolve();
+			logger.info('Inside.');
+		});
+		logger.info('Outside.');
+
+		const [inside, outside] = entries();
+		expect(inside).toMatchObject({ awsRequestId: 'request-1', route: 'GET /items/{id}', correlationId: 'correlation-1' });
+		expect(outside.awsRequestId).toBeUndefined();
+	});
+
+	test('serializes errors', () => {
+		new LoggerService().error('Failed.', { error: new TypeError('Boom') });
+
+		expect(entries()[0].error).toEqual({ name: 'TypeError', message: 'Boom', stack: expect.stringContaining('TypeError: Boom') });
+	});
+
+	test('uses the log level of the stage', () => {
+		const logger = new LoggerService();
+
+		logger.debug('Hidden on qa.');
+		process.env.STAGE = 'dev';
+		logger.debug('Shown on dev.');
+
+		expect(entries().map(entry => entry.message)).toEqual(['Shown on dev.']);
+	});
+
+	test('uses LOG_LEVEL over the level of the stage', () => {
+		process.env.LOG_LEVEL = 'warn';
+		const logger = new LoggerService();
+
+		logger.info('Hidden.');
+		logger.warn('Shown.');
+
+		expect(entries().map(entry => entry.level)).toEqual(['WARN']);
+	});
+
+	test('pretty prints the logs locally', () => {
+		process.env.LOG_FORMAT = 'pretty';
+
+		LoggerService.runWithContext({ route: 'GET /items' }, () => new LoggerService('timing').info('[GET] /items 200', { durationMs: 12 }));
+
+		expect(stdout).not.toHaveBeenCalled();
+		expect(consoleLog).toHaveBeenCalledWith('INFO  [GET /items] timing: [GET] /items 200 {"durationMs":12}');
+	});
+});
@@ -0,0 +1,206 @@
+import { IntegrationTestHarness } from '../testing/integration-test.harness';
+import { Controller, Delete, Get, Post, Public, Use, UserTypes } from '../testing/decorators';
+import { NotFoundError } from '../lib/stacks/lambda/errors/http.error';
+import { invokeController } from '../lib/stacks/lambda/helpers/lambda-handler.helper';
+import { buildResponseBody } from '../lib/stacks/lambda/helpers/lambda-response.helper';
+import { IInvocation, IMiddleware, runMiddleware } from '../lib/stacks/lambda/middleware/middleware.pipeline';
+
+const invocation = (event: any = {}): IInvocation => ({ event, handlerName: 'TestController', internal: {} });
+
+const recorder = (name: string, calls: string[]): IMiddleware => ({
+	before: () => { calls.push(`${name}.before`); },
+	after: () => { calls.push(`${name}.after`); },
+	onError: () => { calls.push(`${name}.onError`); }
+});
+
+describe('runMiddleware', () => {
+	test('runs the before hooks in order and the after hooks in reverse order', async () => {
+		const calls: string[] = [];
+
+		const response = await runMiddleware([recorder('a', calls), recorder('b', calls)], invocation(), async () => {
+			calls.push('handler');
+			return 'response';
+		});
+
+		expect(response).toBe('response');
+		expect(calls).toEqual(['a.before', 'b.before', 'handler', 'b.after', 'a.after']);
+	});
+
+	test('skips the handler when a before hook sets the response', async () => {
+		const calls: string[] = [];
+		const cached: IMiddleware = { before: invocation => { invocation.response = 'cached'; } };
+
+		const response = await runMiddleware([recorder('a', calls), cached, recorder('b', calls)], invocation(), async () => {
+			calls.push('handler');
+		});
+
+		expect(response).toBe('cached');
+		expect(calls).toEqual(['a.before', 'a.after']);
+	});
+
+	test('returns the response of an onError hook', async () => {
+		const calls: string[] = [];
+		const handled: IMiddleware = { onError: invocation => { invocation.response = `handled ${(invocation.error as Error).message}`; } };
+
+		const response = await runMiddleware([recorder('a', calls), handled], invocation(), async () => {
+			throw new Error('failure');
+		});
+
+		expect(response).toBe('handled failure');
+		expect(calls).toEqual(['a.before', 'a.onError']);
+	});
+
+	test('throws the error when no onError hook handles it', async () => {
+		await expect(runMiddleware([recorder('a', [])], invocation(), async () => {
+			throw new Error('failure');
+		})).rejects.toThrow('failure');
+	});
+});
+
+const order: string[] = [];
+
+@Controller('middleware')
+@Use(recorder('controller', order))
+class MiddlewareTestController {
+	@Get('')
+	@Use(recorder('method', order))
+	async handler() {
+		order.push('handler');
+		return buildResponseBody(200, { ok: true });
+	}
+
+	@Post('')
+	async create(request: any) {
+		if (!request.body.name) throw new NotFoundError();
+		return buildResponseBody(201, request.body);
+	}
+}
+
+describe('invokeController', () => {
+	beforeEach(() => order.length = 0);
+
+	test('runs the middlewares of the controller before those of the method', async () => {
+		await invokeController(new MiddlewareTestController(), 'handler', { path: '/middleware', headers: {} });
+
+		expect(order).toEqual(['controller.before', 'method.before', 'handler', 'method.after', 'controller.after']);
+	});
+
+	test('adds the CORS, correlation id and timing headers', async () => {
+		const result = await invokeController(new MiddlewareTestController(), 'handler', { path: '/middleware', headers: { 'x-correlation-id': 'abc' } });
+
+		expect(result.headers['Access-Control-Allow-Origin']).toBe('*');
+		expect(result.headers['X-Correlation-Id']).toBe('abc');
+		expect(result.headers['Server-Timing']).toMatch(/^handler;dur=\d+(\.\d)?$/);
+	});
+
+	test('parses the JSON body', async () => {
+		const body = Buffer.from(JSON.stringify({ name: 'Shelf' })).toString('base64');
+		const result = await invokeController(new MiddlewareTestController(), 'create', { path: '/middleware', headers: { 'Content-Type': 'application/json' }, body, isBase64Encoded: true });
+
+		expect(result.statusCode).toBe(201);
+		expect(JSON.parse(result.body)).toEqual({ name: 'Shelf' });
+	});
+
+	test('maps an invalid JSON body to a problem with the CORS headers', async () => {
+		const result = await invokeController(new MiddlewareTestController(), 'create', { path: '/middleware', headers: {}, body: '{' });
+
+		expect(result.statusCode).toBe(400);
+		expect(JSON.parse(result.body).errors).toEqual([{ location: 'body', path: '', message: 'must be valid JSON' }]);
+		expect(result.headers['Access-Control-Allow-Origin']).toBe('*');
+		expect(result.headers['X-Correlation-Id']).toBeDefined();
+	});
+});
+
+@Controller('auth')
+class AuthTestController {
+	@Get('')
+	@Public()
+	async list() {
+		return buildResponseBody(200, []);
+	}
+
+	@Post('')
+	async create() {
+		return buildResponseBody(201, {});
+	}
+
+	@Delete('')
+	@UserTypes('admin')
+	async remove() {
+		return buildResponseBody(204);
+	}
+}
+
+describe('auth', () => {
+	const event = (claims?: object, payloadVersion = '1.0') => ({
+		path: '/auth',
+		headers: {},
+		requestContext: { authorizer: claims && (payloadVersion === '2.0' ? { jwt: { claims } } : { claims }) }
+	});
+
+	beforeEach(() => process.env.USERPOOL_ID = 'eu-west-1_AbCdEf123');
+	afterEach(() => delete process.env.USERPOOL_ID);
+
+	test('lets public routes through without claims', async () => {
+		const result = await invokeController(new AuthTestController(), 'list', event());
+
+		expect(result.statusCode).toBe(200);
+	});
+
+	test('returns a 401 without claims', async () => {
+		const result = await invokeController(new AuthTestController(), 'create', event());
+
+		expect(result.statusCode).toBe(401);
+		expect(result.headers['Access-Control-Allow-Origin']).toBe('*');
+	});
+
+	test.each([
+		['a REST API', '1.0'],
+		['an HTTP API', '2.0']
+	])('checks the user type of the claims of %s', async (_, payloadVersion) => {
+		const admin = await invokeController(new AuthTestController(), 'remove', event({ email: 'jane@doe.com', 'custom:userType': 'admin' }, payloadVersion));
+		const member = await invokeController(new AuthTestController(), 'remove', event({ email: 'john@doe.com', 'custom:userType': 'member' }, payloadVersion));
+		const withoutType = await invokeController(new AuthTestController(), 'remove', event({ email: 'john@doe.com' }, payloadVersion));
+
+		expect(admin.statusCode).toBe(204);
+		expect(member.statusCode).toBe(403);
+		expect(JSON.parse(member.body).title).toBe('Forbidden');
+		expect(withoutType.statusCode).toBe(403);
+	});
+
+	test('lets any signed in user use a route without user types', async () => {
+		const result = await invokeController(new AuthTestController(), 'create', event({ email: 'john@doe.com' }));
+
+		expect(result.statusCode).toBe(201);
+	});
+
+	test('is off without a user pool', async () => {
+		delete process.env.USERPOOL_ID;
+
+		const result = await invokeController(new AuthTestController(), 'remove', event());
+
+		expect(result.statusCode).toBe(204);
+	});
+});
+
+describe('local server', () => {
+	let harness: IntegrationTestHarness;
+
+	beforeAll(async () => harness = await IntegrationTestHarness.start({ seed: ['item'] }));
+	afterAll(() => harness.stop());
+
+	test('returns the same headers as the lambda handler', async () => {
+		const result = await harness.request('GET /items', undefined, { headers: { 'X-Correlation-Id': 'local-1' } });
+
+		expect(result.statusCode).toBe(200);
+		expect(result.headers['x-correlation-id']).toBe('local-1');
+		expect(result.headers['server-timing']).toMatch(/^handler;dur=/);
+	});
+
+	test('uses the request id of API Gateway without a correlation id header', async () => {
+		const result = await harness.request('GET /items/00000000-0000-4000-8000-0000000000ff');
+
+		expect(result.statusCode).toBe(404);
+		expect(result.headers['x-correlation-id']).toMatch(/^[0-9a-f-]{36}$/);
+	});
+});
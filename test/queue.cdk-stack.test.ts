@@ -0,0 +1,60 @@
+import { Match, Template } from 'aws-cdk-lib/assertions';
+
+import { StageEnum } from '../lib/enums/stage.enum';
+import { ILambdaStackProps } from '../lib/interfaces/lambda.stack-props';
+import { RestApiStack } from '../lib/stacks/api/rest-api.cdk-stack';
+import { DataTableStack } from '../lib/stacks/data/data-table.cdk-stack';
+import { QueueStack } from '../lib/stacks/queue/queue.cdk-stack';
+import { loadQueueHandlers } from '../testing/controller.loader';
+import { createTestApp } from './helpers/cdk-app.helper';
+import { expectLambdasToFollowConventions } from './helpers/lambda-template.assertions';
+
+const REGION = 'eu-west-1';
+
+const synth = (props: Partial<ILambdaStackProps> = {}) => {
+	const app = createTestApp();
+	const stage = props.stage || StageEnum.DEV;
+	const { table } = new DataTableStack(app, { stage });
+	const queueStack = new QueueStack(app, { stage, region: REGION, table, ...props });
+	// Both stacks have to exist before the first synthesis.
+	const restApiStack = new RestApiStack(app, { stage, region: REGION, table, queues: queueStack.queues });
+
+	return { queues: Template.fromStack(queueStack), api: Template.fromStack(restApiStack) };
+}
+
+describe('QueueStack', () => {
+	test('creates a queue, a dead-letter queue and a function per queue handler', () => {
+		const { queues } = synth();
+		const count = loadQueueHandlers('ts').length;
+
+		queues.resourceCountIs('AWS::SQS::Queue', count * 2);
+		queues.resourceCountIs('AWS::Lambda::EventSourceMapping', count);
+		expect(expectLambdasToFollowConventions(queues, { stage: StageEnum.DEV, region: REGION, withTable: true })).toBe(count);
+	});
+
+	test('passes the options of the decorator to the queue and the event source mapping', () => {
+		const { queues } = synth();
+
+		queues.hasResourceProperties('AWS::SQS::Queue', {
+			QueueName: 'dev-ProjectName-item-imports',
+			// 6 times the timeout of the function.
+			VisibilityTimeout: 180,
+			RedrivePolicy: { deadLetterTargetArn: Match.anyValue(), maxReceiveCount: 3 }
+		});
+		queues.hasResourceProperties('AWS::SQS::Queue', { QueueName: 'dev-ProjectName-item-imports-dlq', MessageRetentionPeriod: 1209600 });
+		queues.hasResourceProperties('AWS::Lambda::EventSourceMapping', {
+			BatchSize: 10,
+			FunctionResponseTypes: ['ReportBatchItemFailures']
+		});
+	});
+
+	test('lets the functions in the sendsTo of a queue send to it, and only those', () => {
+		const { api } = synth();
+		const sqsStatements = Object.values(api.findResources('AWS::IAM::Policy'))
+			.flatMap(policy => policy.Properties.PolicyDocument.Statement)
+			.filter(statement => [statement.Action].flat().some((action: string) => action.startsWith('sqs:')));
+
+		expect(sqsStatements).toHaveLength(1);
+		expect(sqsStatements[0].Action).toEqual(expect.arrayContaining(['sqs:SendMessage', 'sqs:GetQueueUrl']));
+	});
+});
@@ -0,0 +1,94 @@
+import { Template } from 'aws-cdk-lib/assertions';
+import { UserPool } from 'aws-cdk-lib/aws-cognito';
+import * as cdk from 'aws-cdk-lib';
+
+import { LogLevelEnum } from '../lib/enums/log-level.enum';
+import { StageEnum } from '../lib/enums/stage.enum';
+import { ILambdaStackProps } from '../lib/interfaces/lambda.stack-props';
+import { DataTableStack } from '../lib/stacks/data/data-table.cdk-stack';
+import { RequestLambdaStack } from '../lib/stacks/lambda/request-lambda.cdk-stack';
+import { STAGE_LOG_LEVELS } from '../lib/stacks/lambda/services/logger.service';
+import { createTestApp, toSnapshot } from './helpers/cdk-app.helper';
+import { expectLambdasToFollowConventions } from './helpers/lambda-template.assertions';
+
+const REGION = 'eu-west-1';
+const USER_POOL_ID = 'eu-west-1_AbCdEf123';
+const USER_POOL_ARN = `arn:aws:cognito-idp:eu-west-1:123456789012:userpool/${USER_POOL_ID}`;
+
+/**
+ * Synthesize the stack of the items/create function.
+ *
+ * @param props - Overrides of the props, the function gets the table unless it is set to undefined.
+ * @returns
+ */
+const synth = (props: Partial<ILambdaStackProps> = {}) => {
+	const app = createTestApp();
+	const stage = props.stage || StageEnum.DEV;
+	const table = 'table' in props ? props.table : new DataTableStack(app, { stage }).table;
+
+	const stack = new RequestLambdaStack(app, 'items', 'create', { stage, region: REGION, ...props, table });
+	return { stack, template: Template.fromStack(stack) };
+}
+
+describe.each(Object.values(StageEnum))('RequestLambdaStack (%s)', stage => {
+	const props = { stage, userPoolArn: USER_POOL_ARN, userPoolId: USER_POOL_ID };
+
+	test('matches the snapshot', () => {
+		expect(toSnapshot(synth(props).template)).toMatchSnapshot();
+	});
+
+	test('follows the conventions for functions', () => {
+		const count = expectLambdasToFollowConventions(synth(props).template, { ...props, region: REGION, withTable: true });
+
+		expect(count).toBe(1);
+	});
+
+	test('logs JSON at the log level of the stage', () => {
+		synth(props).template.hasResourceProperties('AWS::Lambda::Function', {
+			LoggingConfig: { LogFormat: 'JSON', ApplicationLogLevel: STAGE_LOG_LEVELS[stage], SystemLogLevel: 'INFO' }
+		});
+	});
+
+	test('names the stack after the stage and the code file', () => {
+		expect(synth(props).stack.stackName).toBe(`${stage}-ProjectName-items-create`);
+	});
+});
+
+describe('RequestLambdaStack', () => {
+	test('only gets the basic execution role without a table or user pool', () => {
+		const { template } = synth({ table: undefined });
+
+		expectLambdasToFollowConventions(template, { stage: StageEnum.DEV, region: REGION, withTable: false });
+		template.resourceCountIs('AWS::IAM::Policy', 0);
+	});
+
+	test('overrides the log level of the stage', () => {
+		synth({ stage: StageEnum.PROD, logLevel: LogLevelEnum.DEBUG }).template.hasResourceProperties('AWS::Lambda::Function', {
+			LoggingConfig: { ApplicationLogLevel: 'DEBUG' }
+		});
+	});
+
+	test('accepts the user pool of another stack', () => {
+		const app = createTestApp();
+		const userPool = new UserPool(new cdk.Stack(app, 'users'), 'pool');
+
+		expect(() => new RequestLambdaStack(app, 'items', 'create', {
+			stage: StageEnum.DEV,
+			region: REGION,
+			userPoolArn: userPool.userPoolArn,
+			userPoolId: userPool.userPoolId
+		})).not.toThrow();
+	});
+
+	test.each([
+		['a userPoolArn without a userPoolId', { userPoolArn: USER_POOL_ARN }, /userPoolArn and userPoolId have to be set together/],
+		['a userPoolId without a userPoolArn', { userPoolId: USER_POOL_ID }, /userPoolArn and userPoolId have to be set together/],
+		['a userPoolId of another user pool', { userPoolArn: USER_POOL_ARN, userPoolId: 'eu-west-1_Other' }, /is not the id of the user pool/],
+		['an ARN that is not of a user pool', { userPoolArn: 'arn:aws:s3:::bucket', userPoolId: USER_POOL_ID }, /is not the ARN of a user pool/],
+		['an unknown stage', { stage: 'test' as StageEnum }, /stage must be one of dev, qa, prod/],
+		['an empty region', { region: '' }, /region is required/],
+		['an unknown log level', { logLevel: 'VERBOSE' as LogLevelEnum }, /logLevel must be one of TRACE, DEBUG, INFO, WARN, ERROR, FATAL/]
+	])('fails the synthesis for %s', (_, props, error) => {
+		expect(() => synth({ ...props, table: undefined })).toThrow(error);
+	});
+});
@@ -0,0 +1,51 @@
+import { Template } from 'aws-cdk-lib/assertions';
+
+import { StageEnum } from '../lib/enums/stage.enum';
+import { IRestApiStackProps } from '../lib/interfaces/rest-api.stack-props';
+import { RestApiStack } from '../lib/stacks/api/rest-api.cdk-stack';
+import { DataTableStack } from '../lib/stacks/data/data-table.cdk-stack';
+import { QueueStack } from '../lib/stacks/queue/queue.cdk-stack';
+import { loadControllers } from '../testing/controller.loader';
+import { createTestApp } from './helpers/cdk-app.helper';
+import { expectLambdasToFollowConventions } from './helpers/lambda-template.assertions';
+
+const REGION = 'eu-west-1';
+const USER_POOL_ID = 'eu-west-1_AbCdEf123';
+const USER_POOL_ARN = `arn:aws:cognito-idp:eu-west-1:123456789012:userpool/${USER_POOL_ID}`;
+
+// The code files of the controllers, the other handlers get their functions from the TableStreamStack, QueueStack and ScheduleStack.
+const CODE_FILES = [...new Set(loadControllers('ts').map(({ folder, codeFile }) => `${folder}/${codeFile}`))];
+
+const synth = (props: Partial<IRestApiStackProps> = {}) => {
+	const app = createTestApp();
+	const stage = props.stage || StageEnum.DEV;
+	const { table } = new DataTableStack(app, { stage });
+	const { queues } = new QueueStack(app, { stage, region: REGION, table });
+
+	return Template.fromStack(new RestApiStack(app, { stage, region: REGION, table, queues, ...props }));
+}
+
+describe('RestApiStack', () => {
+	test.each([
+		['without a user pool', {}],
+		['with a user pool', { userPoolArn: USER_POOL_ARN, userPoolId: USER_POOL_ID }],
+		['from the OpenAPI document', { useOpenApiDefinition: true, userPoolArn: USER_POOL_ARN, userPoolId: USER_POOL_ID }]
+	])('creates a function per lambda code file that follows the conventions %s', (_, props) => {
+		const count = expectLambdasToFollowConventions(synth(props), { stage: StageEnum.DEV, region: REGION, withTable: true, ...props });
+
+		expect(count).toBe(CODE_FILES.length);
+	});
+
+	test('only adds the authorizer with a user pool', () => {
+		synth().resourceCountIs('AWS::ApiGateway::Authorizer', 0);
+		synth({ userPoolArn: USER_POOL_ARN, userPoolId: USER_POOL_ID }).resourceCountIs('AWS::ApiGateway::Authorizer', 1);
+	});
+
+	test('fails the synthesis for a userPoolArn without a userPoolId', () => {
+		expect(() => synth({ userPoolArn: USER_POOL_ARN })).toThrow(/userPoolArn and userPoolId have to be set together/);
+	});
+
+	test('fails the synthesis when a function sends to a queue that it doesn\'t get', () => {
+		expect(() => synth({ queues: {} })).toThrow(/sends to the queue "item-imports"/);
+	});
+});
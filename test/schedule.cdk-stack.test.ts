@@ -0,0 +1,36 @@
+import { Template } from 'aws-cdk-lib/assertions';
+
+import { StageEnum } from '../lib/enums/stage.enum';
+import { DataTableStack } from '../lib/stacks/data/data-table.cdk-stack';
+import { ScheduleStack } from '../lib/stacks/schedule/schedule.cdk-stack';
+import { loadScheduledHandlers } from '../testing/controller.loader';
+import { createTestApp } from './helpers/cdk-app.helper';
+import { expectLambdasToFollowConventions } from './helpers/lambda-template.assertions';
+
+const REGION = 'eu-west-1';
+
+const synth = () => {
+	const app = createTestApp();
+	const { table } = new DataTableStack(app, { stage: StageEnum.DEV });
+
+	return Template.fromStack(new ScheduleStack(app, { stage: StageEnum.DEV, region: REGION, table }));
+}
+
+describe('ScheduleStack', () => {
+	test('creates a function per scheduled handler that follows the conventions', () => {
+		const count = expectLambdasToFollowConventions(synth(), { stage: StageEnum.DEV, region: REGION, withTable: true });
+
+		expect(count).toBe(loadScheduledHandlers('ts').length);
+	});
+
+	test('invokes the functions with a rule on the expression of the decorator', () => {
+		const template = synth();
+
+		template.hasResourceProperties('AWS::Events::Rule', {
+			Name: 'dev-ProjectName-items-count-schedule',
+			ScheduleExpression: 'rate(1 hour)',
+			State: 'ENABLED'
+		});
+		template.resourceCountIs('AWS::Lambda::Permission', loadScheduledHandlers('ts').length);
+	});
+});
@@ -0,0 +1,65 @@
+import { parseScheduleExpression } from '../testing/schedules/schedule.expression';
+
+// A Wednesday.
+const START = new Date('2025-01-01T10:07:30Z');
+
+/**
+ * The next runs of an expression after START.
+ *
+ * @param expression
+ * @param count
+ * @returns
+ */
+const nextRuns = (expression: string, count = 3) => {
+	const schedule = parseScheduleExpression(expression);
+	const runs: string[] = [];
+
+	let after = START;
+	for (let i = 0; i < count; i++) {
+		const next = schedule.next(after);
+		if (!next) break;
+
+		runs.push(next.toISOString());
+		after = next;
+	}
+
+	return runs;
+}
+
+describe('parseScheduleExpression', () => {
+	test.each([
+		['rate(1 minute)', ['2025-01-01T10:08:30.000Z', '2025-01-01T10:09:30.000Z']],
+		['rate(5 minutes)', ['2025-01-01T10:12:30.000Z', '2025-01-01T10:17:30.000Z']],
+		['rate(2 hours)', ['2025-01-01T12:07:30.000Z', '2025-01-01T14:07:30.000Z']],
+		['rate(1 day)', ['2025-01-02T10:07:30.000Z', '2025-01-03T10:07:30.000Z']]
+	])('runs %s from the start', (expression, expected) => {
+		expect(nextRuns(expression, 2)).toEqual(expected);
+	});
+
+	test.each([
+		['cron(0/15 * * * ? *)', ['2025-01-01T10:15:00.000Z', '2025-01-01T10:30:00.000Z', '2025-01-01T10:45:00.000Z']],
+		['cron(0 6 ? * MON-FRI *)', ['2025-01-02T06:00:00.000Z', '2025-01-03T06:00:00.000Z', '2025-01-06T06:00:00.000Z']],
+		['cron(30 9,17 1 * ? *)', ['2025-01-01T17:30:00.000Z', '2025-02-01T09:30:00.000Z', '2025-02-01T17:30:00.000Z']],
+		['cron(0 0 L * ? *)', ['2025-01-31T00:00:00.000Z', '2025-02-28T00:00:00.000Z', '2025-03-31T00:00:00.000Z']],
+		['cron(0 0 1W * ? *)', ['2025-02-03T00:00:00.000Z', '2025-03-03T00:00:00.000Z', '2025-04-01T00:00:00.000Z']],
+		['cron(0 12 ? * 2#1 *)', ['2025-01-06T12:00:00.000Z', '2025-02-03T12:00:00.000Z', '2025-03-03T12:00:00.000Z']],
+		['cron(0 12 ? * 6L *)', ['2025-01-31T12:00:00.000Z', '2025-02-28T12:00:00.000Z', '2025-03-28T12:00:00.000Z']],
+		['cron(0 0 1 JAN ? 2025-2026)', ['2026-01-01T00:00:00.000Z']]
+	])('runs %s on the matching minutes in UTC', (expression, expected) => {
+		expect(nextRuns(expression)).toEqual(expected);
+	});
+
+	test.each([
+		['every 5 minutes', /rate\(\.\.\.\) or cron\(\.\.\.\)/],
+		['rate(1 minutes)', /use "minute"/],
+		['rate(5 minute)', /use "minutes"/],
+		['rate(0 minutes)', /at least 1/],
+		['cron(0 6 * * *)', /6 fields/],
+		['cron(0 6 * * MON *)', /has to be "\?"/],
+		['cron(0 6 ? * ? *)', /has to be "\?"/],
+		['cron(60 6 * * ? *)', /60 isn't between 0 and 59/],
+		['cron(0 6 ? FOO * *)', /"FOO" isn't a valid value/]
+	])('rejects %s', (expression, message) => {
+		expect(() => parseScheduleExpression(expression)).toThrow(message);
+	});
+});
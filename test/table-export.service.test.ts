@@ -0,0 +1,81 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BatchWriteCommand, DynamoDBDocumentClient, ScanCommand } from '@aws-sdk/lib-dynamodb';
+
+import { IntegrationTestHarness } from '../testing/integration-test.harness';
+import { FixtureService } from '../testing/fixture.service';
+import { EXPORT_FORMATS, ExportFormat, TableExportService } from '../testing/table-export.service';
+import { createDocumentClient } from '../lib/stacks/lambda/services/dynamodb-client.factory';
+
+const ITEMS: Record<string, any>[] = [
+	{
+		PK: 'ITEM#1',
+		SK: 'ITEM',
+		name: 'Chair',
+		// An empty string, and a column that is a number, a string and a map.
+		nickname: '',
+		size: 3,
+		zipCode: '0123',
+		active: true,
+		removedOn: null,
+		photo: new Uint8Array([0, 1, 255]),
+		colors: new Set(['red', 'blue']),
+		widths: new Set([40, 45.5]),
+		photos: new Set([new Uint8Array([1]), new Uint8Array([2])]),
+		details: { material: 'oak', dimensions: [40, { unit: 'cm' }], labels: new Set(['new']) }
+	},
+	{ PK: 'ITEM#2', SK: 'ITEM', name: 'Lamp', nickname: 'light', size: '3', zipCode: '1000', active: false },
+	{ PK: 'ITEM#3', SK: 'ITEM', name: 'Table', size: { width: 80 }, tags: ['wood', 1, null] },
+	{ PK: 'ITEM#1', SK: 'TAG#wood', createdOn: '2024-01-01T00:00:00.000Z' },
+	// Every value looks like DynamoDB-JSON, which the importer would unmarshall without the exporter marshalling it.
+	{ PK: 'USER#1', SK: 'USER', S: 'text', status: { S: 'active' } }
+];
+
+let harness: IntegrationTestHarness;
+let client: DynamoDBDocumentClient;
+let folder: string;
+
+const scan = async () => {
+	const { Items = [] } = await client.send(new ScanCommand({ TableName: harness.tableName }));
+	return Items.sort((a, b) => `${a.PK}|${a.SK}`.localeCompare(`${b.PK}|${b.SK}`));
+}
+
+beforeAll(async () => {
+	harness = await IntegrationTestHarness.start({ seed: false });
+	client = createDocumentClient(true);
+});
+
+beforeEach(async () => {
+	folder = fs.mkdtempSync(path.join(os.tmpdir(), 'table-export-'));
+
+	await harness.truncate();
+	await client.send(new BatchWriteCommand({ RequestItems: { [harness.tableName]: ITEMS.map(Item => ({ PutRequest: { Item } })) } }));
+});
+
+afterEach(() => fs.rmSync(folder, { recursive: true, force: true }));
+afterAll(() => harness.stop());
+
+describe('TableExportService', () => {
+	test.each(EXPORT_FORMATS)('imports a %s export back unchanged', async (format: ExportFormat) => {
+		const exported = await scan();
+		const extension = format === 'dynamodb-json' ? 'ndjson' : format;
+
+		const files = await new TableExportService(client, harness.tableName).export({ format, folder });
+		expect(files.map(file => path.basename(file)).sort()).toEqual([`item.export.${extension}`, `user.export.${extension}`]);
+
+		await harness.truncate();
+		await new FixtureService(client, harness.tableName, { data: folder }).seed();
+
+		const imported = await scan();
+		expect(imported).toEqual(exported);
+		expect(imported).toHaveLength(ITEMS.length);
+	});
+
+	test('only exports the main items of an entity', async () => {
+		await new TableExportService(client, harness.tableName).export({ format: 'json', entity: 'item', folder });
+
+		const records = JSON.parse(fs.readFileSync(path.join(folder, 'item.export.json'), 'utf-8'));
+		expect(records.map((record: any) => record.PK.S || record.PK)).toEqual(['ITEM#1', 'ITEM#2', 'ITEM#3']);
+	});
+});
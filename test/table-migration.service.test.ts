@@ -0,0 +1,85 @@
+import { CreateTableCommand, CreateTableCommandInput, DescribeTableCommand } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import fs from 'fs';
+
+import { FixtureService } from '../testing/fixture.service';
+import { useInMemoryDynamoDb } from '../testing/in-memory-dynamodb/in-memory-request.handler';
+import { InMemoryDynamoDb } from '../testing/in-memory-dynamodb/in-memory-dynamodb.store';
+import { TableMigrationService } from '../testing/table-migration.service';
+import { createDocumentClient } from '../lib/stacks/lambda/services/dynamodb-client.factory';
+
+const TableName = 'migration-test';
+
+const DECLARED: CreateTableCommandInput = {
+	TableName,
+	KeySchema: [{ AttributeName: 'PK', KeyType: 'HASH' }, { AttributeName: 'SK', KeyType: 'RANGE' }],
+	AttributeDefinitions: [{ AttributeName: 'PK', AttributeType: 'S' }, { AttributeName: 'SK', AttributeType: 'S' }],
+	GlobalSecondaryIndexes: [
+		{ IndexName: 'SK-PK-index', KeySchema: [{ AttributeName: 'SK', KeyType: 'HASH' }, { AttributeName: 'PK', KeyType: 'RANGE' }], Projection: { ProjectionType: 'ALL' } }
+	],
+	BillingMode: 'PAY_PER_REQUEST'
+};
+
+// 60 items, which takes more than one batch.
+const ITEMS = Array.from({ length: 60 }, (_, i) => ({ PK: `ITEM#${String(i).padStart(2, '0')}`, SK: 'ITEM', name: `Item ${i}` }));
+
+let database: InMemoryDynamoDb;
+let client: DynamoDBDocumentClient;
+
+const createTable = async (input: CreateTableCommandInput) => {
+	await client.send(new CreateTableCommand(input));
+	await new FixtureService(client, TableName).writeItems(ITEMS);
+}
+
+const describeIndexes = async () => {
+	const { Table } = await client.send(new DescribeTableCommand({ TableName }));
+	return (Table!.GlobalSecondaryIndexes || []).map(index => index.IndexName);
+}
+
+beforeAll(() => {
+	database = useInMemoryDynamoDb();
+	client = createDocumentClient(true);
+	jest.spyOn(console, 'log').mockImplementation(() => undefined);
+	jest.spyOn(console, 'group').mockImplementation(() => undefined);
+});
+
+beforeEach(() => database.clear());
+afterAll(() => jest.restoreAllMocks());
+
+describe('TableMigrationService', () => {
+	test('adds the missing indexes and deletes the removed ones in place', async () => {
+		const removedIndex = { IndexName: 'name-index', KeySchema: [{ AttributeName: 'name', KeyType: 'HASH' as const }], Projection: { ProjectionType: 'KEYS_ONLY' as const } };
+		await createTable({
+			...DECLARED,
+			AttributeDefinitions: [...DECLARED.AttributeDefinitions!, { AttributeName: 'name', AttributeType: 'S' }],
+			GlobalSecondaryIndexes: [removedIndex]
+		});
+
+		const service = new TableMigrationService(client);
+		const { Table } = await client.send(new DescribeTableCommand({ TableName }));
+		expect(service.diff(Table!, DECLARED)).toMatchObject({ removedIndexes: ['name-index'], unsupportedChanges: [] });
+
+		await service.migrate(DECLARED);
+
+		expect(await describeIndexes()).toEqual(['SK-PK-index']);
+		expect((await client.send(new ScanCommand({ TableName }))).Count).toBe(ITEMS.length);
+	});
+
+	test('recreates the table and imports the items again in batches', async () => {
+		// The backup isn't written to testing/.backups.
+		jest.spyOn(fs, 'mkdirSync').mockImplementation(() => undefined);
+		jest.spyOn(fs, 'writeFileSync').mockImplementation(() => undefined);
+		await createTable({ ...DECLARED, GlobalSecondaryIndexes: [{ ...DECLARED.GlobalSecondaryIndexes![0], Projection: { ProjectionType: 'KEYS_ONLY' } }] });
+
+		const execute = jest.spyOn(database, 'execute');
+		await new TableMigrationService(client).migrate(DECLARED, true);
+
+		const operations = execute.mock.calls.map(([operation]) => operation);
+		expect(operations.filter(operation => operation === 'BatchWriteItem')).toHaveLength(3);
+		expect(operations).not.toContain('PutItem');
+
+		const { Items } = await client.send(new ScanCommand({ TableName }));
+		expect(Items!.sort((a, b) => a.PK.localeCompare(b.PK))).toEqual(ITEMS);
+		expect(await describeIndexes()).toEqual(['SK-PK-index']);
+	});
+});
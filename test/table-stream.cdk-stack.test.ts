@@ -0,0 +1,62 @@
+import { Match, Template } from 'aws-cdk-lib/assertions';
+
+import { StageEnum } from '../lib/enums/stage.enum';
+import { ITableStreamStackProps } from '../lib/interfaces/table-stream.stack-props';
+import { DataTableStack } from '../lib/stacks/data/data-table.cdk-stack';
+import { TableStreamStack } from '../lib/stacks/stream/table-stream.cdk-stack';
+import { loadStreamHandlers } from '../testing/controller.loader';
+import { createTestApp } from './helpers/cdk-app.helper';
+
+const REGION = 'eu-west-1';
+
+const synth = (props: Partial<ITableStreamStackProps> = {}) => {
+	const app = createTestApp();
+	const stage = props.stage || StageEnum.DEV;
+	const dataTableStack = new DataTableStack(app, { stage });
+	// Both stacks have to exist before the first synthesis.
+	const tableStreamStack = new TableStreamStack(app, { stage, region: REGION, table: dataTableStack.table, ...props });
+
+	return { table: Template.fromStack(dataTableStack), streams: Template.fromStack(tableStreamStack) };
+}
+
+describe('TableStreamStack', () => {
+	test('enables the stream of the table with the old and new images', () => {
+		synth().table.hasResourceProperties('AWS::DynamoDB::Table', {
+			StreamSpecification: { StreamViewType: 'NEW_AND_OLD_IMAGES' }
+		});
+	});
+
+	test('creates a function with an event source mapping per stream handler', () => {
+		const { streams } = synth();
+
+		streams.resourceCountIs('AWS::Lambda::Function', loadStreamHandlers('ts').length);
+		streams.resourceCountIs('AWS::Lambda::EventSourceMapping', loadStreamHandlers('ts').length);
+	});
+
+	test('passes the filter, batch size and retries of the decorator to the event source mapping', () => {
+		synth().streams.hasResourceProperties('AWS::Lambda::EventSourceMapping', {
+			FunctionName: { Ref: Match.stringLikeRegexp('^devProjectNameitemtagscleanup') },
+			StartingPosition: 'LATEST',
+			BatchSize: 100,
+			MaximumRetryAttempts: 2,
+			FilterCriteria: {
+				Filters: [{ Pattern: JSON.stringify({ eventName: ['REMOVE'], dynamodb: { Keys: { SK: { S: ['ITEM'] } } } }) }]
+			}
+		});
+	});
+
+	test('lets the functions read the stream of the table', () => {
+		synth().streams.hasResourceProperties('AWS::IAM::Policy', {
+			PolicyDocument: {
+				Statement: Match.arrayWith([
+					Match.objectLike({ Action: Match.arrayWith(['dynamodb:GetRecords', 'dynamodb:GetShardIterator']) })
+				])
+			}
+		});
+	});
+
+	test('fails the synthesis for a userPoolArn without a userPoolId', () => {
+		expect(() => synth({ userPoolArn: 'arn:aws:cognito-idp:eu-west-1:123456789012:userpool/eu-west-1_AbCdEf123' }))
+			.toThrow(/userPoolArn and userPoolId have to be set together/);
+	});
+});
@@ -0,0 +1,275 @@
+import { Request, Response } from 'express';
+import {
+	APIGatewayProxyEvent,
+	APIGatewayProxyEventV2,
+	APIGatewayProxyResult,
+	APIGatewayProxyResultV2
+} from 'aws-lambda';
+import { v4 } from 'uuid';
+
+import { toApiGatewayPath } from './controller.loader';
+
+export type PayloadVersion = '1.0' | '2.0';
+
+export type LambdaResult = Partial<APIGatewayProxyResult> | APIGatewayProxyResultV2<Record<string, any>> | undefined;
+
+/**
+ * Content types that API Gateway passes to the lambda as plain text. Everything else is base64 encoded.
+ */
+const TEXT_CONTENT_TYPES = [/^text\//, /json/, /xml/, /javascript/, /x-www-form-urlencoded/, /graphql/];
+
+const LOCAL_ACCOUNT_ID = '123456789012';
+const LOCAL_API_ID = 'local';
+
+/**
+ * Get the payload version to use from the environment.
+ *
+ * REST APIs only use version 1.0, HTTP APIs default to 2.0.
+ *
+ * @returns
+ */
+export const getPayloadVersion = (): PayloadVersion => process.env.API_PAYLOAD_VERSION === '2.0' ? '2.0' : '1.0';
+
+/**
+ * Translate an Express request into the event API Gateway would send to the lambda.
+ *
+ * ! The server has to use `express.raw()`, so that the body is still the raw Buffer.
+ *
+ * @param req
+ * @param fullPath - Express path of the route, e.g. /items/:id
+ * @param version
+ * @returns
+ */
+export const toApiGatewayEvent = (req: Request, fullPath: string, version: PayloadVersion = '1.0') => {
+	return version === '2.0' ? toEventV2(req, fullPath) : toEventV1(req, fullPath);
+}
+
+/**
+ * Build a REST API (payload version 1.0) event.
+ *
+ * @param req
+ * @param fullPath
+ * @returns
+ */
+const toEventV1 = (req: Request, fullPath: string): APIGatewayProxyEvent => {
+	const resource = `/${toApiGatewayPath(fullPath)}`;
+	const { headers, multiValueHeaders } = getHeaders(req);
+	const { queryStringParameters, multiValueQueryStringParameters } = getQueryString(req);
+	const { body, isBase64Encoded } = getBody(req);
+	const stage = process.env.STAGE || 'local';
+	const now = new Date();
+
+	return {
+		resource,
+		path: req.path,
+		httpMethod: req.method,
+		headers,
+		multiValueHeaders,
+		queryStringParameters,
+		multiValueQueryStringParameters,
+		pathParameters: getPathParameters(req),
+		stageVariables: null,
+		body,
+		isBase64Encoded,
+		requestContext: {
+			accountId: LOCAL_ACCOUNT_ID,
+			apiId: LOCAL_API_ID,
+			authorizer: undefined,
+			domainName: req.hostname,
+			domainPrefix: req.hostname.split('.')[0],
+			extendedRequestId: v4(),
+			httpMethod: req.method,
+			identity: {
+				accessKey: null,
+				accountId: null,
+				apiKey: null,
+				apiKeyId: null,
+				caller: null,
+				clientCert: null,
+				cognitoAuthenticationProvider: null,
+				cognitoAuthenticationType: null,
+				cognitoIdentityId: null,
+				cognitoIdentityPoolId: null,
+				principalOrgId: null,
+				sourceIp: req.ip || '127.0.0.1',
+				user: null,
+				userAgent: req.get('user-agent') || null,
+				userArn: null
+			},
+			path: `/${stage}${req.path}`,
+			protocol: `HTTP/${req.httpVersion}`,
+			requestId: v4(),
+			requestTime: now.toISOString(),
+			requestTimeEpoch: now.getTime(),
+			resourceId: LOCAL_API_ID,
+			resourcePath: resource,
+			stage
+		}
+	};
+}
+
+/**
+ * Build a HTTP API (payload version 2.0) event.
+ *
+ * @param req
+ * @param fullPath
+ * @returns
+ */
+const toEventV2 = (req: Request, fullPath: string): APIGatewayProxyEventV2 => {
+	const routeKey = `${req.method} /${toApiGatewayPath(fullPath)}`;
+	const { multiValueHeaders } = getHeaders(req);
+	const { multiValueQueryStringParameters } = getQueryString(req);
+	const { body, isBase64Encoded } = getBody(req);
+	const now = new Date();
+
+	// Version 2.0 lowercases the header names and joins duplicate values with a comma.
+	const headers: Record<string, string> = {};
+	for (const name in multiValueHeaders) {
+		if (name.toLowerCase() === 'cookie') continue;
+		headers[name.toLowerCase()] = multiValueHeaders[name]!.join(',');
+	}
+
+	const queryStringParameters: Record<string, string> = {};
+	for (const name in multiValueQueryStringParameters)
+		queryStringParameters[name] = multiValueQueryStringParameters[name]!.join(',');
+
+	const cookies = (req.get('cookie') || '').split(';').map(c => c.trim()).filter(Boolean);
+	const rawQueryString = req.originalUrl.includes('?') ? req.originalUrl.split('?')[1] : '';
+
+	return {
+		version: '2.0',
+		routeKey,
+		rawPath: req.path,
+		rawQueryString,
+		cookies: cookies.length ? cookies : undefined,
+		headers,
+		queryStringParameters: Object.keys(queryStringParameters).length ? queryStringParameters : undefined,
+		pathParameters: getPathParameters(req) || undefined,
+		body: body ?? undefined,
+		isBase64Encoded,
+		requestContext: {
+			accountId: LOCAL_ACCOUNT_ID,
+			apiId: LOCAL_API_ID,
+			domainName: req.hostname,
+			domainPrefix: req.hostname.split('.')[0],
+			http: {
+				method: req.method,
+				path: req.path,
+				protocol: `HTTP/${req.httpVersion}`,
+				sourceIp: req.ip || '127.0.0.1',
+				userAgent: req.get('user-agent') || ''
+			},
+			requestId: v4(),
+			routeKey,
+			stage: '$default',
+			time: now.toISOString(),
+			timeEpoch: now.getTime()
+		}
+	};
+}
+
+/**
+ * Send the result of the lambda back through Express, the same way API Gateway would.
+ *
+ * @param res
+ * @param result
+ * @param version
+ */
+export const sendLambdaResult = (res: Response, result: LambdaResult, version: PayloadVersion = '1.0') => {
+	// Version 2.0 allows returning a value without a status code, which is then sent as JSON.
+	if (version === '2.0' && (typeof result !== 'object' || result === null || !('statusCode' in result))) {
+		res.status(200).type('application/json').send(typeof result === 'string' ? result : JSON.stringify(result));
+		return;
+	}
+
+	const structured = (result || {}) as Partial<APIGatewayProxyResult> & { cookies?: string[] };
+
+	for (const name in structured.headers || {})
+		res.setHeader(name, String(structured.headers![name]));
+
+	for (const name in structured.multiValueHeaders || {})
+		res.setHeader(name, structured.multiValueHeaders![name].map(String));
+
+	(structured.cookies || []).forEach(cookie => res.append('Set-Cookie', cookie));
+
+	if (!res.getHeader('content-type')) res.type('application/json');
+
+	res.status(structured.statusCode || 200);
+
+	if (structured.body === undefined || structured.body === null) res.end();
+	else if (structured.isBase64Encoded) res.send(Buffer.from(structured.body, 'base64'));
+	else res.send(structured.body);
+}
+
+/**
+ * Get the headers with their original casing, as API Gateway does for version 1.0.
+ *
+ * @param req
+ * @returns
+ */
+const getHeaders = (req: Request) => {
+	const headers: Record<string, string> = {};
+	const multiValueHeaders: Record<string, string[]> = {};
+
+	for (let i = 0; i < req.rawHeaders.length; i += 2) {
+		const name = req.rawHeaders[i];
+		const value = req.rawHeaders[i + 1];
+
+		headers[name] = value;
+		(multiValueHeaders[name] ||= []).push(value);
+	}
+
+	return { headers, multiValueHeaders };
+}
+
+/**
+ * Parse the query string directly from the URL, so that Express' own parsing (e.g. "a[b]=c" to objects) isn't applied.
+ *
+ * @param req
+ * @returns
+ */
+const getQueryString = (req: Request) => {
+	const searchParams = new URL(req.originalUrl, 'http://localhost').searchParams;
+	const queryStringParameters: Record<string, string> = {};
+	const multiValueQueryStringParameters: Record<string, string[]> = {};
+
+	searchParams.forEach((value, name) => {
+		queryStringParameters[name] = value;
+		(multiValueQueryStringParameters[name] ||= []).push(value);
+	});
+
+	const hasValues = Object.keys(queryStringParameters).length > 0;
+
+	return {
+		queryStringParameters: hasValues ? queryStringParameters : null,
+		multiValueQueryStringParameters: hasValues ? multiValueQueryStringParameters : null
+	};
+}
+
+/**
+ * Get the path parameters of the matched route.
+ *
+ * @param req
+ * @returns
+ */
+const getPathParameters = (req: Request) => {
+	const pathParameters: Record<string, string> = { ...req.params };
+	return Object.keys(pathParameters).length ? pathParameters : null;
+}
+
+/**
+ * Get the body as a string, base64 encoding it when it isn't a text content type.
+ *
+ * @param req
+ * @returns
+ */
+const getBody = (req: Request) => {
+	if (!Buffer.isBuffer(req.body) || !req.body.length) return { body: null, isBase64Encoded: false };
+
+	const contentType = req.get('content-type') || '';
+	const isText = !contentType || TEXT_CONTENT_TYPES.some(type => type.test(contentType));
+
+	return isText
+		? { body: req.body.toString('utf-8'), isBase64Encoded: false }
+		: { body: req.body.toString('base64'), isBase64Encoded: true };
+}
@@ -0,0 +1,232 @@
+import cors from 'cors';
+import express, { Express, Request, Response, Router } from 'express';
+import path from 'path';
+
+import { ILoadedController, loadControllers, unloadControllers } from './controller.loader';
+import { getPayloadVersion, PayloadVersion, sendLambdaResult, toApiGatewayEvent } from './api-gateway.adapter';
+import { LocalAuthorizerService } from './local-authorizer.service';
+import { buildOpenApiDocument, buildSwaggerUiPage } from './openapi.generator';
+import { LAMBDA_FOLDER } from './paths';
+import { LambdaInvoker } from './lambda-runtime/lambda.invoker';
+import { LambdaWorkerPool } from './lambda-runtime/lambda-worker.pool';
+
+export interface IAppOptions {
+	// The compiled server loads the ".js" lambda code files, the tests and the watch mode (ts-node) load the ".ts" files.
+	extension: 'js' | 'ts';
+	// Used as the server of the OpenAPI document.
+	serverUrl: string;
+	// Log the registered routes.
+	verbose?: boolean;
+	// Runs the invocations in worker threads, like the containers of Lambda, instead of in the process of the server.
+	pool?: LambdaWorkerPool;
+}
+
+export interface IReloadResult {
+	added: string[];
+	removed: string[];
+}
+
+/**
+ * Lambda code that is loaded and validated, but not used until it is committed.
+ */
+export interface IPreparedReload<T = void> {
+	commit(): T;
+}
+
+/**
+ * The stream, queue and schedule handlers, which are reloaded together with the routes.
+ */
+export interface IReloadable {
+	prepareReload(): IPreparedReload;
+}
+
+export interface ILocalApp {
+	app: Express;
+	// The controllers that are currently served.
+	readonly controllers: ILoadedController[];
+	/**
+	 * Load the current lambda code and the routes of its controllers, which replace the current routes once committed.
+	 *
+	 * ! Throws when the code can't be loaded or has duplicate routes, the previous routes are then still served.
+	 * ! Unloads the lambda code, so prepare the reload of the handlers after this one.
+	 */
+	prepareReload(): IPreparedReload<IReloadResult>;
+}
+
+interface IControllerRouter {
+	router: Router;
+	routes: string[];
+}
+
+/**
+ * Create the Express app that serves every controller of the lambda code folder the same way API Gateway would.
+ *
+ * This doesn't listen on a port yet, so that both the local server and the integration tests can use it.
+ *
+ * @param options
+ * @returns
+ */
+export const createApp = ({ extension, serverUrl, verbose = true, pool }: IAppOptions): ILocalApp => {
+	const log = (message: string) => verbose && console.log(message);
+
+	const app = express();
+	// Keep the raw body, so that it can be passed to the handlers the same way API Gateway would.
+	app.use(express.raw({ type: () => true, limit: '10mb' }));
+	app.use(cors());
+
+	const payloadVersion = getPayloadVersion();
+
+	// Emulates the Cognito authorizer when USERPOOL_ID is set in testing/.env
+	const authorizer = LocalAuthorizerService.isEnabled() ? new LocalAuthorizerService() : undefined;
+	const invoker = new LambdaInvoker(extension, pool);
+
+	if (authorizer) {
+		// Local only: create a token that the local authorizer accepts, e.g. { "email": "john@doe.com", "custom:userType": "admin" }
+		app.post('/local/token', (req: Request, res: Response) => {
+			const claims = Buffer.isBuffer(req.body) && req.body.length ? JSON.parse(req.body.toString('utf-8')) : {};
+			res.json({ token: authorizer.signToken(claims) });
+		});
+
+		log('Registered route: [POST] /local/token');
+	}
+
+	let loadedControllers = loadControllers(extension);
+	let current = createControllerRouter(loadedControllers, payloadVersion, authorizer, invoker, log);
+
+	// The router is looked up per request, so that a reload can replace it.
+	app.use((req, res, next) => current.router(req, res, next));
+
+	// Documentation of the routes above.
+	app.get('/openapi.json', (req: Request, res: Response) => {
+		res.json(buildOpenApiDocument(loadedControllers, {
+			title: 'Local API',
+			version: process.env.npm_package_version || '0.0.0',
+			serverUrl,
+			withAuth: !!authorizer
+		}));
+	});
+	app.get('/docs', (req: Request, res: Response) => {
+		res.type('html').send(buildSwaggerUiPage('/openapi.json'));
+	});
+
+	log('Registered route: [GET] /openapi.json');
+	log('Registered route: [GET] /docs');
+
+	return {
+		app,
+		get controllers() {
+			return loadedControllers;
+		},
+		prepareReload() {
+			unloadControllers();
+
+			const reloadedControllers = loadControllers(extension);
+			const reloaded = createControllerRouter(reloadedControllers, payloadVersion, authorizer, invoker, () => undefined);
+
+			return {
+				commit: () => {
+					const result = {
+						added: reloaded.routes.filter(route => !current.routes.includes(route)),
+						removed: current.routes.filter(route => !reloaded.routes.includes(route))
+					};
+
+					loadedControllers = reloadedControllers;
+					current = reloaded;
+					// The containers still run the previous code.
+					pool?.drain();
+
+					return result;
+				}
+			};
+		}
+	};
+}
+
+/**
+ * Reload the routes and the handlers all-or-nothing: the whole lambda code is loaded and validated before any of it is used.
+ *
+ * ! Throws when any of the code can't be loaded, the previous routes and handlers are then still used.
+ *
+ * @param localApp
+ * @param handlers - E.g. the stream, queue and schedule dispatchers.
+ * @returns - The added and removed routes.
+ */
+export const reloadLambdaCode = (localApp: ILocalApp, handlers: IReloadable[]): IReloadResult => {
+	// The app unloads the lambda code, so it has to be prepared first.
+	const app = localApp.prepareReload();
+	const prepared = handlers.map(handler => handler.prepareReload());
+
+	prepared.forEach(handler => handler.commit());
+	return app.commit();
+}
+
+/**
+ * Register the routes of the controllers on a router of their own.
+ *
+ * @param loadedControllers
+ * @param payloadVersion
+ * @param authorizer
+ * @param invoker
+ * @param log
+ * @returns
+ */
+const createControllerRouter = (
+	loadedControllers: ILoadedController[],
+	payloadVersion: PayloadVersion,
+	authorizer: LocalAuthorizerService | undefined,
+	invoker: LambdaInvoker,
+	log: (message: string) => void
+): IControllerRouter => {
+	// Loaded together with the controllers, so that a reload also picks up the changes to the helpers.
+	const { invokeController }: typeof import('../lib/stacks/lambda/helpers/lambda-handler.helper') =
+		require(path.join(LAMBDA_FOLDER, 'helpers', 'lambda-handler.helper'));
+
+	const router = express.Router();
+
+	// Keep track of routes to test for duplicates
+	const routes: string[] = [];
+
+	loadedControllers.forEach(({ controller, folder, codeFile, routes: controllerRoutes }) => {
+		const instance = new (controller as any)();
+
+		controllerRoutes.forEach(routeDefinition => {
+			const { methodName, httpMethod, fullPath } = routeDefinition;
+			const route = `[${httpMethod.toUpperCase()}] ${fullPath}`;
+			const isExistingRoute = routes.includes(route);
+
+			if (isExistingRoute) {
+				throw new Error(`Duplicate Route: ${route}`);
+			}
+			else routes.push(route);
+
+			router[httpMethod](fullPath, async (req: Request, res: Response) => {
+				try {
+					const event: any = toApiGatewayEvent(req, fullPath, payloadVersion);
+
+					if (authorizer) {
+						const { error, claims } = authorizer.authorize(routeDefinition, req.get('authorization'));
+						if (error) {
+							res.status(error.statusCode).json({ message: error.message });
+							return;
+						}
+
+						// Cognito user pool authorizer (REST API) vs. JWT authorizer (HTTP API).
+						if (claims) event.requestContext.authorizer = payloadVersion === '2.0' ? { jwt: { claims, scopes: null } } : { claims };
+					}
+
+					const result = await invoker.invoke(folder, codeFile, event, context => invokeController(instance, methodName, event, context));
+
+					sendLambdaResult(res, result, payloadVersion);
+				} catch (e: any) {
+					// This is what API Gateway returns when the lambda itself fails.
+					console.error(`Unhandled error in ${route}:`, e);
+					res.status(502).json({ message: 'Internal server error' });
+				}
+			});
+
+			log(`Registered route: ${route}`);
+		});
+	});
+
+	return { router, routes };
+}
@@ -0,0 +1,192 @@
+import path from 'path';
+import { globSync } from 'glob';
+
+import {
+	controllers,
+	getControllerRoutes,
+	getQueueDefinition,
+	getScheduleExpression,
+	getStreamHandlerOptions,
+	IQueueOptions,
+	IRouteDefinition,
+	IStreamHandlerOptions,
+	queueHandlers,
+	scheduledHandlers,
+	streamHandlers
+} from './decorators';
+import { LAMBDA_CODE_FOLDER, LAMBDA_FOLDER } from './paths';
+import { getFunctionDefinition } from '../lib/stacks/lambda/lambda-function.definition';
+
+// Modules that are kept on a reload: the local request handlers of the in-memory DynamoDB and SQS have to survive it,
+// the error classes are checked with instanceof, so there may only be one version of them, and so may the log context of the logger.
+const PERSISTENT_MODULES = [
+	path.join(LAMBDA_FOLDER, 'services', 'dynamodb-client.factory'),
+	path.join(LAMBDA_FOLDER, 'services', 'sqs-client.factory'),
+	path.join(LAMBDA_FOLDER, 'services', 'logger.service'),
+	path.join(LAMBDA_FOLDER, 'errors', 'http.error')
+];
+
+export interface ILoadedController {
+	controller: Function;
+	// Folder inside of the lambda code folder, e.g. "items".
+	folder: string;
+	// Name of the code file without the ".lambda-code" suffix, e.g. "create".
+	codeFile: string;
+	routes: IRouteDefinition[];
+}
+
+export interface ILoadedStreamHandler {
+	streamHandler: Function;
+	// Folder inside of the lambda code folder, e.g. "item-tags".
+	folder: string;
+	// Name of the code file without the ".lambda-code" suffix, e.g. "cleanup".
+	codeFile: string;
+	options: IStreamHandlerOptions;
+}
+
+export interface ILoadedQueueHandler {
+	queueHandler: Function;
+	folder: string;
+	codeFile: string;
+	// Name of the queue without the stage and project, e.g. "item-imports".
+	queueName: string;
+	options: IQueueOptions;
+}
+
+export interface ILoadedScheduledHandler {
+	scheduledHandler: Function;
+	folder: string;
+	codeFile: string;
+	// E.g. "rate(5 minutes)" or "cron(0 6 * * ? *)".
+	expression: string;
+}
+
+/**
+ * Require every lambda code file and return the controllers they registered through the decorators.
+ *
+ * The compiled server loads the ".js" files, the CDK app (ts-node) loads the ".ts" files.
+ *
+ * @param extension
+ * @returns
+ */
+export const loadControllers = (extension: 'js' | 'ts'): ILoadedController[] => {
+	return requireCodeFiles(extension, controllers).map(({ value: controller, folder, codeFile }) => ({
+		controller,
+		folder,
+		codeFile,
+		routes: getControllerRoutes(controller)
+	}));
+}
+
+/**
+ * Require every lambda code file and return the stream handlers they registered through @StreamHandler.
+ *
+ * @param extension
+ * @returns
+ */
+export const loadStreamHandlers = (extension: 'js' | 'ts'): ILoadedStreamHandler[] => {
+	return requireCodeFiles(extension, streamHandlers).map(({ value: streamHandler, folder, codeFile }) => ({
+		streamHandler,
+		folder,
+		codeFile,
+		options: getStreamHandlerOptions(streamHandler)
+	}));
+}
+
+/**
+ * Require every lambda code file and return the queue handlers they registered through @Queue.
+ *
+ * ! Throws when two handlers use the same queue, SQS would split the messages between them,
+ * and when the visibility timeout is shorter than the timeout of the function, which the event source mapping doesn't allow.
+ *
+ * @param extension
+ * @returns
+ */
+export const loadQueueHandlers = (extension: 'js' | 'ts'): ILoadedQueueHandler[] => {
+	const loaded = requireCodeFiles(extension, queueHandlers).map(({ value: queueHandler, folder, codeFile }) => {
+		const { name, options } = getQueueDefinition(queueHandler);
+		return { queueHandler, folder, codeFile, queueName: name, options };
+	});
+
+	const duplicate = loaded.find((handler, index) => loaded.findIndex(other => other.queueName === handler.queueName) !== index);
+	if (duplicate) throw new Error(`Duplicate Queue: ${duplicate.queueName} is used by more than one @Queue handler.`);
+
+	loaded.forEach(({ queueHandler, folder, codeFile, options }) => {
+		const { timeout } = getFunctionDefinition(folder, codeFile);
+		if (options.visibilityTimeout !== undefined && options.visibilityTimeout < timeout)
+			throw new Error(`The visibilityTimeout of ${queueHandler.name} (${options.visibilityTimeout}s) is shorter than the timeout of its function (${timeout}s).`);
+	});
+
+	return loaded;
+}
+
+/**
+ * Require every lambda code file and return the scheduled handlers they registered through @Schedule.
+ *
+ * @param extension
+ * @returns
+ */
+export const loadScheduledHandlers = (extension: 'js' | 'ts'): ILoadedScheduledHandler[] => {
+	return requireCodeFiles(extension, scheduledHandlers).map(({ value: scheduledHandler, folder, codeFile }) => ({
+		scheduledHandler,
+		folder,
+		codeFile,
+		expression: getScheduleExpression(scheduledHandler)
+	}));
+}
+
+/**
+ * Remove the lambda code, and the lambda modules it uses, from the require cache, so that loadControllers() loads the current code.
+ */
+export const unloadControllers = () => {
+	Object.keys(require.cache)
+		.filter(file => file.startsWith(LAMBDA_FOLDER + path.sep))
+		.filter(file => !PERSISTENT_MODULES.includes(file.replace(/\.[jt]s$/, '')))
+		.forEach(file => delete require.cache[file]);
+
+	// The controllers and handlers register themselves again when their code is loaded.
+	controllers.length = 0;
+	streamHandlers.length = 0;
+	queueHandlers.length = 0;
+	scheduledHandlers.length = 0;
+}
+
+/**
+ * Require every lambda code file and return the exports that are in the registry of a decorator.
+ *
+ * @param extension
+ * @param registry - E.g. the controllers of @Controller.
+ * @returns
+ */
+const requireCodeFiles = (extension: 'js' | 'ts', registry: Function[]) => {
+	const files = globSync(`**/*.lambda-code.${extension}`, { cwd: LAMBDA_CODE_FOLDER }).sort();
+	const loaded: { value: Function; folder: string; codeFile: string }[] = [];
+
+	files.forEach(file => {
+		const exported = require(path.join(LAMBDA_CODE_FOLDER, file));
+		const folder = path.dirname(file).split(path.sep).join('/');
+		const codeFile = path.basename(file, `.lambda-code.${extension}`);
+
+		Object.values(exported)
+			.filter((value: any) => registry.includes(value))
+			.forEach((value: any) => loaded.push({ value, folder, codeFile }));
+	});
+
+	return loaded;
+}
+
+/**
+ * Convert an Express path to an API Gateway resource path.
+ *
+ * E.g. From:
+ * /items/:id
+ *
+ * To:
+ * items/{id}
+ *
+ * @param fullPath
+ * @returns
+ */
+export const toApiGatewayPath = (fullPath: string) => fullPath
+	.replace(/^\/+/, '')
+	.replace(/:(\w+)/g, '{$1}');
@@ -1,6 +1,27 @@
 import 'reflect-metadata';
 
-type HttpMethod = "get" | "post" | "put" | "delete" | "patch" | "all";
+import type { IMiddleware } from '../lib/stacks/lambda/middleware/middleware.pipeline';
+
+export type HttpMethod = "get" | "post" | "put" | "delete" | "patch" | "all";
+
+export type RequestPart = 'body' | 'query' | 'params';
+
+export interface IResponseDefinition {
+	status: number;
+	description: string;
+	schema?: object;
+}
+
+export interface IRouteDefinition {
+	methodName: string;
+	httpMethod: HttpMethod;
+	// Express-style path, e.g. /items/:id
+	fullPath: string;
+	// Public routes don't go through the Cognito authorizer.
+	isPublic: boolean;
+	// Values of the "custom:userType" claim that may use the route. Empty means any signed in user.
+	userTypes: string[];
+}
 
 function createRoute(route: string) {
 	return function (method: HttpMethod) {
@@ -18,6 +39,96 @@ export const Put = (route: string) => createRoute(route)('put');
 export const Patch = (route: string) => createRoute(route)('patch');
 export const Delete = (route: string) => createRoute(route)('delete');
 
+// Decorators for the authorizer
+export const Public = () => (target: any, propertyKey: string) => {
+	Reflect.defineMetadata('isPublic', true, target, propertyKey);
+};
+export const UserTypes = (...userTypes: string[]) => (target: any, propertyKey: string) => {
+	Reflect.defineMetadata('userTypes', userTypes, target, propertyKey);
+};
+
+/**
+ * Get the authorization of a method from @Public and @UserTypes.
+ *
+ * @param target - The prototype of the controller.
+ * @param propertyKey
+ * @returns
+ */
+export const getRouteAuthorization = (target: any, propertyKey: string): Pick<IRouteDefinition, 'isPublic' | 'userTypes'> => ({
+	isPublic: !!Reflect.getMetadata('isPublic', target, propertyKey),
+	userTypes: Reflect.getMetadata('userTypes', target, propertyKey) || []
+});
+
+// Decorators for the request validation, these take a JSON Schema.
+function createValidation(part: RequestPart) {
+	return (schema: object) => (target: any, propertyKey: string) => {
+		Reflect.defineMetadata(`schema:${part}`, schema, target, propertyKey);
+	};
+}
+
+export const Body = createValidation('body');
+export const Query = createValidation('query');
+export const Params = createValidation('params');
+
+/**
+ * Get the JSON Schemas that were registered on a method through @Body, @Query and @Params.
+ *
+ * @param target - The prototype of the controller.
+ * @param propertyKey
+ * @returns
+ */
+export const getValidationSchemas = (target: any, propertyKey: string): Partial<Record<RequestPart, object>> => {
+	const schemas: Partial<Record<RequestPart, object>> = {};
+
+	(['body', 'query', 'params'] as RequestPart[]).forEach(part => {
+		const schema = Reflect.getMetadata(`schema:${part}`, target, propertyKey);
+		if (schema) schemas[part] = schema;
+	});
+
+	return schemas;
+}
+
+// Decorator for the middlewares of a controller or a single method, e.g. @Use(timing()). These run inside the global middlewares.
+export const Use = (...middlewares: IMiddleware[]) => (target: any, propertyKey?: string) => {
+	const current: IMiddleware[] = (propertyKey ? Reflect.getMetadata('middleware', target, propertyKey) : Reflect.getMetadata('middleware', target)) || [];
+	// Decorators are applied from the bottom up, so this keeps the order in which they are written.
+	const middleware = [...middlewares, ...current];
+
+	if (propertyKey) Reflect.defineMetadata('middleware', middleware, target, propertyKey);
+	else Reflect.defineMetadata('middleware', middleware, target);
+};
+
+/**
+ * Get the middlewares that were registered through @Use, those of the controller before those of the method.
+ *
+ * @param target - The prototype of the controller.
+ * @param propertyKey
+ * @returns
+ */
+export const getMiddleware = (target: any, propertyKey: string): IMiddleware[] => {
+	return [
+		...(Reflect.getMetadata('middleware', target.constructor) || []),
+		...(Reflect.getMetadata('middleware', target, propertyKey) || [])
+	];
+}
+
+// Decorator for documenting the responses of a method, used for the OpenAPI document.
+export const ApiResponse = (status: number, description: string, schema?: object) => (target: any, propertyKey: string) => {
+	const responses: IResponseDefinition[] = Reflect.getMetadata('responses', target, propertyKey) || [];
+	Reflect.defineMetadata('responses', [{ status, description, schema }, ...responses], target, propertyKey);
+};
+
+/**
+ * Get the responses that were registered on a method through @ApiResponse.
+ *
+ * @param target - The prototype of the controller.
+ * @param propertyKey
+ * @returns
+ */
+export const getResponses = (target: any, propertyKey: string): IResponseDefinition[] => {
+	return Reflect.getMetadata('responses', target, propertyKey) || [];
+}
+
 // Decorator for classes
 export const controllers: Function[] = [];
 export const Controller = (basePath: string): ClassDecorator => {
@@ -25,4 +136,134 @@ export const Controller = (basePath: string): ClassDecorator => {
 		Reflect.defineMetadata('basePath', basePath, target);
 		controllers.push(target);
 	};
-}
\ No newline at end of file
+}
+
+/**
+ * Read the routes that were registered on a controller through the method decorators.
+ *
+ * This is used by both the local server and the CDK app, so that the local routes and the deployed routes stay the same.
+ *
+ * @param controller
+ * @returns
+ */
+export const getControllerRoutes = (controller: Function): IRouteDefinition[] => {
+	const base: string = Reflect.getMetadata('basePath', controller) || '';
+	const prototype = controller.prototype;
+	const methodNames = Object.getOwnPropertyNames(prototype).filter(name => name !== 'constructor');
+
+	const routes: IRouteDefinition[] = [];
+	methodNames.forEach(methodName => {
+		const route: string = Reflect.getMetadata('route', prototype, methodName);
+		const httpMethod: HttpMethod = Reflect.getMetadata('method', prototype, methodName)?.toLowerCase();
+		const fullPath = `/${[base, route].filter(Boolean).join('/')}`;
+
+		const { isPublic, userTypes } = getRouteAuthorization(prototype, methodName);
+
+		if (fullPath && httpMethod) routes.push({ methodName, httpMethod, fullPath, isPublic, userTypes });
+	});
+
+	return routes;
+}
+
+export type StreamEventName = 'INSERT' | 'MODIFY' | 'REMOVE';
+
+// A key value, or { prefix } for all the values that begin with it.
+export type StreamKeyFilter = string | { prefix: string };
+
+export interface IStreamHandlerOptions {
+	// The kinds of change that invoke the handler, all of them when not set.
+	eventName?: StreamEventName[];
+	// Only the changes of the items with these keys.
+	pk?: StreamKeyFilter;
+	sk?: StreamKeyFilter;
+	// Max number of records per invocation.
+	batchSize?: number;
+	// Number of times a failed batch is retried before it is skipped.
+	retryAttempts?: number;
+}
+
+export const STREAM_HANDLER_DEFAULTS = {
+	batchSize: 100,
+	retryAttempts: 2
+};
+
+// Decorator for classes that handle the changes of the table stream, through their "handler" method.
+export const streamHandlers: Function[] = [];
+export const StreamHandler = (options: IStreamHandlerOptions = {}): ClassDecorator => {
+	return (target) => {
+		Reflect.defineMetadata('streamHandler', options, target);
+		streamHandlers.push(target);
+	};
+}
+
+/**
+ * Read the options that were registered on a stream handler through @StreamHandler.
+ *
+ * Used by both the local server and the CDK app, so that the same changes invoke the handler locally and when deployed.
+ *
+ * @param streamHandler
+ * @returns
+ */
+export const getStreamHandlerOptions = (streamHandler: Function): IStreamHandlerOptions => {
+	return Reflect.getMetadata('streamHandler', streamHandler) || {};
+}
+
+export interface IQueueOptions {
+	// Max number of messages per invocation.
+	batchSize?: number;
+	// Seconds that a received message stays hidden from the other consumers, 6 times the timeout of the function when not set.
+	visibilityTimeout?: number;
+	// Number of receives before a message is moved to the dead-letter queue.
+	maxReceiveCount?: number;
+}
+
+export interface IQueueDefinition {
+	// Name of the queue without the stage and project, e.g. "item-imports".
+	name: string;
+	options: IQueueOptions;
+}
+
+export const QUEUE_DEFAULTS = {
+	batchSize: 10,
+	maxReceiveCount: 3,
+	// Times the timeout of the function, which is what AWS recommends for an event source mapping.
+	visibilityTimeoutFactor: 6
+};
+
+// Decorator for classes that handle the messages of a queue, through their "handler" method.
+export const queueHandlers: Function[] = [];
+export const Queue = (name: string, options: IQueueOptions = {}): ClassDecorator => {
+	return (target) => {
+		Reflect.defineMetadata('queue', { name, options }, target);
+		queueHandlers.push(target);
+	};
+}
+
+/**
+ * Read the queue that was registered on a queue handler through @Queue.
+ *
+ * @param queueHandler
+ * @returns
+ */
+export const getQueueDefinition = (queueHandler: Function): IQueueDefinition => {
+	return Reflect.getMetadata('queue', queueHandler);
+}
+
+// Decorator for classes that run on a schedule, through their "handler" method, e.g. @Schedule('rate(5 minutes)') or @Schedule('cron(0 6 * * ? *)').
+export const scheduledHandlers: Function[] = [];
+export const Schedule = (expression: string): ClassDecorator => {
+	return (target) => {
+		Reflect.defineMetadata('schedule', expression, target);
+		scheduledHandlers.push(target);
+	};
+}
+
+/**
+ * Read the schedule expression that was registered on a scheduled handler through @Schedule.
+ *
+ * @param scheduledHandler
+ * @returns
+ */
+export const getScheduleExpression = (scheduledHandler: Function): string => {
+	return Reflect.getMetadata('schedule', scheduledHandler);
+}
@@ -0,0 +1,223 @@
+/**
+ * Converts the DynamoDB-JSON of the console and S3 exports back to plain values, and plain values to DynamoDB-JSON for the exports.
+ *
+ * E.g. From:
+ * { "tags": { "L": [{ "S": "John" }, { "M": { "age": { "N": "3" } } }] } }
+ *
+ * To:
+ * { "tags": ["John", { "age": 3 }] }
+ */
+
+export type DynamoDbType = 'S' | 'N' | 'BOOL' | 'NULL' | 'M' | 'L' | 'SS' | 'NS' | 'BS' | 'B';
+
+const DYNAMODB_TYPES: DynamoDbType[] = ['S', 'N', 'BOOL', 'NULL', 'M', 'L', 'SS', 'NS', 'BS', 'B'];
+
+/**
+ * Check whether a value is a single DynamoDB attribute value, e.g. { "S": "John" }.
+ *
+ * @param value
+ * @returns
+ */
+export const isAttributeValue = (value: any): boolean => {
+	if (!isPlainObject(value)) return false;
+
+	const keys = Object.keys(value);
+	if (keys.length !== 1 || !DYNAMODB_TYPES.includes(keys[0] as DynamoDbType)) return false;
+
+	const content = value[keys[0]];
+	switch (keys[0] as DynamoDbType) {
+		case 'S': case 'N': case 'B': return typeof content === 'string';
+		case 'BOOL': case 'NULL': return typeof content === 'boolean';
+		case 'M': return isPlainObject(content);
+		default: return Array.isArray(content);
+	}
+}
+
+/**
+ * Convert a DynamoDB attribute value, and everything nested in it, to a plain value.
+ *
+ * Sets are returned as a Set, which the DocumentClient writes back as a set. Binary values are returned as a Buffer.
+ *
+ * @param attributeValue
+ * @returns
+ */
+export const unmarshallValue = (attributeValue: Record<string, any>): any => {
+	const [type] = Object.keys(attributeValue) as DynamoDbType[];
+	const content = attributeValue[type];
+
+	switch (type) {
+		case 'S': return content;
+		case 'N': return Number(content);
+		case 'BOOL': return content;
+		case 'NULL': return null;
+		case 'B': return Buffer.from(content, 'base64');
+		case 'M': return unmarshallMap(content);
+		case 'L': return content.map((value: any) => unmarshallValue(value));
+		case 'SS': return new Set(content);
+		case 'NS': return new Set(content.map(Number));
+		case 'BS': return new Set(content.map((value: string) => Buffer.from(value, 'base64')));
+		default: throw new Error(`Unknown DynamoDB type: ${JSON.stringify(attributeValue)}`);
+	}
+}
+
+/**
+ * Convert a record that may be in DynamoDB-JSON to a plain item.
+ *
+ * Supports the S3 export format ({ "Item": { ... } }), DynamoDB-JSON ({ "name": { "S": "John" } }) and plain items, which are returned as is.
+ *
+ * @param record
+ * @returns
+ */
+export const unmarshallRecord = (record: Record<string, any>): Record<string, any> => {
+	const keys = Object.keys(record);
+	if (keys.length === 1 && keys[0] === 'Item' && isPlainObject(record.Item)) record = record.Item;
+
+	const values = Object.values(record);
+	return values.length && values.every(isAttributeValue) ? unmarshallMap(record) : record;
+}
+
+/**
+ * Get the DynamoDB type of a plain value, as returned by the DocumentClient.
+ *
+ * @param value
+ * @returns
+ */
+export const getDynamoDbType = (value: any): DynamoDbType => {
+	if (value === null || value === undefined) return 'NULL';
+	if (typeof value === 'string') return 'S';
+	if (typeof value === 'number' || typeof value === 'bigint') return 'N';
+	if (typeof value === 'boolean') return 'BOOL';
+	if (value instanceof Uint8Array) return 'B';
+	if (Array.isArray(value)) return 'L';
+
+	if (value instanceof Set) {
+		const [first] = value;
+		if (typeof first === 'number' || typeof first === 'bigint') return 'NS';
+		if (first instanceof Uint8Array) return 'BS';
+		return 'SS';
+	}
+
+	return 'M';
+}
+
+/**
+ * Convert a plain value, and everything nested in it, to a DynamoDB attribute value.
+ *
+ * @param value
+ * @returns
+ */
+export const marshallValue = (value: any): Record<string, any> => {
+	const type = getDynamoDbType(value);
+
+	switch (type) {
+		case 'S': case 'BOOL': return { [type]: value };
+		case 'N': return { N: String(value) };
+		case 'NULL': return { NULL: true };
+		case 'B': return { B: Buffer.from(value).toString('base64') };
+		case 'L': return { L: value.map(marshallValue) };
+		case 'SS': return { SS: [...value] };
+		case 'NS': return { NS: [...value].map(String) };
+		case 'BS': return { BS: [...value].map((b: Uint8Array) => Buffer.from(b).toString('base64')) };
+		default: return { M: marshallRecord(value) };
+	}
+}
+
+/**
+ * Convert a plain item to DynamoDB-JSON, e.g. { "name": { "S": "John" } }.
+ *
+ * @param item
+ * @returns
+ */
+export const marshallRecord = (item: Record<string, any>) => {
+	const result: Record<string, any> = {};
+	for (const key in item)
+		if (item[key] !== undefined) result[key] = marshallValue(item[key]);
+
+	return result;
+}
+
+/**
+ * Parse a single CSV column value.
+ *
+ * The console exports nested values as stringified DynamoDB-JSON, e.g. [{"S":"John"},{"S":"Jane"}], which is converted at any depth.
+ * Without a type hint, JSON values (numbers, booleans, objects and arrays) are parsed and everything else is kept as a string.
+ *
+ * @param value
+ * @param typeHint - The type of the column, e.g. "S" to keep a zero-padded or numeric string as a string.
+ * @returns
+ */
+export const parseCsvValue = (value: string, typeHint?: DynamoDbType): any => {
+	switch (typeHint) {
+		case 'S': return value;
+		case 'N': return Number(value);
+		case 'BOOL': return value.toLowerCase() === 'true';
+		case 'NULL': return null;
+		case 'B': return Buffer.from(value, 'base64');
+		case 'SS': return new Set(parseJson(value).map(unmarshallLoose));
+		case 'NS': return new Set(parseJson(value).map((n: any) => Number(unmarshallLoose(n))));
+		case 'BS': return new Set(parseJson(value).map((b: any) => Buffer.from(unmarshallLoose(b), 'base64')));
+		case 'M': case 'L': return unmarshallLoose(parseJson(value));
+	}
+
+	try {
+		const parsed = JSON.parse(value);
+		// Numbers not starting with a "0" would still be parsed, e,g, '123456789' would end up as 123456789.
+		return typeof parsed === 'object' ? unmarshallLoose(parsed) : parsed;
+	} catch (error) {
+		// If it could not be parsed, then use as is.
+		return value;
+	}
+}
+
+/**
+ * Get the name and type hint of a CSV column, e.g. "zipCode (S)" as exported by the console.
+ *
+ * @param header
+ * @returns
+ */
+export const parseCsvHeader = (header: string): { name: string; typeHint?: DynamoDbType } => {
+	const match = header.match(/^(.*\S)\s*\((\w+)\)$/);
+	if (match && DYNAMODB_TYPES.includes(match[2] as DynamoDbType))
+		return { name: match[1], typeHint: match[2] as DynamoDbType };
+
+	return { name: header };
+}
+
+const unmarshallMap = (map: Record<string, any>) => {
+	const result: Record<string, any> = {};
+	for (const key in map) result[key] = unmarshallValue(map[key]);
+
+	return result;
+}
+
+/**
+ * Unmarshall the attribute values found anywhere in a value, leaving plain values as they are.
+ *
+ * E.g. [{ "S": "John" }, { "firstName": { "S": "Jane" } }] becomes ["John", { "firstName": "Jane" }].
+ *
+ * @param value
+ * @returns
+ */
+const unmarshallLoose = (value: any): any => {
+	if (isAttributeValue(value)) return unmarshallValue(value);
+	if (Array.isArray(value)) return value.map(unmarshallLoose);
+
+	if (isPlainObject(value)) {
+		const result: Record<string, any> = {};
+		for (const key in value) result[key] = unmarshallLoose(value[key]);
+
+		return result;
+	}
+
+	return value;
+}
+
+const parseJson = (value: string) => {
+	try {
+		return JSON.parse(value);
+	} catch (error) {
+		throw new Error(`Expected a JSON value, got: ${value}`);
+	}
+}
+
+const isPlainObject = (value: any) => typeof value === 'object' && value !== null && !Array.isArray(value);
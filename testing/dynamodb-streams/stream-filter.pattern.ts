@@ -0,0 +1,59 @@
+import { IStreamHandlerOptions, StreamKeyFilter } from '../decorators';
+import { DATA_TABLE, IKeyAttribute, ITableDefinition } from '../../lib/stacks/data/data-table.definition';
+
+// A value, or { prefix } for the strings that begin with it.
+type FilterRule = string | number | { prefix: string };
+
+/**
+ * A Lambda event filter pattern, e.g. { "eventName": ["INSERT"], "dynamodb": { "Keys": { "SK": { "S": ["ITEM"] } } } }
+ */
+export interface IFilterPattern {
+	[key: string]: IFilterPattern | FilterRule[];
+}
+
+/**
+ * Build the event filter pattern of a stream handler.
+ *
+ * The CDK app sets it on the event source mapping and the local server applies it to the records itself, so that both pass the same records.
+ *
+ * @param options
+ * @param definition
+ * @returns - Undefined when every record passes.
+ */
+export const buildStreamFilterPattern = (options: IStreamHandlerOptions, definition: ITableDefinition = DATA_TABLE): IFilterPattern | undefined => {
+	const pattern: IFilterPattern = {};
+	const keys: IFilterPattern = {};
+
+	if (options.eventName?.length) pattern.eventName = [...options.eventName];
+	if (options.pk) keys[definition.partitionKey.name] = toKeyPattern(definition.partitionKey, options.pk);
+	if (options.sk && definition.sortKey) keys[definition.sortKey.name] = toKeyPattern(definition.sortKey, options.sk);
+
+	if (Object.keys(keys).length) pattern.dynamodb = { Keys: keys };
+
+	return Object.keys(pattern).length ? pattern : undefined;
+}
+
+/**
+ * Check a record against a filter pattern, for the rules that buildStreamFilterPattern uses.
+ *
+ * @param pattern
+ * @param value - E.g. a record of the stream.
+ * @returns
+ */
+export const matchesFilterPattern = (pattern: IFilterPattern | undefined, value: any): boolean => {
+	if (!pattern) return true;
+
+	return Object.entries(pattern).every(([name, rules]) => {
+		const field = value?.[name];
+
+		if (!Array.isArray(rules)) return !!field && typeof field === 'object' && matchesFilterPattern(rules, field);
+
+		return rules.some(rule => typeof rule === 'object'
+			? typeof field === 'string' && field.startsWith(rule.prefix)
+			: String(field) === String(rule));
+	});
+}
+
+const toKeyPattern = (attribute: IKeyAttribute, filter: StreamKeyFilter): IFilterPattern => ({
+	[attribute.type]: [typeof filter === 'string' ? filter : { prefix: filter.prefix }]
+});
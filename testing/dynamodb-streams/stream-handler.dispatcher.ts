@@ -0,0 +1,69 @@
+import { DynamoDBRecord, DynamoDBStreamEvent } from 'aws-lambda';
+
+import { IReloadable } from '../app.factory';
+import { ILoadedStreamHandler, loadStreamHandlers } from '../controller.loader';
+import { STREAM_HANDLER_DEFAULTS } from '../decorators';
+import { LambdaInvoker } from '../lambda-runtime/lambda.invoker';
+import { invokeHandler } from '../../lib/stacks/lambda/helpers/lambda-handler.helper';
+import { buildStreamFilterPattern, matchesFilterPattern } from './stream-filter.pattern';
+
+/**
+ * Invokes the @StreamHandler functions with the records of the table stream that pass their filter, like their event source mappings do.
+ */
+export class StreamHandlerDispatcher implements IReloadable {
+	private streamHandlers: ILoadedStreamHandler[];
+
+	constructor(private extension: 'js' | 'ts', private invoker: LambdaInvoker) {
+		this.streamHandlers = loadStreamHandlers(extension);
+	}
+
+	get handlers() {
+		return this.streamHandlers;
+	}
+
+	/**
+	 * Load the stream handlers of the current lambda code, which replace the current ones once committed.
+	 *
+	 * ! The app unloads the lambda code on a reload, so call this after ILocalApp.prepareReload().
+	 */
+	prepareReload() {
+		const streamHandlers = loadStreamHandlers(this.extension);
+
+		return {
+			commit: () => {
+				this.streamHandlers = streamHandlers;
+			}
+		};
+	}
+
+	/**
+	 * Invoke every stream handler with the records that pass its filter, in batches of its batch size.
+	 *
+	 * A failed batch is retried, and then skipped, so that the next records are still handled.
+	 *
+	 * @param records
+	 */
+	async dispatch(records: DynamoDBRecord[]) {
+		for (const { streamHandler, folder, codeFile, options } of this.streamHandlers) {
+			const pattern = buildStreamFilterPattern(options);
+			const matched = records.filter(record => matchesFilterPattern(pattern, record));
+			const batchSize = options.batchSize || STREAM_HANDLER_DEFAULTS.batchSize;
+			const retryAttempts = options.retryAttempts ?? STREAM_HANDLER_DEFAULTS.retryAttempts;
+
+			for (let i = 0; i < matched.length; i += batchSize) {
+				const event: DynamoDBStreamEvent = { Records: matched.slice(i, i + batchSize) };
+
+				for (let attempt = 0; attempt <= retryAttempts; attempt++) {
+					try {
+						const instance = new (streamHandler as any)();
+						await this.invoker.invoke(folder, codeFile, event, context => invokeHandler(instance, event, context));
+						break;
+					} catch (error) {
+						const isLastAttempt = attempt === retryAttempts;
+						console.error(`${streamHandler.name} failed${isLastAttempt ? `, skipping ${event.Records.length} record(s)` : ', retrying'}:`, error);
+					}
+				}
+			}
+		}
+	}
+}
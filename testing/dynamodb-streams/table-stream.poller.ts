@@ -0,0 +1,177 @@
+import { DescribeTableCommand, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+	DescribeStreamCommand,
+	DynamoDBStreamsClient,
+	DynamoDBStreamsClientConfig,
+	GetRecordsCommand,
+	GetShardIteratorCommand,
+	_Record
+} from '@aws-sdk/client-dynamodb-streams';
+import { DynamoDBRecord } from 'aws-lambda';
+
+import { getLocalClientConfig } from '../../lib/stacks/lambda/services/dynamodb-client.factory';
+
+const DEFAULT_INTERVAL = 1000;
+
+/**
+ * Polls the stream of the local table, like the event source mapping of a stream handler does, and passes the new records on.
+ *
+ * Works against the DynamoDB Local container and the in-memory DynamoDB, which both implement the DynamoDB Streams API.
+ */
+export class TableStreamPoller {
+	private client: DynamoDBClient;
+	private streamsClient: DynamoDBStreamsClient;
+	private streamArn?: string;
+	// The iterator of every shard that is still open, by shard id.
+	private iterators = new Map<string, string>();
+	private closedShards = new Set<string>();
+	private timer?: NodeJS.Timeout;
+	private isMissingStreamReported = false;
+
+	/**
+	 * @param tableName
+	 * @param onRecords - Called with the records of every poll that found any, in the order of the stream.
+	 * @param interval - Milliseconds between polls.
+	 */
+	constructor(private tableName: string, private onRecords: (records: DynamoDBRecord[]) => Promise<void>, private interval = DEFAULT_INTERVAL) {
+		const config = getLocalClientConfig();
+		this.client = new DynamoDBClient(config);
+		this.streamsClient = new DynamoDBStreamsClient(config as DynamoDBStreamsClientConfig);
+	}
+
+	/**
+	 * Start polling, from the changes that are made after this call.
+	 */
+	async start() {
+		await this.skipToLatest();
+		this.schedule();
+	}
+
+	stop() {
+		clearTimeout(this.timer);
+		this.timer = undefined;
+	}
+
+	/**
+	 * Ignore the records that are in the stream so far, e.g. the ones of seeding the table.
+	 */
+	async skipToLatest() {
+		await this.reset(await this.getStreamArn());
+	}
+
+	/**
+	 * Read the new records of every shard and pass them on.
+	 *
+	 * @returns - The number of records.
+	 */
+	async poll() {
+		// The stream is replaced when the table is recreated.
+		const streamArn = await this.getStreamArn();
+		if (streamArn !== this.streamArn) await this.reset(streamArn);
+		else await this.readShards('TRIM_HORIZON');
+
+		const records: DynamoDBRecord[] = [];
+
+		for (const [shardId, iterator] of this.iterators) {
+			const response = await this.streamsClient.send(new GetRecordsCommand({ ShardIterator: iterator }));
+			records.push(...(response.Records || []).map(record => this.toLambdaRecord(record)));
+
+			if (response.NextShardIterator) this.iterators.set(shardId, response.NextShardIterator);
+			else {
+				this.iterators.delete(shardId);
+				this.closedShards.add(shardId);
+			}
+		}
+
+		if (records.length) await this.onRecords(records);
+
+		return records.length;
+	}
+
+	private schedule() {
+		this.timer = setTimeout(async () => {
+			try {
+				await this.poll();
+			} catch (error: any) {
+				console.error(`Polling the stream of ${this.tableName} failed:`, error.message);
+				// Start again from the current position of the stream, e.g. after an iterator expired.
+				this.streamArn = undefined;
+			}
+
+			if (this.timer) this.schedule();
+		}, this.interval);
+	}
+
+	/**
+	 * Forget the iterators and start from the current end of a stream.
+	 *
+	 * @param streamArn
+	 */
+	private async reset(streamArn?: string) {
+		this.streamArn = streamArn;
+		this.iterators.clear();
+		this.closedShards.clear();
+
+		await this.readShards('LATEST');
+	}
+
+	/**
+	 * Get an iterator for every shard that doesn't have one yet.
+	 *
+	 * @param iteratorType - LATEST for the shards that exist when the polling starts, TRIM_HORIZON for the shards that are opened later.
+	 */
+	private async readShards(iteratorType: 'LATEST' | 'TRIM_HORIZON') {
+		if (!this.streamArn) return;
+
+		const { StreamDescription } = await this.streamsClient.send(new DescribeStreamCommand({ StreamArn: this.streamArn }));
+
+		for (const { ShardId, SequenceNumberRange } of StreamDescription?.Shards || []) {
+			if (!ShardId || this.iterators.has(ShardId) || this.closedShards.has(ShardId)) continue;
+
+			// A shard that was closed before the polling started doesn't get new records.
+			if (iteratorType === 'LATEST' && SequenceNumberRange?.EndingSequenceNumber) {
+				this.closedShards.add(ShardId);
+				continue;
+			}
+
+			const { ShardIterator } = await this.streamsClient.send(new GetShardIteratorCommand({
+				StreamArn: this.streamArn,
+				ShardId,
+				ShardIteratorType: iteratorType
+			}));
+
+			if (ShardIterator) this.iterators.set(ShardId, ShardIterator);
+		}
+	}
+
+	private async getStreamArn() {
+		const { Table } = await this.client.send(new DescribeTableCommand({ TableName: this.tableName }));
+
+		if (!Table?.LatestStreamArn && !this.isMissingStreamReported) {
+			console.warn(`The stream of ${this.tableName} isn't enabled, the stream handlers aren't invoked.`);
+			this.isMissingStreamReported = true;
+		}
+
+		return Table?.LatestStreamArn;
+	}
+
+	/**
+	 * Convert a record of the SDK to the format of the Lambda event, which has epoch seconds and base64 binary values.
+	 *
+	 * @param record
+	 * @returns
+	 */
+	private toLambdaRecord(record: _Record): DynamoDBRecord {
+		const json = JSON.parse(JSON.stringify(record, (key, value) => value instanceof Uint8Array ? Buffer.from(value).toString('base64') : value));
+		const creationDateTime = record.dynamodb?.ApproximateCreationDateTime;
+
+		return {
+			...json,
+			dynamodb: {
+				...json.dynamodb,
+				ApproximateCreationDateTime: creationDateTime ? Math.floor(new Date(creationDateTime).getTime() / 1000) : undefined
+			},
+			eventSourceARN: this.streamArn
+		};
+	}
+}
@@ -0,0 +1,241 @@
+import { BatchWriteCommand, DynamoDBDocumentClient, ScanCommand } from '@aws-sdk/lib-dynamodb';
+
+import fs from 'fs';
+import path from 'path';
+import { parse } from 'csv-parse/sync';
+
+import { ENTITY_TYPE, ENTITY_TYPES } from '../lib/stacks/lambda/entities/entity.registry';
+import { parseCsvHeader, parseCsvValue, unmarshallRecord } from './dynamodb-json.parser';
+import { TESTING_FOLDER } from './paths';
+
+// Data files are read from the source folder, the TS factory modules are loaded from the folder of this (compiled) file.
+const DATA_FIXTURES_FOLDER = path.join(TESTING_FOLDER, 'fixtures');
+const MODULE_FIXTURES_FOLDER = path.join(__dirname, 'fixtures');
+const MODULE_EXTENSION = path.extname(__filename);
+
+// DynamoDB's limit for a single BatchWriteItem request.
+const BATCH_SIZE = 25;
+const MAX_ATTEMPTS = 5;
+
+type WriteRequest = { PutRequest: { Item: Record<string, any> } } | { DeleteRequest: { Key: Record<string, any> } };
+
+interface CsvRow {
+	[key: string]: string;
+}
+
+/**
+ * A TS factory module, e.g. testing/fixtures/item.fixture.ts
+ */
+export interface IFixtureModule {
+	entity: ENTITY_TYPE;
+	items: () => Record<string, any>[] | Promise<Record<string, any>[]>;
+}
+
+export interface IFixtureFolders {
+	// The CSV, JSON and NDJSON files.
+	data: string;
+	// The TS factory modules, none when not set.
+	modules?: string;
+}
+
+export interface IFixture {
+	file: string;
+	entity: ENTITY_TYPE;
+	items: Record<string, any>[];
+}
+
+/**
+ * Loads the seed data from the fixtures folder and writes it to the table.
+ *
+ * Every file seeds a single entity:
+ * - CSV, JSON and NDJSON files declare it with the first part of their name, e.g. "user.import-data.csv" seeds USER items.
+ * - TS factory modules ("*.fixture.ts") export the entity and an items() function.
+ *
+ * Items without a PK and SK get the keys of a main item, e.g. PK = USER#<id> & SK = USER, so seeding the same fixtures again replaces the items instead of duplicating them.
+ */
+export class FixtureService {
+	constructor(
+		private client: DynamoDBDocumentClient,
+		private tableName: string,
+		// E.g. the folder of an export, to import it again.
+		private folders: IFixtureFolders = { data: DATA_FIXTURES_FOLDER, modules: MODULE_FIXTURES_FOLDER }
+	) { }
+
+	/**
+	 * Write the items of the fixtures to the table.
+	 *
+	 * @param entities - Only seed the fixtures of these entities, all of them when empty.
+	 */
+	async seed(entities: string[] = []) {
+		const fixtures = (await this.loadFixtures())
+			.filter(({ entity }) => !entities.length || entities.some(e => e.toUpperCase() === entity));
+
+		console.group(`Seeding DynamoDB table ${this.tableName} from ${fixtures.length} fixture(s).`);
+
+		// A batch can't contain the same key twice, so the last fixture with a key wins.
+		const items = new Map<string, Record<string, any>>();
+		fixtures.forEach(({ file, items: fixtureItems }) => {
+			console.log(`${file}: ${fixtureItems.length} items.`);
+			fixtureItems.forEach(item => items.set(`${item.PK}|${item.SK}`, item));
+		});
+
+		await this.writeItems([...items.values()]);
+
+		console.log(`Seeded ${items.size} items.`);
+		console.groupEnd();
+	}
+
+	/**
+	 * Write items to the table in batches, replacing the items with the same key.
+	 *
+	 * ! A batch can't contain the same key twice.
+	 *
+	 * @param items
+	 */
+	async writeItems(items: Record<string, any>[]) {
+		await this.batchWrite(items.map(Item => ({ PutRequest: { Item } })));
+	}
+
+	/**
+	 * Delete every item of the table.
+	 */
+	async truncate() {
+		console.group(`Truncating DynamoDB table ${this.tableName}.`);
+
+		const keys: Record<string, any>[] = [];
+		const cmd = new ScanCommand({
+			TableName: this.tableName,
+			ProjectionExpression: '#pk, #sk',
+			ExpressionAttributeNames: { '#pk': 'PK', '#sk': 'SK' }
+		});
+
+		do {
+			const results = await this.client.send(cmd);
+			if (results.Items?.length) keys.push(...results.Items);
+
+			cmd.input.ExclusiveStartKey = results.LastEvaluatedKey;
+		} while (cmd.input.ExclusiveStartKey);
+
+		await this.batchWrite(keys.map(Key => ({ DeleteRequest: { Key } })));
+
+		console.log(`Deleted ${keys.length} items.`);
+		console.groupEnd();
+	}
+
+	/**
+	 * Read every fixture in the fixtures folders.
+	 *
+	 * @returns
+	 */
+	async loadFixtures(): Promise<IFixture[]> {
+		const fixtures: IFixture[] = [];
+
+		const { data, modules } = this.folders;
+
+		this.listFiles(data, /\.(csv|json|ndjson)$/).forEach(file => {
+			const entity = this.toEntity(path.basename(file).split('.')[0], file);
+			const records = this.readDataFile(path.join(data, file));
+
+			fixtures.push({ file, entity, items: records.map((record, i) => this.withKeys(record, entity, `${file}[${i}]`)) });
+		});
+
+		for (const file of this.listFiles(modules, new RegExp(`\\.fixture\\${MODULE_EXTENSION}$`))) {
+			const fixtureModule: IFixtureModule = require(path.join(modules!, file));
+			const entity = this.toEntity(fixtureModule.entity, file);
+			const records = await fixtureModule.items();
+
+			fixtures.push({ file, entity, items: records.map((record, i) => this.withKeys(record, entity, `${file}[${i}]`)) });
+		}
+
+		return fixtures;
+	}
+
+	/**
+	 * Write the requests in batches, retrying the unprocessed items with an exponential backoff.
+	 *
+	 * @param requests
+	 */
+	private async batchWrite(requests: WriteRequest[]) {
+		for (let i = 0; i < requests.length; i += BATCH_SIZE) {
+			let pending = requests.slice(i, i + BATCH_SIZE);
+
+			for (let attempt = 1; pending.length; attempt++) {
+				if (attempt > MAX_ATTEMPTS)
+					throw new Error(`${pending.length} items were still unprocessed after ${MAX_ATTEMPTS} attempts.`);
+				if (attempt > 1)
+					await new Promise(resolve => setTimeout(resolve, 50 * 2 ** attempt));
+
+				const results = await this.client.send(new BatchWriteCommand({
+					RequestItems: { [this.tableName]: pending }
+				}));
+
+				pending = (results.UnprocessedItems?.[this.tableName] || []) as WriteRequest[];
+			}
+		}
+	}
+
+	/**
+	 * Read the records of a CSV, JSON (array) or NDJSON (an object per line) file.
+	 *
+	 * @param filePath
+	 * @returns
+	 */
+	private readDataFile(filePath: string): Record<string, any>[] {
+		const fileContent = fs.readFileSync(filePath, 'utf-8');
+
+		if (filePath.endsWith('.json')) return JSON.parse(fileContent).map(unmarshallRecord);
+
+		if (filePath.endsWith('.ndjson'))
+			return fileContent.split(/\r?\n/).filter(line => line.trim()).map(line => unmarshallRecord(JSON.parse(line)));
+
+		const records: CsvRow[] = parse(fileContent, {
+			columns: true,
+			trim: true,
+			skip_empty_lines: true,
+		});
+
+		return records.map(record => {
+			const item: Record<string, any> = {};
+
+			for (const header in record) {
+				const { name, typeHint } = parseCsvHeader(header);
+				const value = record[header];
+
+				// Remove unwanted properties caused by the CSV format
+				if (!value.length || (value === 'null' && !typeHint)) continue;
+
+				item[name] = parseCsvValue(value, typeHint);
+			}
+
+			return item;
+		});
+	}
+
+	/**
+	 * Add the keys of a main item when the record doesn't have them.
+	 *
+	 * @param record
+	 * @param entity
+	 * @param source - Used in the error message.
+	 * @returns
+	 */
+	private withKeys(record: Record<string, any>, entity: ENTITY_TYPE, source: string) {
+		if (record.PK && record.SK) return record;
+
+		if (!record.id) throw new Error(`Fixture ${source} needs either a PK and SK, or an id.`);
+		return { PK: `${entity}#${record.id}`, SK: entity, ...record };
+	}
+
+	private toEntity(value: string, file: string): ENTITY_TYPE {
+		const entity = value?.toUpperCase() as ENTITY_TYPE;
+		if (!ENTITY_TYPES.includes(entity))
+			throw new Error(`Fixture ${file} is for an unknown entity: ${value}. Register it in entity.registry.ts.`);
+
+		return entity;
+	}
+
+	private listFiles(folder: string | undefined, pattern: RegExp) {
+		if (!folder || !fs.existsSync(folder)) return [];
+		return fs.readdirSync(folder).filter(file => pattern.test(file)).sort();
+	}
+}
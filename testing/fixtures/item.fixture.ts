@@ -0,0 +1,21 @@
+import { IItem } from '../../lib/stacks/lambda/interfaces/IItem';
+import { IFixtureModule } from '../fixture.service';
+
+const NAMES = ['Chair', 'Table', 'Lamp'];
+
+/**
+ * Example of a TS factory fixture. The ids are fixed, so that seeding again replaces the same items.
+ */
+const fixture: IFixtureModule = {
+	entity: 'ITEM',
+	items: () => NAMES.map((name, i): IItem => ({
+		id: `00000000-0000-4000-8000-00000000000${i + 1}`,
+		name,
+		description: `A ${name.toLowerCase()} from the fixtures.`,
+		createdOn: '2024-01-01T00:00:00.000Z',
+		lastModifiedOn: '2024-01-01T00:00:00.000Z',
+		version: 1
+	}))
+};
+
+export const { entity, items } = fixture;
@@ -0,0 +1,78 @@
+/**
+ * Helpers for the DynamoDB attribute values of the wire format, e.g. { "S": "John" } or { "N": "3" }.
+ */
+
+export type AttributeValue = Record<string, any>;
+export type AttributeMap = Record<string, AttributeValue>;
+
+export const getType = (value: AttributeValue) => Object.keys(value)[0];
+
+/**
+ * Check whether two attribute values are equal, the same way the "=" operator does.
+ *
+ * @param a
+ * @param b
+ * @returns
+ */
+export const isEqual = (a: AttributeValue | undefined, b: AttributeValue | undefined): boolean => {
+	if (!a || !b) return false;
+
+	const type = getType(a);
+	if (type !== getType(b)) return false;
+
+	switch (type) {
+		case 'N': return Number(a.N) === Number(b.N);
+		case 'SS': case 'BS': return a[type].length === b[type].length && a[type].every((v: string) => b[type].includes(v));
+		case 'NS': return a.NS.length === b.NS.length && a.NS.every((v: string) => b.NS.some((w: string) => Number(v) === Number(w)));
+		case 'L': return a.L.length === b.L.length && a.L.every((v: AttributeValue, i: number) => isEqual(v, b.L[i]));
+		case 'M': {
+			const keys = Object.keys(a.M);
+			return keys.length === Object.keys(b.M).length && keys.every(key => isEqual(a.M[key], b.M[key]));
+		}
+		default: return a[type] === b[type];
+	}
+}
+
+/**
+ * Compare two scalar attribute values of the same type, in the order DynamoDB sorts them.
+ *
+ * Returns undefined when the values can't be compared, e.g. a string and a number.
+ *
+ * @param a
+ * @param b
+ * @returns
+ */
+export const compare = (a: AttributeValue | undefined, b: AttributeValue | undefined): number | undefined => {
+	if (!a || !b) return undefined;
+
+	const type = getType(a);
+	if (type !== getType(b)) return undefined;
+
+	switch (type) {
+		case 'N': return Math.sign(Number(a.N) - Number(b.N));
+		// Strings are sorted by their UTF-8 bytes.
+		case 'S': return Buffer.compare(Buffer.from(a.S, 'utf-8'), Buffer.from(b.S, 'utf-8'));
+		case 'B': return Buffer.compare(Buffer.from(a.B, 'base64'), Buffer.from(b.B, 'base64'));
+		default: return undefined;
+	}
+}
+
+/**
+ * The result of the size() function.
+ *
+ * @param value
+ * @returns
+ */
+export const getSize = (value: AttributeValue): number | undefined => {
+	const type = getType(value);
+
+	switch (type) {
+		case 'S': return Buffer.byteLength(value.S, 'utf-8');
+		case 'B': return Buffer.from(value.B, 'base64').length;
+		case 'SS': case 'NS': case 'BS': case 'L': return value[type].length;
+		case 'M': return Object.keys(value.M).length;
+		default: return undefined;
+	}
+}
+
+export const clone = <T>(value: T): T => value === undefined ? value : JSON.parse(JSON.stringify(value));
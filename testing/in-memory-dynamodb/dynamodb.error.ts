@@ -0,0 +1,27 @@
+/**
+ * An error of the DynamoDB API, which the request handler sends back the same way DynamoDB does, so that the SDK throws the matching exception.
+ */
+export class DynamoDbError extends Error {
+	constructor(readonly type: string, message: string, readonly extensions: Record<string, any> = {}) {
+		super(message);
+		this.name = type;
+	}
+}
+
+export class ValidationException extends DynamoDbError {
+	constructor(message: string) {
+		super('ValidationException', message);
+	}
+}
+
+export class ResourceNotFoundException extends DynamoDbError {
+	constructor(message = 'Requested resource not found') {
+		super('ResourceNotFoundException', message);
+	}
+}
+
+export class ConditionalCheckFailedException extends DynamoDbError {
+	constructor(item?: Record<string, any>) {
+		super('ConditionalCheckFailedException', 'The conditional request failed', item ? { Item: item } : {});
+	}
+}
@@ -0,0 +1,254 @@
+import { AttributeMap, AttributeValue, clone, compare, getSize, getType, isEqual } from './attribute-value.helper';
+import { ValidationException } from './dynamodb.error';
+import { ConditionNode, IPathNode, IUpdateNode, OperandNode, PathElement } from './expression.parser';
+
+const SET_TYPES = ['SS', 'NS', 'BS'];
+
+/**
+ * Evaluate a condition, key condition or filter expression against an item. A missing item is treated as an item without attributes.
+ *
+ * @param item
+ * @param node
+ * @returns
+ */
+export const evaluateCondition = (item: AttributeMap | undefined, node: ConditionNode): boolean => {
+	switch (node.type) {
+		case 'and': return evaluateCondition(item, node.left) && evaluateCondition(item, node.right);
+		case 'or': return evaluateCondition(item, node.left) || evaluateCondition(item, node.right);
+		case 'not': return !evaluateCondition(item, node.condition);
+		case 'in': {
+			const value = evaluateOperand(item, node.operand);
+			return node.list.some(operand => isEqual(value, evaluateOperand(item, operand)));
+		}
+		case 'between': {
+			const value = evaluateOperand(item, node.operand);
+			const lower = compare(evaluateOperand(item, node.lower), value);
+			const upper = compare(value, evaluateOperand(item, node.upper));
+
+			return lower !== undefined && upper !== undefined && lower <= 0 && upper <= 0;
+		}
+		case 'comparison': {
+			const left = evaluateOperand(item, node.left);
+			const right = evaluateOperand(item, node.right);
+
+			if (node.operator === '=') return isEqual(left, right);
+			if (node.operator === '<>') return !isEqual(left, right);
+
+			const result = compare(left, right);
+			if (result === undefined) return false;
+
+			switch (node.operator) {
+				case '<': return result < 0;
+				case '<=': return result <= 0;
+				case '>': return result > 0;
+				default: return result >= 0;
+			}
+		}
+		case 'function': return evaluateFunction(item, node.name, node.args);
+	}
+}
+
+/**
+ * Get the value of an operand, which is undefined for a path that doesn't exist.
+ *
+ * @param item
+ * @param node
+ * @returns
+ */
+export const evaluateOperand = (item: AttributeMap | undefined, node: OperandNode): AttributeValue | undefined => {
+	switch (node.type) {
+		case 'path': return getPath(item, node.elements);
+		case 'value': return node.value;
+		case 'arithmetic': {
+			const left = evaluateOperand(item, node.left);
+			const right = evaluateOperand(item, node.right);
+			if (!left?.N || !right?.N) throw new ValidationException('An operand in the update expression has an incorrect data type');
+
+			return { N: String(node.operator === '+' ? Number(left.N) + Number(right.N) : Number(left.N) - Number(right.N)) };
+		}
+		case 'function': {
+			if (node.name === 'size') {
+				const value = evaluateOperand(item, node.args[0]);
+				const size = value && getSize(value);
+
+				return size === undefined ? undefined : { N: String(size) };
+			}
+
+			if (node.name === 'if_not_exists') return evaluateOperand(item, node.args[0]) ?? evaluateOperand(item, node.args[1]);
+
+			// list_append
+			const [first, second] = node.args.map(arg => evaluateOperand(item, arg));
+			if (!first?.L || !second?.L) throw new ValidationException('An operand in the update expression has an incorrect data type');
+
+			return { L: [...first.L, ...second.L] };
+		}
+	}
+}
+
+/**
+ * Get a (nested) attribute, e.g. ["address", "lines", 0] for address.lines[0].
+ *
+ * @param item
+ * @param elements
+ * @returns
+ */
+export const getPath = (item: AttributeMap | undefined, elements: PathElement[]): AttributeValue | undefined => {
+	let value: AttributeValue | undefined = item?.[elements[0]];
+
+	for (const element of elements.slice(1))
+		value = typeof element === 'number' ? value?.L?.[element] : value?.M?.[element];
+
+	return value;
+}
+
+/**
+ * Apply an update expression, returning the updated copy of the item.
+ *
+ * All the values are evaluated against the item as it was before the update, the same as DynamoDB does.
+ *
+ * @param item
+ * @param update
+ * @param keyNames - The key attributes of the table, which can't be updated.
+ * @returns
+ */
+export const applyUpdate = (item: AttributeMap, update: IUpdateNode, keyNames: string[]): AttributeMap => {
+	[...update.set.map(({ path }) => path), ...update.remove, ...update.add.map(({ path }) => path), ...update.delete.map(({ path }) => path)]
+		.forEach(({ elements }) => {
+			if (keyNames.includes(String(elements[0])))
+				throw new ValidationException(`One or more parameter values were invalid: Cannot update attribute ${elements[0]}. This attribute is part of the key`);
+		});
+
+	const values = update.set.map(({ value }) => evaluateOperand(item, value));
+	const result = clone(item);
+
+	update.set.forEach(({ path }, i) => {
+		if (!values[i]) throw new ValidationException('The provided expression refers to an attribute that does not exist in the item');
+		setPath(result, path.elements, values[i]!);
+	});
+
+	// Remove the highest list indexes first, so that the other indexes still point to the same elements.
+	[...update.remove]
+		.sort((a, b) => Number(b.elements[b.elements.length - 1]) - Number(a.elements[a.elements.length - 1]) || 0)
+		.forEach(({ elements }) => removePath(result, elements));
+
+	update.add.forEach(({ path, value: operand }) => {
+		const current = getPath(result, path.elements);
+		const value = evaluateOperand(item, operand)!;
+		const type = getType(value);
+
+		if (type !== 'N' && !SET_TYPES.includes(type))
+			throw new ValidationException('Invalid UpdateExpression: Incorrect operand type for operator or function; operator: ADD');
+
+		if (!current) return setPath(result, path.elements, value);
+		if (getType(current) !== type) throw new ValidationException('An operand in the update expression has an incorrect data type');
+
+		setPath(result, path.elements, type === 'N'
+			? { N: String(Number(current.N) + Number(value.N)) }
+			: { [type]: [...current[type], ...value[type].filter((v: string) => !current[type].includes(v))] });
+	});
+
+	update.delete.forEach(({ path, value: operand }) => {
+		const current = getPath(result, path.elements);
+		const value = evaluateOperand(item, operand)!;
+		const type = getType(value);
+
+		if (!SET_TYPES.includes(type))
+			throw new ValidationException('Invalid UpdateExpression: Incorrect operand type for operator or function; operator: DELETE');
+		if (!current) return;
+
+		const remaining = current[type].filter((v: string) => !value[type].includes(v));
+		// Sets can't be empty, so the attribute is removed instead.
+		if (remaining.length) setPath(result, path.elements, { [type]: remaining });
+		else removePath(result, path.elements);
+	});
+
+	return result;
+}
+
+/**
+ * Only keep the attributes of a projection expression.
+ *
+ * @param item
+ * @param paths
+ * @returns
+ */
+export const project = (item: AttributeMap, paths: IPathNode[]): AttributeMap => {
+	const result: AttributeMap = {};
+
+	paths.forEach(({ elements }) => {
+		const value = getPath(item, elements);
+		if (!value) return;
+
+		let target: AttributeMap = result;
+		elements.slice(0, -1).forEach((element, i) => {
+			const next = elements[i + 1];
+			const key = String(element);
+
+			target[key] ||= typeof next === 'number' ? { L: [] } : { M: {} };
+			target = target[key].M || target[key].L;
+		});
+
+		const last = elements[elements.length - 1];
+		if (typeof last === 'number') (target as unknown as AttributeValue[]).push(clone(value));
+		else target[last] = clone(value);
+	});
+
+	return result;
+}
+
+const setPath = (item: AttributeMap, elements: PathElement[], value: AttributeValue) => {
+	if (elements.length === 1) {
+		item[elements[0]] = value;
+		return;
+	}
+
+	const parent = getPath(item, elements.slice(0, -1));
+	const last = elements[elements.length - 1];
+
+	if (typeof last === 'number' && parent?.L) {
+		// An index past the end of the list appends to the list.
+		if (last >= parent.L.length) parent.L.push(value);
+		else parent.L[last] = value;
+	}
+	else if (typeof last === 'string' && parent?.M) parent.M[last] = value;
+	else throw new ValidationException('The document path provided in the update expression is invalid for update');
+}
+
+const removePath = (item: AttributeMap, elements: PathElement[]) => {
+	if (elements.length === 1) {
+		delete item[elements[0]];
+		return;
+	}
+
+	const parent = getPath(item, elements.slice(0, -1));
+	const last = elements[elements.length - 1];
+
+	if (typeof last === 'number' && parent?.L) parent.L.splice(last, 1);
+	else if (typeof last === 'string' && parent?.M) delete parent.M[last];
+}
+
+const evaluateFunction = (item: AttributeMap | undefined, name: string, args: OperandNode[]): boolean => {
+	const [first, second] = args.map(arg => evaluateOperand(item, arg));
+
+	switch (name) {
+		case 'attribute_exists': return first !== undefined;
+		case 'attribute_not_exists': return first === undefined;
+		case 'attribute_type': return !!first && getType(first) === second?.S;
+		case 'begins_with':
+			if (first?.S !== undefined && second?.S !== undefined) return first.S.startsWith(second.S);
+			if (first?.B !== undefined && second?.B !== undefined)
+				return Buffer.from(first.B, 'base64').subarray(0, Buffer.from(second.B, 'base64').length).equals(Buffer.from(second.B, 'base64'));
+			return false;
+		default: {
+			// contains
+			if (!first || !second) return false;
+			if (first.S !== undefined) return second.S !== undefined && first.S.includes(second.S);
+			if (first.L) return first.L.some((value: AttributeValue) => isEqual(value, second));
+
+			const type = getType(first);
+			if (SET_TYPES.includes(type)) return first[type].some((value: string) => isEqual({ [type[0]]: value }, second));
+
+			return false;
+		}
+	}
+}
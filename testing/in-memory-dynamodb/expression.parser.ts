@@ -0,0 +1,308 @@
+import { AttributeMap, AttributeValue } from './attribute-value.helper';
+import { ValidationException } from './dynamodb.error';
+
+export type PathElement = string | number;
+
+export interface IPathNode {
+	type: 'path';
+	elements: PathElement[];
+}
+
+export type OperandNode =
+	| IPathNode
+	| { type: 'value'; value: AttributeValue }
+	// size(), if_not_exists() and list_append()
+	| { type: 'function'; name: string; args: OperandNode[] }
+	| { type: 'arithmetic'; operator: '+' | '-'; left: OperandNode; right: OperandNode };
+
+export type ComparisonOperator = '=' | '<>' | '<' | '<=' | '>' | '>=';
+
+export type ConditionNode =
+	| { type: 'comparison'; operator: ComparisonOperator; left: OperandNode; right: OperandNode }
+	| { type: 'between'; operand: OperandNode; lower: OperandNode; upper: OperandNode }
+	| { type: 'in'; operand: OperandNode; list: OperandNode[] }
+	// attribute_exists(), attribute_not_exists(), attribute_type(), begins_with() and contains()
+	| { type: 'function'; name: string; args: OperandNode[] }
+	| { type: 'and' | 'or'; left: ConditionNode; right: ConditionNode }
+	| { type: 'not'; condition: ConditionNode };
+
+export interface IUpdateNode {
+	set: { path: IPathNode; value: OperandNode }[];
+	remove: IPathNode[];
+	add: { path: IPathNode; value: OperandNode }[];
+	delete: { path: IPathNode; value: OperandNode }[];
+}
+
+interface IToken {
+	type: 'identifier' | 'name' | 'value' | 'number' | 'operator';
+	text: string;
+}
+
+const CONDITION_FUNCTIONS = ['attribute_exists', 'attribute_not_exists', 'attribute_type', 'begins_with', 'contains'];
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['=', '<>', '<', '<=', '>', '>='];
+const UPDATE_SECTIONS = ['SET', 'REMOVE', 'ADD', 'DELETE'];
+
+const TOKEN_PATTERN = /\s*(?:(#[\w]+)|(:[\w]+)|([A-Za-z_][\w]*)|(\d+)|(<>|<=|>=|[=<>()[\],.+-]))/y;
+
+/**
+ * Parses the condition, key condition, filter, update and projection expressions into a tree.
+ *
+ * The #name and :value placeholders are replaced by their ExpressionAttributeNames and ExpressionAttributeValues while parsing.
+ */
+export class ExpressionParser {
+	private tokens: IToken[];
+	private position = 0;
+
+	constructor(private expression: string, private names: Record<string, string> = {}, private values: AttributeMap = {}) {
+		this.tokens = this.tokenize(expression);
+	}
+
+	parseCondition(): ConditionNode {
+		const condition = this.parseOr();
+		this.expectEnd();
+
+		return condition;
+	}
+
+	parseUpdate(): IUpdateNode {
+		const update: IUpdateNode = { set: [], remove: [], add: [], delete: [] };
+
+		while (this.peek()) {
+			const section = this.next().text.toUpperCase();
+			if (!UPDATE_SECTIONS.includes(section)) throw this.syntaxError(`unexpected "${section}"`);
+
+			do {
+				const path = this.parsePath();
+
+				if (section === 'SET') {
+					this.expect('=');
+					update.set.push({ path, value: this.parseSetValue() });
+				}
+				else if (section === 'REMOVE') update.remove.push(path);
+				else update[section === 'ADD' ? 'add' : 'delete'].push({ path, value: this.parseOperand() });
+			} while (this.accept(','));
+		}
+
+		return update;
+	}
+
+	parseProjection(): IPathNode[] {
+		const paths: IPathNode[] = [];
+		do paths.push(this.parsePath());
+		while (this.accept(','));
+
+		this.expectEnd();
+		return paths;
+	}
+
+	private parseOr(): ConditionNode {
+		let left = this.parseAnd();
+		while (this.acceptKeyword('OR')) left = { type: 'or', left, right: this.parseAnd() };
+
+		return left;
+	}
+
+	private parseAnd(): ConditionNode {
+		let left = this.parseNot();
+		while (this.acceptKeyword('AND')) left = { type: 'and', left, right: this.parseNot() };
+
+		return left;
+	}
+
+	private parseNot(): ConditionNode {
+		if (this.acceptKeyword('NOT')) return { type: 'not', condition: this.parseNot() };
+		return this.parsePrimary();
+	}
+
+	private parsePrimary(): ConditionNode {
+		if (this.accept('(')) {
+			const condition = this.parseOr();
+			this.expect(')');
+
+			return condition;
+		}
+
+		const token = this.peek();
+		if (token?.type === 'identifier' && CONDITION_FUNCTIONS.includes(token.text) && this.peek(1)?.text === '(') {
+			this.next();
+			return { type: 'function', name: token.text, args: this.parseArguments() };
+		}
+
+		const operand = this.parseOperand();
+
+		if (this.acceptKeyword('BETWEEN')) {
+			const lower = this.parseOperand();
+			if (!this.acceptKeyword('AND')) throw this.syntaxError('expected AND in BETWEEN');
+
+			return { type: 'between', operand, lower, upper: this.parseOperand() };
+		}
+
+		if (this.acceptKeyword('IN')) return { type: 'in', operand, list: this.parseArguments() };
+
+		const operator = this.next()?.text as ComparisonOperator;
+		if (!COMPARISON_OPERATORS.includes(operator)) throw this.syntaxError(`expected a comparison operator, got "${operator ?? 'the end'}"`);
+
+		return { type: 'comparison', operator, left: operand, right: this.parseOperand() };
+	}
+
+	/**
+	 * A path, a :value or size(path).
+	 *
+	 * @returns
+	 */
+	private parseOperand(): OperandNode {
+		const token = this.peek();
+		if (!token) throw this.syntaxError('unexpected end of the expression');
+
+		if (token.type === 'value') {
+			this.next();
+			return { type: 'value', value: this.getValue(token.text) };
+		}
+
+		if (token.type === 'identifier' && token.text === 'size' && this.peek(1)?.text === '(') {
+			this.next();
+			return { type: 'function', name: 'size', args: this.parseArguments() };
+		}
+
+		return this.parsePath();
+	}
+
+	/**
+	 * The value of a SET action, e.g. a + :one or list_append(if_not_exists(a, :empty), :items).
+	 *
+	 * @returns
+	 */
+	private parseSetValue(): OperandNode {
+		const left = this.parseSetTerm();
+
+		const operator = this.peek()?.text;
+		if (operator === '+' || operator === '-') {
+			this.next();
+			return { type: 'arithmetic', operator, left, right: this.parseSetTerm() };
+		}
+
+		return left;
+	}
+
+	private parseSetTerm(): OperandNode {
+		const token = this.peek();
+		if (token?.type === 'identifier' && ['if_not_exists', 'list_append'].includes(token.text) && this.peek(1)?.text === '(') {
+			this.next();
+			this.expect('(');
+
+			const args = [this.parseSetTerm()];
+			while (this.accept(',')) args.push(this.parseSetTerm());
+			this.expect(')');
+
+			return { type: 'function', name: token.text, args };
+		}
+
+		return this.parseOperand();
+	}
+
+	private parseArguments(): OperandNode[] {
+		this.expect('(');
+
+		const args = [this.parseOperand()];
+		while (this.accept(',')) args.push(this.parseOperand());
+		this.expect(')');
+
+		return args;
+	}
+
+	/**
+	 * E.g. a.b[0].#c
+	 *
+	 * @returns
+	 */
+	private parsePath(): IPathNode {
+		const elements: PathElement[] = [this.parseName()];
+
+		while (true) {
+			if (this.accept('.')) elements.push(this.parseName());
+			else if (this.accept('[')) {
+				const token = this.next();
+				if (token?.type !== 'number') throw this.syntaxError('expected a list index');
+
+				elements.push(Number(token.text));
+				this.expect(']');
+			}
+			else return { type: 'path', elements };
+		}
+	}
+
+	private parseName() {
+		const token = this.next();
+
+		if (token?.type === 'name') {
+			if (!(token.text in this.names))
+				throw new ValidationException(`Value provided in ExpressionAttributeNames unused in expressions or not defined: keys: {${token.text}}`);
+			return this.names[token.text];
+		}
+		if (token?.type === 'identifier') return token.text;
+
+		throw this.syntaxError(`expected an attribute name, got "${token?.text ?? 'the end'}"`);
+	}
+
+	private getValue(placeholder: string) {
+		if (!(placeholder in this.values))
+			throw new ValidationException(`An expression attribute value used in expression is not defined; attribute value: ${placeholder}`);
+
+		return this.values[placeholder];
+	}
+
+	private tokenize(expression: string) {
+		const tokens: IToken[] = [];
+		TOKEN_PATTERN.lastIndex = 0;
+
+		while (TOKEN_PATTERN.lastIndex < expression.length) {
+			if (!expression.slice(TOKEN_PATTERN.lastIndex).trim()) break;
+
+			const start = TOKEN_PATTERN.lastIndex;
+			const match = TOKEN_PATTERN.exec(expression);
+			if (!match) throw new ValidationException(`Invalid expression: Syntax error; token: "${expression.slice(start).trim()[0]}", near: "${expression.slice(start).trim()}"`);
+
+			if (match[1]) tokens.push({ type: 'name', text: match[1] });
+			else if (match[2]) tokens.push({ type: 'value', text: match[2] });
+			else if (match[3]) tokens.push({ type: 'identifier', text: match[3] });
+			else if (match[4]) tokens.push({ type: 'number', text: match[4] });
+			else tokens.push({ type: 'operator', text: match[5] });
+		}
+
+		return tokens;
+	}
+
+	private peek(offset = 0): IToken | undefined {
+		return this.tokens[this.position + offset];
+	}
+
+	private next(): IToken {
+		return this.tokens[this.position++];
+	}
+
+	private accept(operator: string) {
+		if (this.peek()?.type !== 'operator' || this.peek()!.text !== operator) return false;
+
+		this.position++;
+		return true;
+	}
+
+	private acceptKeyword(keyword: string) {
+		if (this.peek()?.type !== 'identifier' || this.peek()!.text.toUpperCase() !== keyword) return false;
+
+		this.position++;
+		return true;
+	}
+
+	private expect(operator: string) {
+		if (!this.accept(operator)) throw this.syntaxError(`expected "${operator}"`);
+	}
+
+	private expectEnd() {
+		if (this.peek()) throw this.syntaxError(`unexpected "${this.peek()!.text}"`);
+	}
+
+	private syntaxError(message: string) {
+		return new ValidationException(`Invalid expression: Syntax error, ${message}; expression: ${this.expression}`);
+	}
+}
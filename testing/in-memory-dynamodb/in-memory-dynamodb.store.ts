@@ -0,0 +1,469 @@
+import { AttributeMap, AttributeValue, clone, compare, getType } from './attribute-value.helper';
+import { ConditionalCheckFailedException, DynamoDbError, ResourceNotFoundException, ValidationException } from './dynamodb.error';
+import { applyUpdate, evaluateCondition, project } from './expression.evaluator';
+import { ExpressionParser } from './expression.parser';
+import { InMemoryStream } from './in-memory-stream';
+
+interface IKeySchema {
+	partitionKey: string;
+	sortKey?: string;
+}
+
+interface IIndex extends IKeySchema {
+	name: string;
+	projection: { ProjectionType?: string; NonKeyAttributes?: string[] };
+}
+
+interface ITable {
+	description: Record<string, any>;
+	keySchema: IKeySchema;
+	indexes: IIndex[];
+	items: Map<string, AttributeMap>;
+	stream?: InMemoryStream;
+}
+
+// DynamoDB's limits for a single batch.
+const MAX_BATCH_WRITE = 25;
+const MAX_BATCH_GET = 100;
+
+/**
+ * An in-memory version of the DynamoDB API, for the operations this project uses.
+ *
+ * The input and output are in the wire format (attribute values like { "S": "John" }), so that the real SDK clients can be used on top of it.
+ * Like DynamoDB, every item that is evaluated counts towards the Limit of a Query or Scan, also when the filter removes it.
+ * The DynamoDB Streams operations read the changes of the tables that have a StreamSpecification, so that the same client can poll either.
+ */
+export class InMemoryDynamoDb {
+	private tables = new Map<string, ITable>();
+
+	/**
+	 * Run an operation, e.g. "PutItem".
+	 *
+	 * @param operation
+	 * @param input
+	 * @returns
+	 */
+	execute(operation: string, input: Record<string, any>): Record<string, any> {
+		switch (operation) {
+			case 'CreateTable': return this.createTable(input);
+			case 'DeleteTable': return this.deleteTable(input);
+			case 'DescribeTable': return { Table: this.describe(this.getTable(input.TableName)) };
+			case 'ListTables': return { TableNames: [...this.tables.keys()].sort() };
+			case 'UpdateTable': return this.updateTable(input);
+			case 'GetItem': return this.getItem(input);
+			case 'PutItem': return this.putItem(input);
+			case 'DeleteItem': return this.deleteItem(input);
+			case 'UpdateItem': return this.updateItem(input);
+			case 'Query': return this.query(input);
+			case 'Scan': return this.scan(input);
+			case 'BatchWriteItem': return this.batchWriteItem(input);
+			case 'BatchGetItem': return this.batchGetItem(input);
+			// DynamoDB Streams
+			case 'ListStreams': return this.listStreams(input);
+			case 'DescribeStream': return this.getStream(input.StreamArn).describe();
+			case 'GetShardIterator': return this.getStream(input.StreamArn).getShardIterator(input);
+			case 'GetRecords': return this.getRecords(input);
+			default: throw new DynamoDbError('UnknownOperationException', `The in-memory DynamoDB doesn't support ${operation}.`);
+		}
+	}
+
+	/**
+	 * Remove every table, e.g. between tests.
+	 */
+	clear() {
+		this.tables.clear();
+	}
+
+	private createTable(input: Record<string, any>) {
+		if (this.tables.has(input.TableName)) throw new DynamoDbError('ResourceInUseException', `Table already exists: ${input.TableName}`);
+
+		const table: ITable = {
+			description: {
+				TableName: input.TableName,
+				TableArn: `arn:aws:dynamodb:local:000000000000:table/${input.TableName}`,
+				TableStatus: 'ACTIVE',
+				CreationDateTime: Date.now() / 1000,
+				KeySchema: input.KeySchema,
+				AttributeDefinitions: input.AttributeDefinitions || [],
+				BillingModeSummary: { BillingMode: input.BillingMode || 'PROVISIONED' }
+			},
+			keySchema: this.toKeySchema(input.KeySchema),
+			indexes: [],
+			items: new Map()
+		};
+
+		(input.GlobalSecondaryIndexes || []).forEach((index: Record<string, any>) => this.addIndex(table, index));
+		this.updateStream(table, input.StreamSpecification);
+		this.tables.set(input.TableName, table);
+
+		return { TableDescription: this.describe(table) };
+	}
+
+	private deleteTable(input: Record<string, any>) {
+		const table = this.getTable(input.TableName);
+		this.tables.delete(input.TableName);
+
+		return { TableDescription: { ...this.describe(table), TableStatus: 'DELETING' } };
+	}
+
+	private updateTable(input: Record<string, any>) {
+		const table = this.getTable(input.TableName);
+
+		(input.AttributeDefinitions || []).forEach((definition: Record<string, any>) => {
+			const definitions: Record<string, any>[] = table.description.AttributeDefinitions;
+			if (!definitions.some(({ AttributeName }) => AttributeName === definition.AttributeName)) definitions.push(definition);
+		});
+
+		(input.GlobalSecondaryIndexUpdates || []).forEach((update: Record<string, any>) => {
+			if (update.Create) {
+				if (table.indexes.some(({ name }) => name === update.Create.IndexName))
+					throw new ValidationException(`Attempting to create an index which already exists: ${update.Create.IndexName}`);
+				this.addIndex(table, update.Create);
+			}
+			else if (update.Delete) table.indexes = table.indexes.filter(({ name }) => name !== update.Delete.IndexName);
+		});
+
+		this.updateStream(table, input.StreamSpecification);
+
+		return { TableDescription: this.describe(table) };
+	}
+
+	private getItem(input: Record<string, any>) {
+		const table = this.getTable(input.TableName);
+		const item = table.items.get(this.toKey(table.keySchema, input.Key, true));
+
+		return item ? { Item: this.applyProjection(item, input) } : {};
+	}
+
+	private putItem(input: Record<string, any>) {
+		const table = this.getTable(input.TableName);
+		const key = this.toKey(table.keySchema, input.Item);
+		const existing = table.items.get(key);
+
+		this.checkCondition(existing, input);
+		table.items.set(key, clone(input.Item));
+		this.recordChange(table, existing, input.Item);
+
+		return input.ReturnValues === 'ALL_OLD' && existing ? { Attributes: existing } : {};
+	}
+
+	private deleteItem(input: Record<string, any>) {
+		const table = this.getTable(input.TableName);
+		const key = this.toKey(table.keySchema, input.Key, true);
+		const existing = table.items.get(key);
+
+		this.checkCondition(existing, input);
+		table.items.delete(key);
+		this.recordChange(table, existing, undefined);
+
+		return input.ReturnValues === 'ALL_OLD' && existing ? { Attributes: existing } : {};
+	}
+
+	private updateItem(input: Record<string, any>) {
+		const table = this.getTable(input.TableName);
+		const key = this.toKey(table.keySchema, input.Key, true);
+		const existing = table.items.get(key);
+
+		this.checkCondition(existing, input);
+
+		const keyNames = [table.keySchema.partitionKey, table.keySchema.sortKey].filter(Boolean) as string[];
+		const update = input.UpdateExpression
+			? new ExpressionParser(input.UpdateExpression, input.ExpressionAttributeNames, input.ExpressionAttributeValues).parseUpdate()
+			: { set: [], remove: [], add: [], delete: [] };
+
+		const updated = applyUpdate(existing || clone(input.Key), update, keyNames);
+		table.items.set(key, updated);
+		this.recordChange(table, existing, updated);
+
+		// The top-level attributes that were touched by the update.
+		const changed = [...update.set, ...update.add, ...update.delete].map(({ path }) => String(path.elements[0]))
+			.concat(update.remove.map(({ elements }) => String(elements[0])));
+		const pick = (item: AttributeMap = {}) => Object.fromEntries(Object.entries(item).filter(([name]) => changed.includes(name)));
+
+		switch (input.ReturnValues) {
+			case 'ALL_NEW': return { Attributes: updated };
+			case 'ALL_OLD': return existing ? { Attributes: existing } : {};
+			case 'UPDATED_NEW': return { Attributes: pick(updated) };
+			case 'UPDATED_OLD': return existing ? { Attributes: pick(existing) } : {};
+			default: return {};
+		}
+	}
+
+	private query(input: Record<string, any>) {
+		if (!input.KeyConditionExpression) throw new ValidationException('Either the KeyConditions or KeyConditionExpression parameter must be specified in the request.');
+
+		const keyCondition = new ExpressionParser(input.KeyConditionExpression, input.ExpressionAttributeNames, input.ExpressionAttributeValues).parseCondition();
+		return this.read(input, item => evaluateCondition(item, keyCondition));
+	}
+
+	private scan(input: Record<string, any>) {
+		return this.read(input, () => true);
+	}
+
+	/**
+	 * The shared part of Query and Scan: sorting, the start key, the limit, the filter and the projection.
+	 *
+	 * @param input
+	 * @param matchesKey
+	 * @returns
+	 */
+	private read(input: Record<string, any>, matchesKey: (item: AttributeMap) => boolean) {
+		const table = this.getTable(input.TableName);
+		const index = input.IndexName ? table.indexes.find(({ name }) => name === input.IndexName) : undefined;
+		if (input.IndexName && !index) throw new ValidationException(`The table does not have the specified index: ${input.IndexName}`);
+
+		const keyNames = this.getKeyNames(table, index);
+		const filter = input.FilterExpression
+			? new ExpressionParser(input.FilterExpression, input.ExpressionAttributeNames, input.ExpressionAttributeValues).parseCondition()
+			: undefined;
+
+		// Items without the key attributes of an index aren't in the index.
+		let candidates = [...table.items.values()]
+			.filter(item => keyNames.every(name => item[name]))
+			.filter(matchesKey)
+			.sort((a, b) => this.compareKeys(a, b, keyNames));
+
+		if (input.ScanIndexForward === false) candidates.reverse();
+
+		if (input.ExclusiveStartKey) {
+			const direction = input.ScanIndexForward === false ? -1 : 1;
+			candidates = candidates.filter(item => this.compareKeys(item, input.ExclusiveStartKey, keyNames) * direction > 0);
+		}
+
+		const evaluated = input.Limit ? candidates.slice(0, input.Limit) : candidates;
+		const items = evaluated
+			.filter(item => !filter || evaluateCondition(item, filter))
+			.map(item => this.applyProjection(index ? this.projectToIndex(item, table, index) : item, input));
+
+		const result: Record<string, any> = {
+			Count: items.length,
+			ScannedCount: evaluated.length
+		};
+
+		if (input.Select !== 'COUNT') result.Items = items;
+
+		// The same as DynamoDB, a full page always returns the key of its last item, even when it was the last item of the table.
+		if (input.Limit && evaluated.length === input.Limit) {
+			const last = evaluated[evaluated.length - 1];
+			result.LastEvaluatedKey = Object.fromEntries(keyNames.map(name => [name, clone(last[name])]));
+		}
+
+		return result;
+	}
+
+	private batchWriteItem(input: Record<string, any>) {
+		const requests = Object.entries(input.RequestItems || {}) as [string, Record<string, any>[]][];
+		const count = requests.reduce((total, [, tableRequests]) => total + tableRequests.length, 0);
+		if (count > MAX_BATCH_WRITE)
+			throw new ValidationException(`Too many items requested for the BatchWriteItem call`);
+
+		// Validate the whole batch before writing anything.
+		requests.forEach(([tableName, tableRequests]) => {
+			const table = this.getTable(tableName);
+			const keys = tableRequests.map(request => this.toKey(table.keySchema, request.PutRequest?.Item || request.DeleteRequest?.Key, !request.PutRequest));
+
+			if (new Set(keys).size !== keys.length) throw new ValidationException('Provided list of item keys contains duplicates');
+		});
+
+		requests.forEach(([tableName, tableRequests]) => tableRequests.forEach(request => {
+			if (request.PutRequest) this.putItem({ TableName: tableName, Item: request.PutRequest.Item });
+			else this.deleteItem({ TableName: tableName, Key: request.DeleteRequest.Key });
+		}));
+
+		return { UnprocessedItems: {} };
+	}
+
+	private batchGetItem(input: Record<string, any>) {
+		const requests = Object.entries(input.RequestItems || {}) as [string, Record<string, any>][];
+		const count = requests.reduce((total, [, tableRequest]) => total + tableRequest.Keys.length, 0);
+		if (count > MAX_BATCH_GET)
+			throw new ValidationException('Too many items requested for the BatchGetItem call');
+
+		const responses: Record<string, AttributeMap[]> = {};
+		requests.forEach(([tableName, tableRequest]) => {
+			responses[tableName] = tableRequest.Keys
+				.map((Key: AttributeMap) => this.getItem({ ...tableRequest, TableName: tableName, Key }).Item)
+				.filter(Boolean);
+		});
+
+		return { Responses: responses, UnprocessedKeys: {} };
+	}
+
+	private listStreams(input: Record<string, any>) {
+		const streams = [...this.tables.values()]
+			.filter(table => table.stream && (!input.TableName || table.description.TableName === input.TableName))
+			.map(({ description, stream }) => ({ StreamArn: stream!.arn, TableName: description.TableName, StreamLabel: stream!.label }));
+
+		return { Streams: streams };
+	}
+
+	private getRecords(input: Record<string, any>) {
+		const iterator = InMemoryStream.decodeIterator(input.ShardIterator);
+		return this.getStream(iterator.streamArn).getRecords(iterator, input.Limit);
+	}
+
+	/**
+	 * Enable or disable the stream of a table, like the StreamSpecification of CreateTable and UpdateTable.
+	 *
+	 * @param table
+	 * @param specification
+	 */
+	private updateStream(table: ITable, specification?: Record<string, any>) {
+		if (!specification) return;
+
+		if (!specification.StreamEnabled) {
+			table.stream = undefined;
+			return;
+		}
+
+		if (table.stream) throw new ValidationException(`Table already has an enabled stream: ${table.stream.arn}`);
+		if (!specification.StreamViewType) throw new ValidationException('The StreamViewType is required when the stream is enabled');
+
+		const { TableArn, TableName, KeySchema } = table.description;
+		table.stream = new InMemoryStream(TableArn, TableName, KeySchema, specification.StreamViewType);
+	}
+
+	/**
+	 * Add the change of an item to the stream of its table, when the stream is enabled.
+	 *
+	 * @param table
+	 * @param oldImage
+	 * @param newImage
+	 */
+	private recordChange(table: ITable, oldImage?: AttributeMap, newImage?: AttributeMap) {
+		table.stream?.record([table.keySchema.partitionKey, table.keySchema.sortKey].filter(Boolean) as string[], oldImage, newImage);
+	}
+
+	private getStream(streamArn: string) {
+		const stream = [...this.tables.values()].find(table => table.stream?.arn === streamArn)?.stream;
+		if (!stream) throw new ResourceNotFoundException(`Requested resource not found: Stream: ${streamArn} not found`);
+
+		return stream;
+	}
+
+	/**
+	 * Throw a ConditionalCheckFailedException when the ConditionExpression doesn't hold for the existing item.
+	 *
+	 * @param existing
+	 * @param input
+	 */
+	private checkCondition(existing: AttributeMap | undefined, input: Record<string, any>) {
+		if (!input.ConditionExpression) return;
+
+		const condition = new ExpressionParser(input.ConditionExpression, input.ExpressionAttributeNames, input.ExpressionAttributeValues).parseCondition();
+		if (!evaluateCondition(existing, condition))
+			throw new ConditionalCheckFailedException(input.ReturnValuesOnConditionCheckFailure === 'ALL_OLD' ? existing : undefined);
+	}
+
+	private applyProjection(item: AttributeMap, input: Record<string, any>) {
+		if (!input.ProjectionExpression) return clone(item);
+
+		const paths = new ExpressionParser(input.ProjectionExpression, input.ExpressionAttributeNames).parseProjection();
+		return project(item, paths);
+	}
+
+	/**
+	 * Only keep the attributes that the projection of the index includes.
+	 *
+	 * @param item
+	 * @param table
+	 * @param index
+	 * @returns
+	 */
+	private projectToIndex(item: AttributeMap, table: ITable, index: IIndex) {
+		if (index.projection.ProjectionType === 'ALL') return item;
+
+		const names = [...this.getKeyNames(table, index), ...(index.projection.NonKeyAttributes || [])];
+		return Object.fromEntries(Object.entries(item).filter(([name]) => names.includes(name)));
+	}
+
+	/**
+	 * The key attributes in the order the items are sorted by: the index keys first, then the table keys.
+	 *
+	 * @param table
+	 * @param index
+	 * @returns
+	 */
+	private getKeyNames(table: ITable, index?: IIndex) {
+		const names = [index?.partitionKey, index?.sortKey, table.keySchema.partitionKey, table.keySchema.sortKey];
+		return names.filter((name, i): name is string => !!name && names.indexOf(name) === i);
+	}
+
+	private compareKeys(a: AttributeMap, b: AttributeMap, keyNames: string[]) {
+		for (const name of keyNames) {
+			const result = compare(a[name], b[name]);
+			if (result) return result;
+		}
+
+		return 0;
+	}
+
+	/**
+	 * Get the key of an item in the items map, validating the key attributes.
+	 *
+	 * @param keySchema
+	 * @param item
+	 * @param isKeyOnly - The value is a Key parameter, which can't have other attributes.
+	 * @returns
+	 */
+	private toKey(keySchema: IKeySchema, item: AttributeMap | undefined, isKeyOnly = false) {
+		const names = [keySchema.partitionKey, keySchema.sortKey].filter(Boolean) as string[];
+		const values = names.map(name => item?.[name]) as AttributeValue[];
+
+		if (values.some(value => !value) || (isKeyOnly && Object.keys(item!).length !== names.length))
+			throw new ValidationException('The provided key element does not match the schema');
+		if (values.some(value => !['S', 'N', 'B'].includes(getType(value)) || Object.values(value)[0] === ''))
+			throw new ValidationException('One or more parameter values are not valid. The AttributeValue for a key attribute cannot contain an empty value.');
+
+		return JSON.stringify(values);
+	}
+
+	private toKeySchema(keySchema: Record<string, any>[]): IKeySchema {
+		return {
+			partitionKey: keySchema.find(({ KeyType }) => KeyType === 'HASH')!.AttributeName,
+			sortKey: keySchema.find(({ KeyType }) => KeyType === 'RANGE')?.AttributeName
+		};
+	}
+
+	private addIndex(table: ITable, index: Record<string, any>) {
+		table.indexes.push({
+			name: index.IndexName,
+			...this.toKeySchema(index.KeySchema),
+			projection: index.Projection || { ProjectionType: 'ALL' }
+		});
+	}
+
+	private getTable(tableName: string) {
+		const table = this.tables.get(tableName);
+		if (!table) throw new ResourceNotFoundException('Cannot do operations on a non-existent table');
+
+		return table;
+	}
+
+	private describe(table: ITable) {
+		const description: Record<string, any> = {
+			...table.description,
+			ItemCount: table.items.size
+		};
+
+		if (table.stream) {
+			description.StreamSpecification = { StreamEnabled: true, StreamViewType: table.stream.viewType };
+			description.LatestStreamArn = table.stream.arn;
+			description.LatestStreamLabel = table.stream.label;
+		}
+
+		if (table.indexes.length)
+			description.GlobalSecondaryIndexes = table.indexes.map(index => ({
+				IndexName: index.name,
+				KeySchema: [
+					{ AttributeName: index.partitionKey, KeyType: 'HASH' },
+					...(index.sortKey ? [{ AttributeName: index.sortKey, KeyType: 'RANGE' }] : [])
+				],
+				Projection: index.projection,
+				IndexStatus: 'ACTIVE',
+				ItemCount: [...table.items.values()].filter(item => item[index.partitionKey] && (!index.sortKey || item[index.sortKey])).length
+			}));
+
+		return clone(description);
+	}
+}
@@ -0,0 +1,80 @@
+import { v4 } from 'uuid';
+
+import { setLocalRequestHandler } from '../../lib/stacks/lambda/services/dynamodb-client.factory';
+import { DynamoDbError } from './dynamodb.error';
+import { InMemoryDynamoDb } from './in-memory-dynamodb.store';
+
+interface IHttpRequest {
+	headers: Record<string, string>;
+	body?: string | Uint8Array;
+}
+
+/**
+ * Whether the local server and the tests should use the in-memory DynamoDB instead of the DynamoDB Local container.
+ *
+ * @returns
+ */
+export const isInMemoryMode = () => process.env.DYNAMODB_MODE === 'memory';
+
+/**
+ * Answers the HTTP requests of the SDK from the in-memory DynamoDB, in the same JSON format as the DynamoDB API.
+ *
+ * Because it replaces the HTTP layer, the SDK still does all the (un)marshalling and throws its own exceptions for the errors.
+ */
+export class InMemoryRequestHandler {
+	constructor(readonly database = new InMemoryDynamoDb()) { }
+
+	async handle(request: IHttpRequest) {
+		const target = Object.entries(request.headers).find(([name]) => name.toLowerCase() === 'x-amz-target')?.[1] || '';
+		const operation = target.split('.')[1];
+		const body = typeof request.body === 'string' ? request.body : Buffer.from(request.body || []).toString('utf-8');
+
+		let statusCode = 200;
+		let output: Record<string, any>;
+
+		try {
+			output = this.database.execute(operation, body ? JSON.parse(body) : {});
+		} catch (error: any) {
+			const isDynamoDbError = error instanceof DynamoDbError;
+			if (!isDynamoDbError) console.error(error);
+
+			statusCode = isDynamoDbError ? 400 : 500;
+			output = {
+				__type: `com.amazonaws.dynamodb.v20120810#${isDynamoDbError ? error.type : 'InternalServerError'}`,
+				message: error.message,
+				...(isDynamoDbError ? error.extensions : {})
+			};
+		}
+
+		return {
+			response: {
+				statusCode,
+				headers: {
+					'content-type': 'application/x-amz-json-1.0',
+					'x-amzn-requestid': v4()
+				},
+				body: Buffer.from(JSON.stringify(output))
+			}
+		};
+	}
+
+	updateHttpClientConfig() { }
+
+	httpHandlerConfigs() {
+		return {};
+	}
+
+	destroy() { }
+}
+
+/**
+ * Send the requests of every DynamoDB client that is created from now on to a new in-memory DynamoDB.
+ *
+ * @returns - The in-memory DynamoDB, e.g. to clear it between tests.
+ */
+export const useInMemoryDynamoDb = () => {
+	const requestHandler = new InMemoryRequestHandler();
+	setLocalRequestHandler(requestHandler);
+
+	return requestHandler.database;
+}
@@ -0,0 +1,147 @@
+import { randomUUID } from 'crypto';
+
+import { AttributeMap, clone, isEqual } from './attribute-value.helper';
+import { ValidationException } from './dynamodb.error';
+
+// DynamoDB keeps the records for 24 hours, this keeps the last ones instead.
+const MAX_RECORDS = 10000;
+// DynamoDB limits a single GetRecords call to 1000 records.
+const MAX_GET_RECORDS = 1000;
+
+interface IShardIterator {
+	streamArn: string;
+	// Sequence number of the next record to read.
+	position: number;
+}
+
+/**
+ * The stream of a table of the in-memory DynamoDB, in the format of the DynamoDB Streams API.
+ *
+ * The records are kept in a single shard, which is never closed.
+ */
+export class InMemoryStream {
+	readonly label = new Date().toISOString().replace('Z', '');
+	readonly arn: string;
+	readonly shardId = 'shardId-00000000000000000000-00000001';
+
+	private records: Record<string, any>[] = [];
+	private nextSequenceNumber = 1;
+	private createdOn = Date.now() / 1000;
+
+	constructor(tableArn: string, private tableName: string, private keySchema: Record<string, any>[], readonly viewType: string) {
+		this.arn = `${tableArn}/stream/${this.label}`;
+	}
+
+	/**
+	 * Add the record of a write, when it changed the item.
+	 *
+	 * @param keyNames
+	 * @param oldImage - The item before the write, undefined when it was created.
+	 * @param newImage - The item after the write, undefined when it was deleted.
+	 */
+	record(keyNames: string[], oldImage?: AttributeMap, newImage?: AttributeMap) {
+		// Like DynamoDB, a write that doesn't change the item doesn't add a record.
+		if (!oldImage && !newImage) return;
+		if (oldImage && newImage && isEqual({ M: oldImage }, { M: newImage })) return;
+
+		const item = (newImage || oldImage)!;
+		const dynamodb: Record<string, any> = {
+			ApproximateCreationDateTime: Math.floor(Date.now() / 1000),
+			Keys: Object.fromEntries(keyNames.map(name => [name, clone(item[name])])),
+			SequenceNumber: this.toSequenceNumber(this.nextSequenceNumber++),
+			StreamViewType: this.viewType
+		};
+
+		if (newImage && ['NEW_IMAGE', 'NEW_AND_OLD_IMAGES'].includes(this.viewType)) dynamodb.NewImage = clone(newImage);
+		if (oldImage && ['OLD_IMAGE', 'NEW_AND_OLD_IMAGES'].includes(this.viewType)) dynamodb.OldImage = clone(oldImage);
+		dynamodb.SizeBytes = JSON.stringify([dynamodb.Keys, dynamodb.NewImage, dynamodb.OldImage]).length;
+
+		this.records.push({
+			eventID: randomUUID().replace(/-/g, ''),
+			eventName: !oldImage ? 'INSERT' : !newImage ? 'REMOVE' : 'MODIFY',
+			eventVersion: '1.1',
+			eventSource: 'aws:dynamodb',
+			awsRegion: 'local',
+			dynamodb
+		});
+
+		if (this.records.length > MAX_RECORDS) this.records.splice(0, this.records.length - MAX_RECORDS);
+	}
+
+	describe() {
+		return {
+			StreamDescription: {
+				StreamArn: this.arn,
+				StreamLabel: this.label,
+				StreamStatus: 'ENABLED',
+				StreamViewType: this.viewType,
+				CreationRequestDateTime: this.createdOn,
+				TableName: this.tableName,
+				KeySchema: this.keySchema,
+				Shards: [{
+					ShardId: this.shardId,
+					SequenceNumberRange: { StartingSequenceNumber: this.toSequenceNumber(this.getFirstSequenceNumber()) }
+				}]
+			}
+		};
+	}
+
+	getShardIterator(input: Record<string, any>) {
+		if (input.ShardId !== this.shardId) throw new ValidationException(`Invalid ShardId: ${input.ShardId}`);
+
+		const sequenceNumber = Number(input.SequenceNumber);
+		let position: number;
+
+		switch (input.ShardIteratorType) {
+			case 'TRIM_HORIZON': position = this.getFirstSequenceNumber(); break;
+			case 'LATEST': position = this.nextSequenceNumber; break;
+			case 'AT_SEQUENCE_NUMBER': position = sequenceNumber; break;
+			case 'AFTER_SEQUENCE_NUMBER': position = sequenceNumber + 1; break;
+			default: throw new ValidationException(`Invalid ShardIteratorType: ${input.ShardIteratorType}`);
+		}
+
+		if (!Number.isInteger(position)) throw new ValidationException('A SequenceNumber is required for this ShardIteratorType');
+
+		return { ShardIterator: this.encodeIterator({ streamArn: this.arn, position }) };
+	}
+
+	getRecords(iterator: IShardIterator, limit = MAX_GET_RECORDS) {
+		const records = this.records
+			.filter(record => Number(record.dynamodb.SequenceNumber) >= iterator.position)
+			.slice(0, Math.min(limit, MAX_GET_RECORDS));
+
+		const position = records.length ? Number(records[records.length - 1].dynamodb.SequenceNumber) + 1 : iterator.position;
+
+		return {
+			Records: clone(records),
+			NextShardIterator: this.encodeIterator({ streamArn: this.arn, position })
+		};
+	}
+
+	/**
+	 * Read the stream ARN and position of an iterator of GetShardIterator.
+	 *
+	 * @param shardIterator
+	 * @returns
+	 */
+	static decodeIterator(shardIterator: string): IShardIterator {
+		try {
+			return JSON.parse(Buffer.from(shardIterator, 'base64url').toString('utf-8'));
+		} catch {
+			throw new ValidationException('Invalid ShardIterator');
+		}
+	}
+
+	private encodeIterator(iterator: IShardIterator) {
+		return Buffer.from(JSON.stringify(iterator)).toString('base64url');
+	}
+
+	private getFirstSequenceNumber() {
+		return this.records.length ? Number(this.records[0].dynamodb.SequenceNumber) : this.nextSequenceNumber;
+	}
+
+	// DynamoDB's sequence numbers are numeric strings of 21 digits.
+	private toSequenceNumber(sequenceNumber: number) {
+		return String(sequenceNumber).padStart(21, '0');
+	}
+}
@@ -0,0 +1,72 @@
+import { v4 } from 'uuid';
+
+import { setLocalSqsRequestHandler } from '../../lib/stacks/lambda/services/sqs-client.factory';
+import { InMemorySqs } from './in-memory-sqs.store';
+import { SqsError } from './sqs.error';
+
+interface IHttpRequest {
+	headers: Record<string, string>;
+	body?: string | Uint8Array;
+}
+
+/**
+ * Answers the HTTP requests of the SDK from the in-memory SQS, in the same JSON format as the SQS API.
+ */
+export class InMemorySqsRequestHandler {
+	constructor(readonly sqs = new InMemorySqs()) { }
+
+	async handle(request: IHttpRequest) {
+		const target = Object.entries(request.headers).find(([name]) => name.toLowerCase() === 'x-amz-target')?.[1] || '';
+		const operation = target.split('.')[1];
+		const body = typeof request.body === 'string' ? request.body : Buffer.from(request.body || []).toString('utf-8');
+
+		let statusCode = 200;
+		let output: Record<string, any>;
+
+		try {
+			output = this.sqs.execute(operation, body ? JSON.parse(body) : {});
+		} catch (error: any) {
+			const isSqsError = error instanceof SqsError;
+			if (!isSqsError) console.error(error);
+
+			statusCode = isSqsError ? 400 : 500;
+			output = {
+				__type: `com.amazonaws.sqs#${isSqsError ? error.type : 'InternalError'}`,
+				message: error.message
+			};
+		}
+
+		return {
+			response: {
+				statusCode,
+				headers: {
+					'content-type': 'application/x-amz-json-1.0',
+					'x-amzn-requestid': v4()
+				},
+				body: Buffer.from(JSON.stringify(output))
+			}
+		};
+	}
+
+	updateHttpClientConfig() { }
+
+	httpHandlerConfigs() {
+		return {};
+	}
+
+	destroy() { }
+}
+
+/**
+ * Send the requests of every SQS client that is created from now on to a new in-memory SQS.
+ *
+ * There is no SQS container, so the local server and the tests always use this.
+ *
+ * @returns - The in-memory SQS, which holds the queues of the @Queue handlers.
+ */
+export const useInMemorySqs = () => {
+	const requestHandler = new InMemorySqsRequestHandler();
+	setLocalSqsRequestHandler(requestHandler);
+
+	return requestHandler.sqs;
+}
@@ -0,0 +1,113 @@
+import { InMemoryQueue, IQueueAttributes } from './in-memory.queue';
+import { InvalidParameterValue, QueueDoesNotExist, SqsError } from './sqs.error';
+
+// The endpoint of the local SQS client, with the account id that local emulators use.
+const ACCOUNT_URL = 'http://localhost:9324/000000000000';
+
+/**
+ * The queues of the local server and the tests, which answer the SQS operations that the QueueService and the SDK use.
+ *
+ * The queues are created by the queue handler dispatcher from the @Queue decorators, not through the API.
+ */
+export class InMemorySqs {
+	private queues = new Map<string, InMemoryQueue>();
+
+	constructor(private region = process.env.REGION || 'local') { }
+
+	/**
+	 * Create a queue, or update the attributes of an existing one.
+	 *
+	 * @param name
+	 * @param attributes
+	 * @returns
+	 */
+	createQueue(name: string, attributes: IQueueAttributes) {
+		const existing = this.queues.get(name);
+		if (existing) {
+			existing.attributes = attributes;
+			return existing;
+		}
+
+		const queue = new InMemoryQueue(name, `${ACCOUNT_URL}/${name}`, this.region, attributes);
+		this.queues.set(name, queue);
+
+		return queue;
+	}
+
+	getQueue(name: string) {
+		const queue = this.queues.get(name);
+		if (!queue) throw new QueueDoesNotExist(name);
+
+		return queue;
+	}
+
+	/**
+	 * Run an operation of the SQS API, with the input and output in the JSON format of the API.
+	 *
+	 * @param operation - E.g. SendMessage.
+	 * @param input
+	 * @returns
+	 */
+	execute(operation: string, input: Record<string, any>): Record<string, any> {
+		switch (operation) {
+			case 'GetQueueUrl': return { QueueUrl: this.getQueue(input.QueueName).url };
+			case 'ListQueues': return { QueueUrls: [...this.queues.values()].filter(queue => queue.name.startsWith(input.QueueNamePrefix || '')).map(queue => queue.url) };
+			case 'GetQueueAttributes': return { Attributes: this.getQueueByUrl(input.QueueUrl).getAttributes() };
+			case 'SendMessage': return this.sendMessage(input);
+			case 'SendMessageBatch': return this.sendMessageBatch(input);
+			case 'ReceiveMessage': return this.receiveMessage(input);
+			case 'DeleteMessage': return this.getQueueByUrl(input.QueueUrl).delete(input.ReceiptHandle), {};
+			case 'ChangeMessageVisibility': return this.getQueueByUrl(input.QueueUrl).changeVisibility(input.ReceiptHandle, input.VisibilityTimeout), {};
+			case 'PurgeQueue': return this.getQueueByUrl(input.QueueUrl).purge(), {};
+			default: throw new SqsError('UnsupportedOperation', `The in-memory SQS doesn't support ${operation}.`);
+		}
+	}
+
+	private sendMessage(input: Record<string, any>) {
+		const message = this.getQueueByUrl(input.QueueUrl).send(input.MessageBody, input.DelaySeconds);
+		return { MessageId: message.messageId, MD5OfMessageBody: message.md5OfBody };
+	}
+
+	private sendMessageBatch(input: Record<string, any>) {
+		const queue = this.getQueueByUrl(input.QueueUrl);
+		const entries: Record<string, any>[] = input.Entries || [];
+		if (!entries.length || entries.length > 10) throw new InvalidParameterValue('A batch has to contain between 1 and 10 entries.');
+
+		const Successful: Record<string, any>[] = [];
+		const Failed: Record<string, any>[] = [];
+
+		entries.forEach(entry => {
+			try {
+				const message = queue.send(entry.MessageBody, entry.DelaySeconds);
+				Successful.push({ Id: entry.Id, MessageId: message.messageId, MD5OfMessageBody: message.md5OfBody });
+			} catch (error: any) {
+				if (!(error instanceof SqsError)) throw error;
+				Failed.push({ Id: entry.Id, Code: error.type, Message: error.message, SenderFault: true });
+			}
+		});
+
+		return { Successful, Failed };
+	}
+
+	private receiveMessage(input: Record<string, any>) {
+		const messages = this.getQueueByUrl(input.QueueUrl).receive(input.MaxNumberOfMessages, input.VisibilityTimeout);
+
+		return {
+			Messages: messages.map(message => ({
+				MessageId: message.messageId,
+				ReceiptHandle: message.receiptHandle,
+				MD5OfBody: message.md5OfBody,
+				Body: message.body,
+				Attributes: {
+					ApproximateReceiveCount: String(message.receiveCount),
+					SentTimestamp: String(message.sentTimestamp),
+					ApproximateFirstReceiveTimestamp: String(message.firstReceiveTimestamp)
+				}
+			}))
+		};
+	}
+
+	private getQueueByUrl(queueUrl: string) {
+		return this.getQueue(String(queueUrl).split('/').pop()!);
+	}
+}
@@ -0,0 +1,183 @@
+import { createHash, randomUUID } from 'crypto';
+
+import { InvalidParameterValue, ReceiptHandleIsInvalid } from './sqs.error';
+
+// SQS limits a message to 256 KB.
+const MAX_MESSAGE_SIZE = 256 * 1024;
+const MAX_DELAY_SECONDS = 900;
+// SQS doesn't return more messages per receive.
+const MAX_RECEIVE = 10;
+
+export interface IQueueAttributes {
+	// Seconds that a received message stays hidden.
+	visibilityTimeout: number;
+	// Number of receives before a message is moved to the dead-letter queue.
+	maxReceiveCount?: number;
+	deadLetterQueue?: InMemoryQueue;
+}
+
+export interface IQueueMessage {
+	messageId: string;
+	body: string;
+	md5OfBody: string;
+	sentTimestamp: number;
+	// Epoch milliseconds from when the message can be received (again).
+	visibleAt: number;
+	receiveCount: number;
+	firstReceiveTimestamp?: number;
+	// The handle of the last receive, which is needed to delete the message.
+	receiptHandle?: string;
+}
+
+/**
+ * A queue of the in-memory SQS, with delays, a visibility timeout and a dead-letter queue.
+ *
+ * Messages are received in the order they were sent, unlike a standard queue of SQS, which makes the tests predictable.
+ */
+export class InMemoryQueue {
+	readonly arn: string;
+	private messages: IQueueMessage[] = [];
+
+	constructor(readonly name: string, readonly url: string, region: string, public attributes: IQueueAttributes) {
+		this.arn = `arn:aws:sqs:${region}:000000000000:${name}`;
+	}
+
+	/**
+	 * All the messages of the queue, including the ones that are delayed or in flight.
+	 */
+	get all(): readonly IQueueMessage[] {
+		return this.messages;
+	}
+
+	/**
+	 * Add a message to the end of the queue.
+	 *
+	 * @param body
+	 * @param delaySeconds
+	 * @returns
+	 */
+	send(body: string, delaySeconds = 0) {
+		if (!body) throw new InvalidParameterValue('The request must contain the parameter MessageBody.');
+		if (Buffer.byteLength(body) > MAX_MESSAGE_SIZE)
+			throw new InvalidParameterValue(`One or more parameters are invalid. Reason: Message must be shorter than ${MAX_MESSAGE_SIZE} bytes.`);
+		if (delaySeconds < 0 || delaySeconds > MAX_DELAY_SECONDS)
+			throw new InvalidParameterValue(`Value ${delaySeconds} for parameter DelaySeconds is invalid. Reason: must be between 0 and ${MAX_DELAY_SECONDS}, if provided.`);
+
+		const now = Date.now();
+		const message: IQueueMessage = {
+			messageId: randomUUID(),
+			body,
+			md5OfBody: createHash('md5').update(body).digest('hex'),
+			sentTimestamp: now,
+			visibleAt: now + delaySeconds * 1000,
+			receiveCount: 0
+		};
+
+		this.messages.push(message);
+		return message;
+	}
+
+	/**
+	 * Receive the visible messages and hide them for the visibility timeout.
+	 *
+	 * A message that was received maxReceiveCount times already is moved to the dead-letter queue instead.
+	 *
+	 * @param maxNumberOfMessages
+	 * @param visibilityTimeout - Seconds, the visibility timeout of the queue when not set.
+	 * @returns
+	 */
+	receive(maxNumberOfMessages = 1, visibilityTimeout = this.attributes.visibilityTimeout) {
+		if (maxNumberOfMessages < 1 || maxNumberOfMessages > MAX_RECEIVE)
+			throw new InvalidParameterValue(`Value ${maxNumberOfMessages} for parameter MaxNumberOfMessages is invalid. Reason: Must be between 1 and ${MAX_RECEIVE}, if provided.`);
+
+		const now = Date.now();
+		const { maxReceiveCount, deadLetterQueue } = this.attributes;
+		const received: IQueueMessage[] = [];
+
+		for (const message of [...this.messages]) {
+			if (received.length === maxNumberOfMessages) break;
+			if (message.visibleAt > now) continue;
+
+			if (deadLetterQueue && maxReceiveCount && message.receiveCount >= maxReceiveCount) {
+				this.remove(message);
+				deadLetterQueue.messages.push({ ...message, visibleAt: now, receiptHandle: undefined });
+				continue;
+			}
+
+			message.receiveCount++;
+			message.firstReceiveTimestamp ??= now;
+			message.visibleAt = now + visibilityTimeout * 1000;
+			message.receiptHandle = Buffer.from(`${message.messageId}:${randomUUID()}`).toString('base64url');
+			received.push(message);
+		}
+
+		return received.map(message => ({ ...message }));
+	}
+
+	/**
+	 * Delete a received message.
+	 *
+	 * ? The handle of an earlier receive doesn't delete the message, it was received again since, so it may still be handled.
+	 *
+	 * @param receiptHandle
+	 */
+	delete(receiptHandle: string) {
+		const message = this.findByReceiptHandle(receiptHandle);
+		if (message) this.remove(message);
+	}
+
+	/**
+	 * Change when a received message becomes visible again, 0 makes it visible right away.
+	 *
+	 * @param receiptHandle
+	 * @param visibilityTimeout - Seconds from now.
+	 */
+	changeVisibility(receiptHandle: string, visibilityTimeout: number) {
+		const message = this.findByReceiptHandle(receiptHandle);
+		if (!message) throw new ReceiptHandleIsInvalid(receiptHandle);
+
+		message.visibleAt = Date.now() + visibilityTimeout * 1000;
+	}
+
+	purge() {
+		this.messages = [];
+	}
+
+	/**
+	 * The approximate attributes of the GetQueueAttributes API.
+	 *
+	 * @returns
+	 */
+	getAttributes(): Record<string, string> {
+		const now = Date.now();
+		const attributes: Record<string, string> = {
+			QueueArn: this.arn,
+			ApproximateNumberOfMessages: String(this.messages.filter(message => message.visibleAt <= now).length),
+			ApproximateNumberOfMessagesNotVisible: String(this.messages.filter(message => message.visibleAt > now && message.receiptHandle).length),
+			ApproximateNumberOfMessagesDelayed: String(this.messages.filter(message => message.visibleAt > now && !message.receiptHandle).length),
+			VisibilityTimeout: String(this.attributes.visibilityTimeout)
+		};
+
+		if (this.attributes.deadLetterQueue)
+			attributes.RedrivePolicy = JSON.stringify({
+				deadLetterTargetArn: this.attributes.deadLetterQueue.arn,
+				maxReceiveCount: this.attributes.maxReceiveCount
+			});
+
+		return attributes;
+	}
+
+	/**
+	 * The message that was last received with the handle, every receive gives the message a new handle.
+	 *
+	 * @param receiptHandle
+	 * @returns
+	 */
+	private findByReceiptHandle(receiptHandle: string) {
+		return this.messages.find(message => message.receiptHandle === receiptHandle);
+	}
+
+	private remove(message: IQueueMessage) {
+		this.messages = this.messages.filter(other => other !== message);
+	}
+}
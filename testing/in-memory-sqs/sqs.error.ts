@@ -0,0 +1,27 @@
+/**
+ * An error of the SQS API, which the request handler sends back the same way SQS does, so that the SDK throws the matching exception.
+ */
+export class SqsError extends Error {
+	constructor(readonly type: string, message: string) {
+		super(message);
+		this.name = type;
+	}
+}
+
+export class QueueDoesNotExist extends SqsError {
+	constructor(queue: string) {
+		super('QueueDoesNotExist', `The specified queue ${queue} does not exist.`);
+	}
+}
+
+export class InvalidParameterValue extends SqsError {
+	constructor(message: string) {
+		super('InvalidParameterValue', message);
+	}
+}
+
+export class ReceiptHandleIsInvalid extends SqsError {
+	constructor(receiptHandle: string) {
+		super('ReceiptHandleIsInvalid', `The input receipt handle "${receiptHandle}" is not a valid receipt handle.`);
+	}
+}
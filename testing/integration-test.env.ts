@@ -0,0 +1,14 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * Jest setup file, which runs before the modules of each test file are loaded.
+ *
+ * Every test file gets its own table, so that the test files can also run side by side against one DynamoDB Local container.
+ * The services read the environment when they are loaded, which is why this can't be done by the harness itself.
+ *
+ * ? Uses the in-memory DynamoDB unless DYNAMODB_MODE is set, e.g. DYNAMODB_MODE=container npm test
+ */
+process.env.TABLE_NAME = `test-${randomUUID().slice(0, 8)}-data`;
+process.env.DYNAMODB_MODE ||= 'memory';
+process.env.REGION ||= 'local';
+process.env.IS_LOCAL = 'true';
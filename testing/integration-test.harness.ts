@@ -0,0 +1,310 @@
+import 'reflect-metadata';
+import http from 'http';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+
+import { createApp } from './app.factory';
+import { toApiGatewayPath } from './controller.loader';
+import { getControllerRoutes, IRouteDefinition } from './decorators';
+import { ServerSetupService } from './server-setup.service';
+import { isInMemoryMode, useInMemoryDynamoDb } from './in-memory-dynamodb/in-memory-request.handler';
+import { LambdaInvoker } from './lambda-runtime/lambda.invoker';
+import { StreamHandlerDispatcher } from './dynamodb-streams/stream-handler.dispatcher';
+import { TableStreamPoller } from './dynamodb-streams/table-stream.poller';
+import { useInMemorySqs } from './in-memory-sqs/in-memory-sqs-request.handler';
+import { IQueueFlushOptions, QueueHandlerDispatcher } from './queues/queue-handler.dispatcher';
+import { ScheduleRunner } from './schedules/schedule.runner';
+import { invokeController } from '../lib/stacks/lambda/helpers/lambda-handler.helper';
+import { IClaims } from '../lib/stacks/lambda/interfaces/IRequest';
+
+// The lambda code files are loaded with the same extension as this file, so ".ts" when running in Jest.
+const CODE_EXTENSION = path.extname(__filename).slice(1) as 'js' | 'ts';
+
+// A stream handler that writes to the table adds records of its own, which are handled by the next poll.
+const MAX_STREAM_POLLS = 10;
+
+export interface IHarnessOptions {
+	// Only seed the fixtures of these entities, all of them when not set. False starts with an empty table.
+	seed?: string[] | false;
+	// Pass the changes of the table to the @StreamHandler functions on flushStreams().
+	streams?: boolean;
+}
+
+export interface ITestRequestOptions {
+	headers?: Record<string, string>;
+	query?: Record<string, string | number | boolean>;
+}
+
+/**
+ * The parts of the API Gateway event that a test sets, the body can also be an object, which is sent as JSON.
+ */
+export interface ITestEvent {
+	body?: unknown;
+	headers?: Record<string, string>;
+	pathParameters?: Record<string, string>;
+	queryStringParameters?: Record<string, string>;
+	// Claims of the Cognito user pool authorizer.
+	claims?: IClaims;
+}
+
+/**
+ * The result of a request or lambda invocation.
+ */
+export interface ITestResult<T = any> {
+	statusCode: number;
+	headers: Record<string, string>;
+	// The parsed JSON body, or the text when it isn't JSON.
+	body: T;
+	text: string;
+}
+
+/**
+ * Runs the decorator-driven app in the test process, against a table of its own that is seeded from the fixtures.
+ *
+ * @example
+ * let harness: IntegrationTestHarness;
+ * beforeAll(async () => harness = await IntegrationTestHarness.start());
+ * afterAll(() => harness.stop());
+ *
+ * test('creates an item', async () => {
+ * 	const result = await harness.request('POST /items', { name: 'Chair', description: 'A chair.' });
+ * 	expect(result.statusCode).toBe(201);
+ * });
+ *
+ * ! The table name comes from testing/integration-test.env.ts, so only start one harness per test file.
+ */
+export class IntegrationTestHarness {
+	private constructor(
+		private server: http.Server,
+		private setupService: ServerSetupService,
+		readonly baseUrl: string,
+		private queues: QueueHandlerDispatcher,
+		private schedules: ScheduleRunner,
+		private streamPoller?: TableStreamPoller
+	) { }
+
+	/**
+	 * Create and seed the table of the test file and start the app on a free port.
+	 *
+	 * @param options
+	 * @returns
+	 */
+	static async start(options: IHarnessOptions = {}) {
+		if (isInMemoryMode()) useInMemoryDynamoDb();
+		const sqs = useInMemorySqs();
+
+		const setupService = new ServerSetupService();
+		await setupService.createTable();
+		if (options.seed !== false) await setupService.seed(options.seed);
+
+		const server = http.createServer();
+		await new Promise<void>(resolve => server.listen(0, resolve));
+
+		const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+		const { app } = createApp({ extension: CODE_EXTENSION, serverUrl: baseUrl, verbose: false });
+		server.on('request', app);
+
+		const invoker = new LambdaInvoker(CODE_EXTENSION);
+		// Only invoked on flushQueues() and runSchedule(), so that the tests decide when.
+		const queues = new QueueHandlerDispatcher(CODE_EXTENSION, invoker, sqs);
+		const schedules = new ScheduleRunner(CODE_EXTENSION, invoker);
+
+		let streamPoller: TableStreamPoller | undefined;
+		if (options.streams) {
+			const streams = new StreamHandlerDispatcher(CODE_EXTENSION, invoker);
+			streamPoller = new TableStreamPoller(process.env.TABLE_NAME!, records => streams.dispatch(records));
+			// Only the changes of the tests are passed on, not the seeding.
+			await streamPoller.skipToLatest();
+		}
+
+		return new IntegrationTestHarness(server, setupService, baseUrl, queues, schedules, streamPoller);
+	}
+
+	get tableName() {
+		return process.env.TABLE_NAME!;
+	}
+
+	/**
+	 * Send a request to the app, e.g. request('POST /items', { name: 'Chair' }).
+	 *
+	 * @param route - The method and path, e.g. GET /items/1
+	 * @param body - Sent as JSON unless it is a string.
+	 * @param options
+	 * @returns
+	 */
+	async request<T = any>(route: string, body?: unknown, options: ITestRequestOptions = {}): Promise<ITestResult<T>> {
+		const [method, requestPath] = route.trim().split(/\s+/);
+		const url = new URL(requestPath, this.baseUrl);
+		Object.entries(options.query || {}).forEach(([name, value]) => url.searchParams.set(name, String(value)));
+
+		const headers = { ...options.headers };
+		const isJson = body !== undefined && typeof body !== 'string';
+		if (isJson && !Object.keys(headers).some(name => name.toLowerCase() === 'content-type'))
+			headers['Content-Type'] = 'application/json';
+
+		const response = await fetch(url, {
+			method: method.toUpperCase(),
+			headers,
+			body: isJson ? JSON.stringify(body) : body as string | undefined
+		});
+		const text = await response.text();
+
+		return {
+			statusCode: response.status,
+			headers: Object.fromEntries(response.headers),
+			body: parseBody(text),
+			text
+		};
+	}
+
+	/**
+	 * Invoke a controller with a REST API event, the same way its lambda handler would, without going through the app.
+	 *
+	 * @param controller - The class of the controller, e.g. ItemsCreateController.
+	 * @param event
+	 * @param methodName - Only needed when the controller has more than one route.
+	 * @returns
+	 */
+	async invoke<T = any>(controller: Function, event: ITestEvent = {}, methodName?: string): Promise<ITestResult<T>> {
+		const routes = getControllerRoutes(controller);
+		const route = methodName ? routes.find(route => route.methodName === methodName) : routes[0];
+		if (!route) throw new Error(`${controller.name} doesn't have a route${methodName ? ` for ${methodName}` : ''}.`);
+
+		const instance = new (controller as any)();
+		const result: APIGatewayProxyResult = await invokeController(instance, route.methodName, toEvent(route, event));
+		const text = result.body || '';
+
+		return {
+			statusCode: result.statusCode,
+			headers: Object.fromEntries(Object.entries(result.headers || {}).map(([name, value]) => [name, String(value)])),
+			body: parseBody(text),
+			text
+		};
+	}
+
+	/**
+	 * Invoke the stream handlers with the changes since the last flush, until they don't make any changes of their own.
+	 *
+	 * ! Only available when the harness was started with { streams: true }.
+	 *
+	 * @returns - The number of records.
+	 */
+	async flushStreams() {
+		if (!this.streamPoller) throw new Error('Start the harness with { streams: true } to flush the streams.');
+
+		let total = 0;
+		for (let i = 0; i < MAX_STREAM_POLLS; i++) {
+			const count = await this.streamPoller.poll();
+			if (!count) return total;
+
+			total += count;
+		}
+
+		throw new Error(`The stream handlers kept on changing the table after ${MAX_STREAM_POLLS} polls.`);
+	}
+
+	/**
+	 * Invoke the queue handlers with the messages of their queues, until the queues don't have any visible messages left.
+	 *
+	 * @param options - E.g. { skipVisibilityTimeout: true } to retry the failed messages until they are moved to the dead-letter queue.
+	 * @returns - The number of messages, including the retries.
+	 */
+	async flushQueues(options: IQueueFlushOptions = {}) {
+		return await this.queues.flush(options);
+	}
+
+	/**
+	 * The messages that were moved to the dead-letter queue of a queue.
+	 *
+	 * @param queueName - The name of the @Queue decorator, e.g. "item-imports".
+	 * @returns
+	 */
+	deadLetters(queueName: string) {
+		return this.queues.deadLetters(queueName);
+	}
+
+	/**
+	 * Invoke a scheduled handler right away, with the event of its rule.
+	 *
+	 * @param scheduledHandler - The class of the handler, e.g. ItemsCountScheduledHandler.
+	 * @returns - The result of the handler.
+	 */
+	async runSchedule<T = any>(scheduledHandler: Function): Promise<T> {
+		return await this.schedules.run(scheduledHandler);
+	}
+
+	/**
+	 * Write the fixtures to the table again.
+	 *
+	 * @param entities - Only seed the fixtures of these entities, all of them when empty.
+	 */
+	async seed(entities: string[] = []) {
+		await this.setupService.seed(entities);
+		await this.streamPoller?.skipToLatest();
+	}
+
+	/**
+	 * Delete every item of the table.
+	 */
+	async truncate() {
+		await this.setupService.truncate();
+		await this.streamPoller?.skipToLatest();
+	}
+
+	/**
+	 * Get back to the data of the fixtures and empty the queues, e.g. in a beforeEach.
+	 */
+	async reset() {
+		this.queues.purge();
+		await this.setupService.reset();
+		await this.streamPoller?.skipToLatest();
+	}
+
+	/**
+	 * Stop the app and delete the table.
+	 */
+	async stop() {
+		this.server.closeAllConnections();
+		await new Promise(resolve => this.server.close(resolve));
+		await this.setupService.deleteTable();
+	}
+}
+
+/**
+ * Build the REST API (payload version 1.0) event of a route.
+ *
+ * @param route
+ * @param event
+ * @returns
+ */
+const toEvent = (route: IRouteDefinition, { body, headers = {}, pathParameters, queryStringParameters, claims }: ITestEvent) => {
+	const eventPath = route.fullPath.replace(/:(\w+)/g, (match, name) => pathParameters?.[name] ?? match);
+
+	return {
+		resource: `/${toApiGatewayPath(route.fullPath)}`,
+		path: eventPath,
+		httpMethod: route.httpMethod.toUpperCase(),
+		headers,
+		multiValueHeaders: {},
+		queryStringParameters: queryStringParameters || null,
+		multiValueQueryStringParameters: null,
+		pathParameters: pathParameters || null,
+		stageVariables: null,
+		body: body === undefined ? null : typeof body === 'string' ? body : JSON.stringify(body),
+		isBase64Encoded: false,
+		requestContext: {
+			authorizer: claims ? { claims } : undefined
+		}
+	} as unknown as APIGatewayProxyEvent;
+}
+
+const parseBody = (text: string) => {
+	if (!text) return undefined;
+
+	try {
+		return JSON.parse(text);
+	} catch {
+		return text;
+	}
+}
@@ -0,0 +1,89 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Watches the lambda folder and reports the changes once they settle down.
+ *
+ * A single save, or a `tsc -w` build, changes several files at once, which should only cause one reload.
+ *
+ * ? Every folder is watched on its own instead of using the recursive option, which loses track of files that editors replace on save.
+ */
+export class LambdaCodeWatcher {
+	private watchers = new Map<string, fs.FSWatcher>();
+	private timeout?: NodeJS.Timeout;
+	private changedFiles = new Set<string>();
+
+	/**
+	 * @param folder
+	 * @param onChange - Called with the paths of the changed files and folders, relative to the folder.
+	 * @param delay - Milliseconds without changes before they are reported.
+	 */
+	constructor(private folder: string, private onChange: (files: string[]) => void, private delay = 200) { }
+
+	start() {
+		this.watchFolders();
+	}
+
+	stop() {
+		clearTimeout(this.timeout);
+		this.watchers.forEach(watcher => watcher.close());
+		this.watchers.clear();
+	}
+
+	/**
+	 * Watch the folders that were added and stop watching the folders that were removed.
+	 */
+	private watchFolders() {
+		const folders = listFolders(this.folder);
+
+		this.watchers.forEach((watcher, folder) => {
+			if (folders.includes(folder)) return;
+
+			watcher.close();
+			this.watchers.delete(folder);
+		});
+
+		folders.filter(folder => !this.watchers.has(folder)).forEach(folder => {
+			const watcher = fs.watch(folder, (event, file) => this.schedule(path.relative(this.folder, path.join(folder, file || ''))));
+
+			// E.g. the folder was removed, which is also reported as a change of its parent folder.
+			watcher.on('error', () => {
+				watcher.close();
+				this.watchers.delete(folder);
+			});
+
+			this.watchers.set(folder, watcher);
+		});
+	}
+
+	private schedule(file: string) {
+		if (file) this.changedFiles.add(file.split(path.sep).join('/'));
+
+		clearTimeout(this.timeout);
+		this.timeout = setTimeout(() => this.flush(), this.delay);
+	}
+
+	private flush() {
+		const files = [...this.changedFiles].sort();
+		this.changedFiles.clear();
+
+		this.watchFolders();
+		this.onChange(files);
+	}
+}
+
+/**
+ * The folder and all of its sub folders, skipping the ones that are removed while they are listed.
+ *
+ * @param folder
+ * @returns
+ */
+const listFolders = (folder: string): string[] => {
+	try {
+		return [folder, ...fs.readdirSync(folder, { withFileTypes: true })
+			.filter(entry => entry.isDirectory())
+			.flatMap(entry => listFolders(path.join(folder, entry.name)))];
+	} catch {
+		return [];
+	}
+}
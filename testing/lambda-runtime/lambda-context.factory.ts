@@ -0,0 +1,41 @@
+import { Context } from 'aws-lambda';
+import { v4 } from 'uuid';
+
+const LOCAL_ACCOUNT_ID = '123456789012';
+
+export interface ILambdaContextOptions {
+	functionName: string;
+	memorySize: number;
+	// Epoch milliseconds at which the invocation times out.
+	deadline: number;
+	// Id of the container (worker) that runs the invocation, part of the log stream name.
+	containerId: string;
+	awsRequestId?: string;
+}
+
+/**
+ * Create the context that Lambda passes to the handler, next to the event.
+ *
+ * @param options
+ * @returns
+ */
+export const createLambdaContext = ({ functionName, memorySize, deadline, containerId, awsRequestId = v4() }: ILambdaContextOptions): Context => {
+	const region = process.env.REGION || 'local';
+	const date = new Date().toISOString().slice(0, 10).replace(/-/g, '/');
+
+	return {
+		callbackWaitsForEmptyEventLoop: true,
+		functionName,
+		functionVersion: '$LATEST',
+		invokedFunctionArn: `arn:aws:lambda:${region}:${LOCAL_ACCOUNT_ID}:function:${functionName}`,
+		memoryLimitInMB: String(memorySize),
+		awsRequestId,
+		logGroupName: `/aws/lambda/${functionName}`,
+		logStreamName: `${date}/[$LATEST]${containerId}`,
+		getRemainingTimeInMillis: () => Math.max(0, deadline - Date.now()),
+		// The callbacks of the deprecated context methods aren't supported, the handlers are async.
+		done: () => { throw new Error('context.done() is not supported, return the result from the async handler.'); },
+		fail: () => { throw new Error('context.fail() is not supported, throw the error from the async handler.'); },
+		succeed: () => { throw new Error('context.succeed() is not supported, return the result from the async handler.'); }
+	};
+}
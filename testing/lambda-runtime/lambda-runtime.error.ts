@@ -0,0 +1,18 @@
+/**
+ * The function didn't return a result, e.g. it threw, ran out of memory or its code couldn't be loaded.
+ *
+ * API Gateway answers these with a 502, the same as the local server does.
+ */
+export class LambdaRuntimeError extends Error {
+	constructor(message: string, readonly errorType = 'Runtime.ExitError') {
+		super(message);
+		this.name = 'LambdaRuntimeError';
+	}
+}
+
+export class LambdaTimeoutError extends LambdaRuntimeError {
+	constructor(timeout: number) {
+		super(`Task timed out after ${timeout.toFixed(2)} seconds`, 'Sandbox.Timedout');
+		this.name = 'LambdaTimeoutError';
+	}
+}
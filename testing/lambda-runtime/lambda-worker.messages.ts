@@ -0,0 +1,47 @@
+/**
+ * The messages between the worker pool (main thread) and the workers that run the functions.
+ */
+
+// The in-memory services of the main thread, which the workers send the requests of their clients to.
+export type LocalService = 'dynamodb' | 'sqs';
+
+export interface ILambdaWorkerData {
+	functionName: string;
+	// Absolute path of the code file that exports the handler.
+	codeFile: string;
+	handlerName: string;
+	memorySize: number;
+	containerId: string;
+	// Send the requests of these clients to the main thread, e.g. to the in-memory DynamoDB.
+	localServices: LocalService[];
+}
+
+export interface ISerializedError {
+	name: string;
+	message: string;
+	stack?: string;
+}
+
+export interface IHttpMessage {
+	statusCode?: number;
+	headers: Record<string, string>;
+	body: string;
+}
+
+export type ToWorkerMessage =
+	| { type: 'invoke'; awsRequestId: string; event: unknown; deadline: number }
+	| { type: 'aws'; service: LocalService; id: number; response: IHttpMessage };
+
+export type FromWorkerMessage =
+	// The code was loaded, which is the init phase of a cold start.
+	| { type: 'ready'; initDuration: number }
+	| { type: 'init-error'; error: ISerializedError }
+	| { type: 'result'; result: unknown; maxMemoryUsed: number }
+	| { type: 'error'; error: ISerializedError; maxMemoryUsed: number }
+	| { type: 'aws'; service: LocalService; id: number; request: IHttpMessage };
+
+export const serializeError = (error: any): ISerializedError => ({
+	name: error?.name || 'Error',
+	message: error?.message ?? String(error),
+	stack: error?.stack
+});
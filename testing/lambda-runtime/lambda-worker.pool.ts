@@ -0,0 +1,308 @@
+import path from 'path';
+import { v4 } from 'uuid';
+import { Worker } from 'worker_threads';
+
+import { InMemoryDynamoDb } from '../in-memory-dynamodb/in-memory-dynamodb.store';
+import { InMemoryRequestHandler } from '../in-memory-dynamodb/in-memory-request.handler';
+import { InMemorySqs } from '../in-memory-sqs/in-memory-sqs.store';
+import { InMemorySqsRequestHandler } from '../in-memory-sqs/in-memory-sqs-request.handler';
+import { LambdaRuntimeError, LambdaTimeoutError } from './lambda-runtime.error';
+import { FromWorkerMessage, IHttpMessage, ILambdaWorkerData, LocalService } from './lambda-worker.messages';
+
+// The worker is loaded with the same extension as this file, so through ts-node when the server runs from the ".ts" files.
+const WORKER_FILE = path.join(__dirname, `lambda.worker${path.extname(__filename)}`);
+
+const DEFAULT_IDLE_TIMEOUT = 5 * 60 * 1000;
+
+export interface ILambdaFunction {
+	functionName: string;
+	// Absolute path of the code file that exports the handler.
+	codeFile: string;
+	handlerName?: string;
+	// Seconds
+	timeout: number;
+	// MB
+	memorySize: number;
+}
+
+export interface ILambdaWorkerPoolOptions {
+	// The in-memory DynamoDB of the main thread, the functions then use it as well.
+	database?: InMemoryDynamoDb;
+	// The in-memory SQS of the main thread, the functions then send their messages to it.
+	sqs?: InMemorySqs;
+	// Milliseconds before an idle container is stopped, so that the next invocation is a cold start again. 0 makes every invocation a cold start.
+	idleTimeout?: number;
+}
+
+type InvocationMessage = Extract<FromWorkerMessage, { type: 'result' | 'error' }>;
+
+interface IContainer {
+	id: string;
+	functionName: string;
+	worker: Worker;
+	// Containers of an older generation are stopped once they are done, e.g. after the code was reloaded.
+	generation: number;
+	// Resolves with the init duration once the code is loaded.
+	ready: Promise<number>;
+	invocation?: {
+		resolve: (message: InvocationMessage) => void;
+		reject: (error: Error) => void;
+	};
+	idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Runs every invocation of a function in a worker thread, like the containers of Lambda.
+ *
+ * A container handles one invocation at a time and is reused for the next invocation of the same function (a warm start),
+ * so module-level state is kept between those invocations only. When all the containers of a function are busy, or it has none yet,
+ * a new one is started (a cold start). The timeout and memory size of the function are enforced, a container that exceeds them is stopped.
+ */
+export class LambdaWorkerPool {
+	private containers = new Map<string, IContainer[]>();
+	private generation = 0;
+	private localHandlers: Partial<Record<LocalService, InMemoryRequestHandler | InMemorySqsRequestHandler>> = {};
+	private idleTimeout: number;
+
+	constructor(options: ILambdaWorkerPoolOptions = {}) {
+		if (options.database) this.localHandlers.dynamodb = new InMemoryRequestHandler(options.database);
+		if (options.sqs) this.localHandlers.sqs = new InMemorySqsRequestHandler(options.sqs);
+		this.idleTimeout = options.idleTimeout ?? DEFAULT_IDLE_TIMEOUT;
+	}
+
+	/**
+	 * Invoke a function with an event, the same way Lambda would.
+	 *
+	 * ! Throws a LambdaRuntimeError when the function doesn't return a result, e.g. a LambdaTimeoutError.
+	 *
+	 * @param fn
+	 * @param event
+	 * @returns - The result of the handler.
+	 */
+	async invoke<T = any>(fn: ILambdaFunction, event: unknown): Promise<T> {
+		const idleContainer = this.getContainers(fn.functionName).find(container => !container.invocation && container.generation === this.generation);
+		const container = idleContainer || this.startContainer(fn);
+		clearTimeout(container.idleTimer);
+
+		const awsRequestId = v4();
+		const log = (message: string) => console.log(`[${fn.functionName}] ${message}`);
+
+		// Claimed before the init phase, so that a concurrent invocation starts a container of its own.
+		let message: InvocationMessage | undefined;
+		const invocation = new Promise<InvocationMessage>((resolve, reject) => container.invocation = { resolve, reject });
+		invocation.catch(() => undefined);
+
+		let initDuration: number | undefined;
+		try {
+			initDuration = await container.ready;
+		} catch (error) {
+			this.stopContainer(container);
+			throw error;
+		}
+
+		log(`START RequestId: ${awsRequestId} Version: $LATEST`);
+		const start = performance.now();
+		const timer = setTimeout(() => container.invocation?.reject(new LambdaTimeoutError(fn.timeout)), fn.timeout * 1000);
+
+		try {
+			container.worker.postMessage({ type: 'invoke', awsRequestId, event, deadline: Date.now() + fn.timeout * 1000 });
+			message = await invocation;
+		} catch (error: any) {
+			// The runtime is restarted after a timeout or a crash, the next invocation is a cold start.
+			this.stopContainer(container);
+			log(`${awsRequestId} ${error.message}`);
+			throw error;
+		} finally {
+			clearTimeout(timer);
+
+			const duration = performance.now() - start;
+			log(`END RequestId: ${awsRequestId}`);
+			log([
+				`REPORT RequestId: ${awsRequestId}`,
+				`Duration: ${duration.toFixed(2)} ms`,
+				`Billed Duration: ${Math.ceil(duration)} ms`,
+				`Memory Size: ${fn.memorySize} MB`,
+				message && `Max Memory Used: ${message.maxMemoryUsed} MB`,
+				idleContainer ? undefined : `Init Duration: ${initDuration!.toFixed(2)} ms`
+			].filter(Boolean).join('\t'));
+		}
+
+		this.releaseContainer(container);
+
+		if (message.type === 'error')
+			throw new LambdaRuntimeError(`${message.error.name}: ${message.error.message}`, message.error.name);
+
+		return message.result as T;
+	}
+
+	/**
+	 * Stop the idle containers, and the busy ones once they are done, so that the next invocations load the current code.
+	 */
+	drain() {
+		this.generation++;
+
+		[...this.containers.values()].flat()
+			.filter(container => !container.invocation)
+			.forEach(container => this.stopContainer(container));
+	}
+
+	/**
+	 * Stop all the containers.
+	 */
+	async stop() {
+		const containers = [...this.containers.values()].flat();
+		this.containers.clear();
+
+		await Promise.all(containers.map(container => {
+			clearTimeout(container.idleTimer);
+			return container.worker.terminate();
+		}));
+	}
+
+	private getContainers(functionName: string) {
+		if (!this.containers.has(functionName)) this.containers.set(functionName, []);
+		return this.containers.get(functionName)!;
+	}
+
+	/**
+	 * Start a new container, which loads the code of the function.
+	 *
+	 * @param fn
+	 * @returns
+	 */
+	private startContainer(fn: ILambdaFunction) {
+		const containerId = v4().replace(/-/g, '');
+		const workerData: ILambdaWorkerData = {
+			functionName: fn.functionName,
+			codeFile: fn.codeFile,
+			handlerName: fn.handlerName || 'handler',
+			memorySize: fn.memorySize,
+			containerId,
+			localServices: Object.keys(this.localHandlers) as LocalService[]
+		};
+
+		const { script, isEval } = this.getWorkerScript();
+		const worker = new Worker(script, {
+			eval: isEval,
+			workerData,
+			env: {
+				...process.env,
+				AWS_LAMBDA_FUNCTION_NAME: fn.functionName,
+				AWS_LAMBDA_FUNCTION_MEMORY_SIZE: String(fn.memorySize),
+				AWS_LAMBDA_FUNCTION_VERSION: '$LATEST',
+				AWS_REGION: process.env.REGION || 'local'
+			},
+			resourceLimits: { maxOldGenerationSizeMb: fn.memorySize }
+		});
+
+		let onReady!: (initDuration: number) => void;
+		let onInitError!: (error: Error) => void;
+
+		const container: IContainer = {
+			id: containerId,
+			functionName: fn.functionName,
+			worker,
+			generation: this.generation,
+			ready: new Promise<number>((resolve, reject) => {
+				onReady = resolve;
+				onInitError = reject;
+			})
+		};
+		// Only awaited by the invocations, but an init error may happen before that.
+		container.ready.catch(() => undefined);
+
+		worker.on('message', (message: FromWorkerMessage) => {
+			switch (message.type) {
+				case 'ready': return onReady(message.initDuration);
+				case 'init-error': return onInitError(new LambdaRuntimeError(`${message.error.name}: ${message.error.message}`, 'Runtime.ImportModuleError'));
+				case 'aws': return this.handleLocalServiceRequest(worker, message.service, message.id, message.request);
+				default: return container.invocation?.resolve(message);
+			}
+		});
+
+		// E.g. ERR_WORKER_OUT_OF_MEMORY when the memory size is exceeded.
+		worker.on('error', (error: any) => {
+			const exitError = new LambdaRuntimeError(`Runtime exited with error: ${error.code || error.name}: ${error.message}`);
+
+			onInitError(exitError);
+			container.invocation?.reject(exitError);
+		});
+
+		worker.on('exit', () => {
+			const containers = this.getContainers(fn.functionName);
+			if (containers.includes(container)) containers.splice(containers.indexOf(container), 1);
+
+			const exitError = new LambdaRuntimeError('Runtime exited without providing a reason');
+			onInitError(exitError);
+			container.invocation?.reject(exitError);
+		});
+
+		this.getContainers(fn.functionName).push(container);
+		return container;
+	}
+
+	/**
+	 * Keep the container for the next invocation, until it has been idle for too long.
+	 *
+	 * @param container
+	 */
+	private releaseContainer(container: IContainer) {
+		container.invocation = undefined;
+
+		if (container.generation !== this.generation || this.idleTimeout <= 0) return this.stopContainer(container);
+
+		container.idleTimer = setTimeout(() => this.stopContainer(container), this.idleTimeout);
+	}
+
+	private stopContainer(container: IContainer) {
+		clearTimeout(container.idleTimer);
+
+		const containers = this.getContainers(container.functionName);
+		if (containers.includes(container)) containers.splice(containers.indexOf(container), 1);
+
+		container.worker.terminate();
+	}
+
+	/**
+	 * The ".ts" worker can't be started directly, it is loaded through ts-node instead.
+	 *
+	 * @returns - The file of the worker, or the code that loads it.
+	 */
+	private getWorkerScript() {
+		if (path.extname(WORKER_FILE) !== '.ts') return { script: WORKER_FILE, isEval: false };
+
+		return { script: `require('ts-node').register({ transpileOnly: true }); require(${JSON.stringify(WORKER_FILE)});`, isEval: true };
+	}
+
+	/**
+	 * Answer a request of a worker from the in-memory service of the main thread, e.g. the in-memory DynamoDB.
+	 *
+	 * ! When the service fails, the worker gets a 500 response, so that its client throws instead of waiting for the response until the timeout.
+	 *
+	 * @param worker
+	 * @param service
+	 * @param id
+	 * @param request
+	 */
+	private async handleLocalServiceRequest(worker: Worker, service: LocalService, id: number, request: IHttpMessage) {
+		let response: IHttpMessage;
+
+		try {
+			const { response: handled } = await this.localHandlers[service]!.handle(request);
+			response = { statusCode: handled.statusCode, headers: handled.headers, body: handled.body.toString('utf-8') };
+		} catch (error: any) {
+			console.error(`The in-memory ${service} failed to handle a request:`, error);
+
+			response = {
+				statusCode: 500,
+				headers: { 'content-type': 'application/x-amz-json-1.0', 'x-amzn-requestid': v4() },
+				body: JSON.stringify({ __type: 'InternalFailure', message: error?.message ?? String(error) })
+			};
+		}
+
+		worker.postMessage({ type: 'aws', service, id, response });
+	}
+}
+
+// Runs every invocation in a worker thread when LAMBDA_EXECUTION=worker is set in testing/.env, instead of in the process of the server.
+export const isWorkerMode = () => process.env.LAMBDA_EXECUTION === 'worker';
@@ -0,0 +1,50 @@
+import path from 'path';
+import { Context } from 'aws-lambda';
+
+import { LAMBDA_CODE_FOLDER } from '../paths';
+import { createLambdaContext } from './lambda-context.factory';
+import { ILambdaFunction, LambdaWorkerPool } from './lambda-worker.pool';
+import { getFunctionDefinition, getFunctionName } from '../../lib/stacks/lambda/lambda-function.definition';
+
+/**
+ * Invokes the function of a lambda code file, in the process of the local server or in a container of the worker pool.
+ *
+ * Both get the name, timeout and memory size of the deployed function and a Lambda context, but only the pool enforces the limits.
+ */
+export class LambdaInvoker {
+	constructor(private extension: 'js' | 'ts', private pool?: LambdaWorkerPool) { }
+
+	/**
+	 * Invoke the function of a lambda code file with an event.
+	 *
+	 * The pool invokes the exported handler of the code file, in this process the given function is called instead, e.g. a method of a controller.
+	 *
+	 * @param folder - Folder inside of the lambda code folder, e.g. "items".
+	 * @param codeFile - Name of the code file without the ".lambda-code" suffix, e.g. "create".
+	 * @param event
+	 * @param invokeInProcess
+	 * @returns - The result of the handler.
+	 */
+	async invoke(folder: string, codeFile: string, event: unknown, invokeInProcess: (context: Context) => Promise<any>) {
+		const fn = this.getFunction(folder, codeFile);
+
+		if (this.pool) return await this.pool.invoke(fn, event);
+
+		const context = createLambdaContext({
+			functionName: fn.functionName,
+			memorySize: fn.memorySize,
+			containerId: 'local',
+			deadline: Date.now() + fn.timeout * 1000
+		});
+
+		return await invokeInProcess(context);
+	}
+
+	private getFunction(folder: string, codeFile: string): ILambdaFunction {
+		return {
+			functionName: getFunctionName(process.env.STAGE || 'local', folder, codeFile),
+			codeFile: path.join(LAMBDA_CODE_FOLDER, folder, `${codeFile}.lambda-code.${this.extension}`),
+			...getFunctionDefinition(folder, codeFile)
+		};
+	}
+}
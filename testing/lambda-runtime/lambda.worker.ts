@@ -0,0 +1,87 @@
+import 'reflect-metadata';
+import v8 from 'v8';
+import { parentPort, workerData } from 'worker_threads';
+
+import { setLocalRequestHandler } from '../../lib/stacks/lambda/services/dynamodb-client.factory';
+import { setLocalSqsRequestHandler } from '../../lib/stacks/lambda/services/sqs-client.factory';
+import { createLambdaContext } from './lambda-context.factory';
+import { FromWorkerMessage, IHttpMessage, ILambdaWorkerData, LocalService, serializeError, ToWorkerMessage } from './lambda-worker.messages';
+
+/**
+ * Runs a single function, like a Lambda container: the code is loaded once and then handles one invocation at a time.
+ */
+
+const { functionName, codeFile, handlerName, memorySize, containerId, localServices }: ILambdaWorkerData = workerData;
+
+const port = parentPort!;
+const post = (message: FromWorkerMessage) => port.postMessage(message);
+
+/**
+ * Sends the requests of the clients of a service to the main thread, which holds the in-memory version of it.
+ */
+class LocalServiceProxyHandler {
+	private lastId = 0;
+	private pending = new Map<number, (response: IHttpMessage) => void>();
+
+	constructor(private service: LocalService) { }
+
+	async handle(request: { headers: Record<string, string>; body?: string | Uint8Array }) {
+		const id = ++this.lastId;
+		const body = typeof request.body === 'string' ? request.body : Buffer.from(request.body || []).toString('utf-8');
+
+		const response = await new Promise<IHttpMessage>(resolve => {
+			this.pending.set(id, resolve);
+			post({ type: 'aws', service: this.service, id, request: { headers: request.headers, body } });
+		});
+
+		return { response: { ...response, body: Buffer.from(response.body) } };
+	}
+
+	resolve(id: number, response: IHttpMessage) {
+		this.pending.get(id)?.(response);
+		this.pending.delete(id);
+	}
+
+	updateHttpClientConfig() { }
+
+	httpHandlerConfigs() {
+		return {};
+	}
+
+	destroy() { }
+}
+
+const proxies: Record<LocalService, LocalServiceProxyHandler> = {
+	dynamodb: new LocalServiceProxyHandler('dynamodb'),
+	sqs: new LocalServiceProxyHandler('sqs')
+};
+if (localServices.includes('dynamodb')) setLocalRequestHandler(proxies.dynamodb);
+if (localServices.includes('sqs')) setLocalSqsRequestHandler(proxies.sqs);
+
+const getMaxMemoryUsed = () => Math.ceil(v8.getHeapStatistics().total_heap_size / 1024 / 1024);
+
+let handler: (event: unknown, context: unknown) => Promise<unknown>;
+
+// The init phase, the code outside of the handler runs once per container.
+const initStart = performance.now();
+try {
+	handler = require(codeFile)[handlerName];
+	if (typeof handler !== 'function') throw new Error(`${codeFile} doesn't export a "${handlerName}" function.`);
+
+	post({ type: 'ready', initDuration: performance.now() - initStart });
+} catch (error: any) {
+	post({ type: 'init-error', error: serializeError(error) });
+}
+
+port.on('message', async (message: ToWorkerMessage) => {
+	if (message.type === 'aws') return proxies[message.service].resolve(message.id, message.response);
+
+	const context = createLambdaContext({ functionName, memorySize, containerId, deadline: message.deadline, awsRequestId: message.awsRequestId });
+
+	try {
+		const result = await handler(message.event, context);
+		post({ type: 'result', result, maxMemoryUsed: getMaxMemoryUsed() });
+	} catch (error: any) {
+		post({ type: 'error', error: serializeError(error), maxMemoryUsed: getMaxMemoryUsed() });
+	}
+});
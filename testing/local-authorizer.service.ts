@@ -0,0 +1,170 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { v4 } from 'uuid';
+
+import { IClaims } from '../lib/stacks/lambda/interfaces/IRequest';
+import { IRouteDefinition } from './decorators';
+import { TESTING_FOLDER } from './paths';
+
+// Kept in the source folder, so that the same key is used by every build.
+const KEY_PATH = path.join(TESTING_FOLDER, '.local-jwt-key.pem');
+
+export interface IAuthorizerResult {
+	// Set when the request is rejected, with the same status and message a Cognito user pool authorizer returns.
+	error?: {
+		statusCode: 401;
+		message: string;
+	};
+	claims?: IClaims;
+}
+
+/**
+ * Emulates the Cognito user pool authorizer of API Gateway for the local server.
+ *
+ * Tokens are signed with a locally generated RSA key, which means they will only work against the local server.
+ * Like the deployed authorizer, this only validates the token, the @UserTypes() are checked by the auth middleware.
+ */
+export class LocalAuthorizerService {
+	private privateKey: crypto.KeyObject;
+	private publicKey: crypto.KeyObject;
+
+	constructor() {
+		this.loadKeys();
+	}
+
+	/**
+	 * The authorizer is only active when a user pool is configured, the same as the deployed API.
+	 *
+	 * @returns
+	 */
+	static isEnabled() {
+		return !!process.env.USERPOOL_ID;
+	}
+
+	/**
+	 * Create a signed ID token for the given claims.
+	 *
+	 * @param claims
+	 * @param expiresInSeconds
+	 * @returns
+	 */
+	signToken(claims: Partial<IClaims>, expiresInSeconds = 60 * 60) {
+		const now = Math.floor(Date.now() / 1000);
+		const sub = claims.sub || v4();
+
+		const header = { alg: 'RS256', typ: 'JWT', kid: 'local' };
+		const payload = {
+			sub,
+			'cognito:username': sub,
+			email_verified: true,
+			...claims,
+			iss: this.getIssuer(),
+			aud: 'local',
+			token_use: 'id',
+			auth_time: now,
+			iat: now,
+			exp: now + expiresInSeconds
+		};
+
+		const unsigned = `${this.encode(header)}.${this.encode(payload)}`;
+		const signature = crypto.sign('RSA-SHA256', Buffer.from(unsigned), this.privateKey).toString('base64url');
+
+		return `${unsigned}.${signature}`;
+	}
+
+	/**
+	 * Check the Authorization header for a route, and get the claims of its token or of the dev identity.
+	 *
+	 * @param route
+	 * @param authorizationHeader
+	 * @returns
+	 */
+	authorize(route: IRouteDefinition, authorizationHeader: string | undefined): IAuthorizerResult {
+		if (route.isPublic) return {};
+
+		let claims: IClaims | undefined;
+		if (authorizationHeader) {
+			// Cognito accepts the token with or without the "Bearer" prefix.
+			const token = authorizationHeader.replace(/^Bearer\s+/i, '');
+			const result = this.verifyToken(token);
+			if (result.error) return result;
+
+			claims = result.claims;
+		} else if (process.env.DEV_USER_EMAIL) {
+			claims = this.getDevIdentity();
+		} else {
+			return { error: { statusCode: 401, message: 'Unauthorized' } };
+		}
+
+		return { claims };
+	}
+
+	/**
+	 * Verify the signature, issuer and expiry of a token.
+	 *
+	 * @param token
+	 * @returns
+	 */
+	private verifyToken(token: string): IAuthorizerResult {
+		const unauthorized: IAuthorizerResult = { error: { statusCode: 401, message: 'Unauthorized' } };
+
+		const [header, payload, signature] = token.split('.');
+		if (!header || !payload || !signature) return unauthorized;
+
+		const isValid = crypto.verify('RSA-SHA256', Buffer.from(`${header}.${payload}`), this.publicKey, Buffer.from(signature, 'base64url'));
+		if (!isValid) return unauthorized;
+
+		let claims: any;
+		try {
+			claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+		} catch (error) {
+			return unauthorized;
+		}
+
+		if (claims.iss !== this.getIssuer() || claims.token_use !== 'id') return unauthorized;
+		// A token without an expiry would be valid forever.
+		if (typeof claims.exp !== 'number') return unauthorized;
+		if (claims.exp * 1000 < Date.now()) return { error: { statusCode: 401, message: 'The incoming token has expired' } };
+
+		return { claims };
+	}
+
+	/**
+	 * Claims of the dev identity configured in testing/.env.
+	 *
+	 * @returns
+	 */
+	private getDevIdentity(): IClaims {
+		const claims: IClaims = {
+			sub: 'local-dev-user',
+			email: process.env.DEV_USER_EMAIL!
+		};
+
+		if (process.env.DEV_USER_TYPE) claims['custom:userType'] = process.env.DEV_USER_TYPE;
+		return claims;
+	}
+
+	/**
+	 * Load the signing key, or generate one on the first run.
+	 */
+	private loadKeys() {
+		if (!fs.existsSync(KEY_PATH)) {
+			console.log(`Generating local JWT signing key: ${KEY_PATH}`);
+
+			const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+			fs.writeFileSync(KEY_PATH, privateKey.export({ type: 'pkcs8', format: 'pem' }));
+		}
+
+		this.privateKey = crypto.createPrivateKey(fs.readFileSync(KEY_PATH, 'utf-8'));
+		this.publicKey = crypto.createPublicKey(this.privateKey);
+	}
+
+	private getIssuer() {
+		return `https://cognito-idp.local/${process.env.USERPOOL_ID || 'local'}`;
+	}
+
+	private encode(value: object) {
+		return Buffer.from(JSON.stringify(value)).toString('base64url');
+	}
+}
@@ -0,0 +1,173 @@
+import { getResponses, getValidationSchemas, IRouteDefinition } from './decorators';
+import { ILoadedController, toApiGatewayPath } from './controller.loader';
+
+export interface IOpenApiOptions {
+	title: string;
+	version: string;
+	// API Gateway only imports OpenAPI 3.0 documents.
+	openApiVersion?: '3.1.0' | '3.0.1';
+	serverUrl?: string;
+	// Adds the authorizer to every route that isn't public.
+	withAuth?: boolean;
+	// Extra properties for the security scheme, e.g. the API Gateway authorizer extension.
+	securitySchemeExtensions?: Record<string, any>;
+	// Extra properties for every operation, e.g. the API Gateway integration extension.
+	operationExtensions?: (controller: ILoadedController, route: IRouteDefinition) => Record<string, any>;
+}
+
+const JSON_CONTENT = 'application/json';
+
+/**
+ * Build an OpenAPI document from the routes, schemas and responses registered through the decorators.
+ *
+ * @param loadedControllers
+ * @param options
+ * @returns
+ */
+export const buildOpenApiDocument = (loadedControllers: ILoadedController[], options: IOpenApiOptions) => {
+	const paths: Record<string, any> = {};
+
+	loadedControllers.forEach(loaded => {
+		const prototype = loaded.controller.prototype;
+
+		loaded.routes.forEach(route => {
+			const path = `/${toApiGatewayPath(route.fullPath)}`;
+			const method = route.httpMethod === 'all' ? 'x-amazon-apigateway-any-method' : route.httpMethod;
+			const schemas = getValidationSchemas(prototype, route.methodName);
+
+			const operation: Record<string, any> = {
+				operationId: `${loaded.controller.name}.${route.methodName}`,
+				tags: [loaded.folder],
+				parameters: [
+					...getPathParameters(route.fullPath, schemas.params),
+					...getQueryParameters(schemas.query)
+				],
+				responses: getOperationResponses(prototype, route, !!schemas.body || !!schemas.query || !!schemas.params, !!options.withAuth)
+			};
+
+			if (schemas.body)
+				operation.requestBody = {
+					required: true,
+					content: { [JSON_CONTENT]: { schema: schemas.body } }
+				};
+
+			if (options.withAuth) operation.security = route.isPublic ? [] : [{ cognito: [] }];
+			if (options.operationExtensions) Object.assign(operation, options.operationExtensions(loaded, route));
+
+			(paths[path] ||= {})[method] = operation;
+		});
+	});
+
+	const document: Record<string, any> = {
+		openapi: options.openApiVersion || '3.1.0',
+		info: {
+			title: options.title,
+			version: options.version
+		},
+		paths
+	};
+
+	if (options.serverUrl) document.servers = [{ url: options.serverUrl }];
+
+	if (options.withAuth)
+		document.components = {
+			securitySchemes: {
+				cognito: {
+					type: 'apiKey',
+					name: 'Authorization',
+					in: 'header',
+					description: 'Cognito ID token.',
+					...options.securitySchemeExtensions
+				}
+			}
+		};
+
+	return document;
+}
+
+/**
+ * An HTML page that renders the document with Swagger UI.
+ *
+ * @param documentUrl
+ * @returns
+ */
+export const buildSwaggerUiPage = (documentUrl: string) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="utf-8" />
+	<title>API Documentation</title>
+	<link rel="stylesheet" href="https://unpkg.com/swagger-ui-dist@5/swagger-ui.css" />
+</head>
+<body>
+	<div id="swagger-ui"></div>
+	<script src="https://unpkg.com/swagger-ui-dist@5/swagger-ui-bundle.js"></script>
+	<script>
+		window.ui = SwaggerUIBundle({ url: '${documentUrl}', dom_id: '#swagger-ui' });
+	</script>
+</body>
+</html>`;
+
+/**
+ * Get the path parameters from the route, using the types from the @Params schema when there is one.
+ *
+ * @param fullPath
+ * @param schema
+ * @returns
+ */
+const getPathParameters = (fullPath: string, schema: any) => {
+	const names = [...fullPath.matchAll(/:(\w+)/g)].map(match => match[1]);
+
+	return names.map(name => ({
+		name,
+		in: 'path',
+		required: true,
+		schema: schema?.properties?.[name] || { type: 'string' }
+	}));
+}
+
+/**
+ * Get the query string parameters from the @Query schema.
+ *
+ * @param schema
+ * @returns
+ */
+const getQueryParameters = (schema: any) => {
+	const properties: Record<string, any> = schema?.properties || {};
+	const required: string[] = schema?.required || [];
+
+	return Object.keys(properties).map(name => ({
+		name,
+		in: 'query',
+		required: required.includes(name),
+		schema: properties[name]
+	}));
+}
+
+/**
+ * Get the responses from @ApiResponse, adding the ones that are returned before the handler runs.
+ *
+ * @param prototype
+ * @param route
+ * @param isValidated
+ * @param withAuth
+ * @returns
+ */
+const getOperationResponses = (prototype: any, route: IRouteDefinition, isValidated: boolean, withAuth: boolean) => {
+	const responses: Record<string, any> = {};
+
+	getResponses(prototype, route.methodName).forEach(({ status, description, schema }) => {
+		responses[status] = { description };
+		if (schema) responses[status].content = { [JSON_CONTENT]: { schema } };
+	});
+
+	if (isValidated && !responses[400]) responses[400] = { description: 'The request is invalid.' };
+
+	if (withAuth && !route.isPublic) {
+		responses[401] ||= { description: 'The token is missing, invalid or expired.' };
+		if (route.userTypes.length) responses[403] ||= { description: `Only for users of type: ${route.userTypes.join(', ')}.` };
+	}
+
+	if (!Object.keys(responses).length) responses.default = { description: 'Response of the handler.' };
+
+	return responses;
+}
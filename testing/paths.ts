@@ -0,0 +1,20 @@
+import path from 'path';
+
+/**
+ * The source "testing" folder, which holds the .env and data files.
+ *
+ * ? When running from the dist folder, this will go out of the dist folder to find it.
+ */
+export const TESTING_FOLDER = path.basename(path.resolve(__dirname, '..')) === 'dist'
+	? path.resolve(__dirname, '..', '..', 'testing')
+	: __dirname;
+
+/**
+ * The lambda folder, next to this file's own "testing" folder (so the compiled code when running from the dist folder).
+ */
+export const LAMBDA_FOLDER = path.resolve(__dirname, '..', 'lib', 'stacks', 'lambda');
+
+/**
+ * The lambda code folder, with a "*.lambda-code" file per function.
+ */
+export const LAMBDA_CODE_FOLDER = path.join(LAMBDA_FOLDER, 'code');
@@ -0,0 +1,202 @@
+import { SQSBatchResponse, SQSEvent, SQSRecord } from 'aws-lambda';
+
+import { IReloadable } from '../app.factory';
+import { ILoadedQueueHandler, loadQueueHandlers } from '../controller.loader';
+import { QUEUE_DEFAULTS } from '../decorators';
+import { InMemoryQueue, IQueueMessage } from '../in-memory-sqs/in-memory.queue';
+import { InMemorySqs } from '../in-memory-sqs/in-memory-sqs.store';
+import { LambdaInvoker } from '../lambda-runtime/lambda.invoker';
+import { invokeHandler } from '../../lib/stacks/lambda/helpers/lambda-handler.helper';
+import { getDeadLetterQueueName, getFunctionDefinition, getQueueName } from '../../lib/stacks/lambda/lambda-function.definition';
+
+const DEFAULT_INTERVAL = 1000;
+
+// A queue handler that sends messages to a queue adds messages of its own, which are handled by the next poll.
+const MAX_FLUSH_POLLS = 100;
+
+export interface IQueueFlushOptions {
+	// Make the failed messages visible again right away, instead of after the visibility timeout, so that their retries are flushed as well.
+	skipVisibilityTimeout?: boolean;
+}
+
+/**
+ * Creates the queues of the @Queue handlers in the in-memory SQS and invokes the handlers with their messages, like their event source mappings do.
+ *
+ * A message is deleted when the handler succeeds. When it fails, or reports the message in its batchItemFailures, the message is received again
+ * after the visibility timeout, until it is moved to the dead-letter queue.
+ */
+export class QueueHandlerDispatcher implements IReloadable {
+	private queueHandlers: ILoadedQueueHandler[] = [];
+	private timer?: NodeJS.Timeout;
+	private stage = process.env.STAGE || 'local';
+
+	/**
+	 * @param extension
+	 * @param invoker
+	 * @param sqs
+	 * @param interval - Milliseconds between polls.
+	 */
+	constructor(private extension: 'js' | 'ts', private invoker: LambdaInvoker, private sqs: InMemorySqs, private interval = DEFAULT_INTERVAL) {
+		this.prepareReload().commit();
+	}
+
+	get handlers() {
+		return this.queueHandlers;
+	}
+
+	/**
+	 * Load the queue handlers of the current lambda code, which replace the current ones once committed.
+	 * The commit creates or updates their queues, the messages are kept.
+	 *
+	 * ! Throws for duplicate queues and too short visibility timeouts, the previous handlers are then still used.
+	 * ! The app unloads the lambda code on a reload, so call this after ILocalApp.prepareReload().
+	 */
+	prepareReload() {
+		const queueHandlers = loadQueueHandlers(this.extension);
+
+		return {
+			commit: () => {
+				this.queueHandlers = queueHandlers;
+
+				this.queueHandlers.forEach(({ folder, codeFile, queueName, options }) => {
+					const deadLetterQueue = this.sqs.createQueue(getDeadLetterQueueName(this.stage, queueName), {
+						visibilityTimeout: getFunctionDefinition(folder, codeFile).timeout
+					});
+
+					this.sqs.createQueue(getQueueName(this.stage, queueName), {
+						visibilityTimeout: options.visibilityTimeout ?? getFunctionDefinition(folder, codeFile).timeout * QUEUE_DEFAULTS.visibilityTimeoutFactor,
+						maxReceiveCount: options.maxReceiveCount || QUEUE_DEFAULTS.maxReceiveCount,
+						deadLetterQueue
+					});
+				});
+			}
+		};
+	}
+
+	start() {
+		this.schedule();
+	}
+
+	stop() {
+		clearTimeout(this.timer);
+		this.timer = undefined;
+	}
+
+	/**
+	 * Invoke every queue handler once, with a batch of the visible messages of its queue.
+	 *
+	 * @param options
+	 * @returns - The number of messages.
+	 */
+	async poll(options: IQueueFlushOptions = {}) {
+		let total = 0;
+
+		for (const queueHandler of this.queueHandlers) {
+			const queue = this.sqs.getQueue(getQueueName(this.stage, queueHandler.queueName));
+			const messages = queue.receive(queueHandler.options.batchSize || QUEUE_DEFAULTS.batchSize);
+			if (!messages.length) continue;
+
+			total += messages.length;
+			await this.handleBatch(queueHandler, queue, messages, options);
+		}
+
+		return total;
+	}
+
+	/**
+	 * Invoke the queue handlers until their queues don't have any visible messages left.
+	 *
+	 * @param options
+	 * @returns - The number of messages, including the retries.
+	 */
+	async flush(options: IQueueFlushOptions = {}) {
+		let total = 0;
+		for (let i = 0; i < MAX_FLUSH_POLLS; i++) {
+			const count = await this.poll(options);
+			if (!count) return total;
+
+			total += count;
+		}
+
+		throw new Error(`The queues still had messages after ${MAX_FLUSH_POLLS} polls.`);
+	}
+
+	/**
+	 * Delete the messages of every queue and dead-letter queue.
+	 */
+	purge() {
+		this.queueHandlers.forEach(({ queueName }) => {
+			this.sqs.getQueue(getQueueName(this.stage, queueName)).purge();
+			this.sqs.getQueue(getDeadLetterQueueName(this.stage, queueName)).purge();
+		});
+	}
+
+	/**
+	 * The messages that were moved to the dead-letter queue of a queue.
+	 *
+	 * @param queueName - The name of the @Queue decorator.
+	 * @returns
+	 */
+	deadLetters(queueName: string): readonly IQueueMessage[] {
+		return this.sqs.getQueue(getDeadLetterQueueName(this.stage, queueName)).all;
+	}
+
+	private schedule() {
+		this.timer = setTimeout(async () => {
+			try {
+				await this.poll();
+			} catch (error: any) {
+				console.error('Polling the queues failed:', error.message);
+			}
+
+			if (this.timer) this.schedule();
+		}, this.interval);
+	}
+
+	private async handleBatch(
+		{ queueHandler, folder, codeFile, queueName }: ILoadedQueueHandler,
+		queue: InMemoryQueue,
+		messages: IQueueMessage[],
+		options: IQueueFlushOptions
+	) {
+		const event: SQSEvent = { Records: messages.map(message => this.toRecord(queue, message)) };
+		let failedIds: string[];
+
+		try {
+			const instance = new (queueHandler as any)();
+			const response: SQSBatchResponse | void = await this.invoker.invoke(folder, codeFile, event, context => invokeHandler(instance, event, context));
+			failedIds = (response?.batchItemFailures || []).map(failure => failure.itemIdentifier);
+		} catch (error) {
+			console.error(`${queueHandler.name} failed:`, error);
+			failedIds = messages.map(message => message.messageId);
+		}
+
+		messages.forEach(message => {
+			if (!failedIds.includes(message.messageId)) return queue.delete(message.receiptHandle!);
+			if (options.skipVisibilityTimeout) queue.changeVisibility(message.receiptHandle!, 0);
+		});
+
+		const exhausted = messages.filter(message => failedIds.includes(message.messageId) && message.receiveCount >= (queue.attributes.maxReceiveCount || Infinity));
+		if (exhausted.length)
+			console.error(`${exhausted.length} message(s) of ${queueName} failed ${queue.attributes.maxReceiveCount} times, they are moved to the dead-letter queue.`);
+	}
+
+	private toRecord(queue: InMemoryQueue, message: IQueueMessage): SQSRecord {
+		return {
+			messageId: message.messageId,
+			receiptHandle: message.receiptHandle!,
+			body: message.body,
+			attributes: {
+				ApproximateReceiveCount: String(message.receiveCount),
+				SentTimestamp: String(message.sentTimestamp),
+				SenderId: 'local',
+				ApproximateFirstReceiveTimestamp: String(message.firstReceiveTimestamp)
+			},
+			messageAttributes: {},
+			md5OfBody: message.md5OfBody,
+			eventSource: 'aws:sqs',
+			eventSourceARN: queue.arn,
+			awsRegion: process.env.REGION || 'local'
+		};
+	}
+}
@@ -0,0 +1,241 @@
+/**
+ * The schedule expressions of EventBridge, which the local server runs the @Schedule handlers with, in UTC like EventBridge.
+ *
+ * rate(value unit), e.g. rate(5 minutes) or rate(1 day)
+ * cron(minutes hours day-of-month month day-of-week year), e.g. cron(0 6 ? * MON-FRI *)
+ */
+
+export interface ISchedule {
+	expression: string;
+	/**
+	 * The first run after a time.
+	 *
+	 * @param after - E.g. the time of the previous run, or when the rate schedule started.
+	 * @returns - Undefined when there isn't any run left, e.g. for a cron expression with a year in the past.
+	 */
+	next(after: Date): Date | undefined;
+}
+
+const RATE_UNITS: Record<string, number> = {
+	minute: 60 * 1000,
+	hour: 60 * 60 * 1000,
+	day: 24 * 60 * 60 * 1000
+};
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+// Day-of-week 1 is Sunday.
+const WEEKDAYS = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const MIN_YEAR = 1970;
+const MAX_YEAR = 2199;
+
+interface IRange {
+	min: number;
+	max: number;
+	names?: string[];
+}
+
+type DayMatcher = (date: Date) => boolean;
+
+/**
+ * Parse a schedule expression of a @Schedule decorator.
+ *
+ * ! Throws for an expression that EventBridge wouldn't accept either, so that the CDK app fails the same way.
+ *
+ * @param expression
+ * @returns
+ */
+export const parseScheduleExpression = (expression: string): ISchedule => {
+	const rate = /^rate\((.*)\)$/.exec(expression.trim());
+	if (rate) return parseRate(expression, rate[1]);
+
+	const cron = /^cron\((.*)\)$/.exec(expression.trim());
+	if (cron) return parseCron(expression, cron[1]);
+
+	throw invalid(expression, 'it has to be rate(...) or cron(...)');
+}
+
+const parseRate = (expression: string, value: string): ISchedule => {
+	const match = /^(\d+) (minute|minutes|hour|hours|day|days)$/.exec(value.trim());
+	if (!match) throw invalid(expression, 'the rate has to be a number and a unit, e.g. rate(5 minutes)');
+
+	const count = Number(match[1]);
+	const unit = match[2].replace(/s$/, '');
+	if (count < 1) throw invalid(expression, 'the rate has to be at least 1');
+	// Like EventBridge, rate(1 minutes) and rate(5 minute) are rejected.
+	if ((count === 1) !== (match[2] === unit)) throw invalid(expression, `use "${count === 1 ? unit : `${unit}s`}" for a rate of ${count}`);
+
+	const period = count * RATE_UNITS[unit];
+	return { expression, next: after => new Date(after.getTime() + period) };
+}
+
+const parseCron = (expression: string, value: string): ISchedule => {
+	const fields = value.trim().split(/\s+/);
+	if (fields.length !== 6) throw invalid(expression, 'cron has 6 fields: minutes hours day-of-month month day-of-week year');
+
+	const [minutesField, hoursField, dayOfMonthField, monthField, dayOfWeekField, yearField] = fields;
+	if ((dayOfMonthField === '?') === (dayOfWeekField === '?'))
+		throw invalid(expression, 'either the day-of-month or the day-of-week has to be "?"');
+
+	const parse = (field: string, range: IRange) => {
+		try {
+			return parseValues(field, range);
+		} catch (error: any) {
+			throw invalid(expression, error.message);
+		}
+	};
+
+	const minutes = parse(minutesField, { min: 0, max: 59 });
+	const hours = parse(hoursField, { min: 0, max: 23 });
+	const months = parse(monthField, { min: 1, max: 12, names: MONTHS });
+	const years = parse(yearField, { min: MIN_YEAR, max: MAX_YEAR });
+
+	let matchesDay: DayMatcher;
+	try {
+		matchesDay = dayOfMonthField === '?' ? parseDayOfWeek(dayOfWeekField) : parseDayOfMonth(dayOfMonthField);
+	} catch (error: any) {
+		throw invalid(expression, error.message);
+	}
+
+	return {
+		expression,
+		next(after) {
+			// The next whole minute after the given time.
+			const date = new Date(Math.floor(after.getTime() / 60000) * 60000 + 60000);
+
+			while (date.getUTCFullYear() <= MAX_YEAR) {
+				if (!years.has(date.getUTCFullYear())) {
+					date.setUTCFullYear(date.getUTCFullYear() + 1, 0, 1);
+					date.setUTCHours(0, 0, 0, 0);
+				}
+				else if (!months.has(date.getUTCMonth() + 1)) {
+					date.setUTCMonth(date.getUTCMonth() + 1, 1);
+					date.setUTCHours(0, 0, 0, 0);
+				}
+				else if (!matchesDay(date)) {
+					date.setUTCDate(date.getUTCDate() + 1);
+					date.setUTCHours(0, 0, 0, 0);
+				}
+				else if (!hours.has(date.getUTCHours())) date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+				else if (!minutes.has(date.getUTCMinutes())) date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+				else return date;
+			}
+
+			return undefined;
+		}
+	};
+}
+
+/**
+ * Parse a field with values, names, ranges, steps and lists, e.g. "0,30", "MON-FRI", "*\/5" or "10-40/10".
+ *
+ * @param field
+ * @param range
+ * @returns
+ */
+const parseValues = (field: string, range: IRange) => {
+	const values = new Set<number>();
+
+	field.split(',').forEach(part => {
+		const [base, stepText] = part.split('/');
+		const step = stepText === undefined ? 1 : toInteger(stepText, 'step');
+		if (step < 1) throw new Error(`the step of "${part}" has to be at least 1`);
+
+		let start: number;
+		let end: number;
+
+		if (base === '*') [start, end] = [range.min, range.max];
+		else if (base.includes('-')) [start, end] = base.split('-').map(value => toValue(value, range));
+		else {
+			start = toValue(base, range);
+			// E.g. 5/15 is every 15 from 5 on.
+			end = stepText === undefined ? start : range.max;
+		}
+
+		if (start > end) throw new Error(`"${part}" is an empty range`);
+		for (let value = start; value <= end; value += step) values.add(value);
+	});
+
+	return values;
+}
+
+/**
+ * Day-of-month, with L for the last day of the month and W for the nearest weekday, e.g. 15W or LW.
+ *
+ * @param field
+ * @returns
+ */
+const parseDayOfMonth = (field: string): DayMatcher => {
+	if (field === 'L') return date => date.getUTCDate() === daysInMonth(date);
+	if (field === 'LW') return date => date.getUTCDate() === nearestWeekday(date, daysInMonth(date));
+
+	const weekday = /^(\d+)W$/.exec(field);
+	if (weekday) {
+		const day = toValue(weekday[1], { min: 1, max: 31 });
+		return date => date.getUTCDate() === nearestWeekday(date, Math.min(day, daysInMonth(date)));
+	}
+
+	const days = parseValues(field, { min: 1, max: 31 });
+	return date => days.has(date.getUTCDate());
+}
+
+/**
+ * Day-of-week, with 5L for the last Thursday of the month and 2#1 for the first Monday of the month.
+ *
+ * @param field
+ * @returns
+ */
+const parseDayOfWeek = (field: string): DayMatcher => {
+	const range = { min: 1, max: 7, names: WEEKDAYS };
+	const weekdayOf = (date: Date) => date.getUTCDay() + 1;
+
+	const last = /^(\w+)L$/.exec(field);
+	if (last) {
+		const weekday = toValue(last[1], range);
+		return date => weekdayOf(date) === weekday && date.getUTCDate() + 7 > daysInMonth(date);
+	}
+
+	const nth = /^(\w+)#(\d)$/.exec(field);
+	if (nth) {
+		const weekday = toValue(nth[1], range);
+		const occurrence = toInteger(nth[2], 'occurrence');
+		if (occurrence < 1 || occurrence > 5) throw new Error(`"${field}" has to name the 1st to 5th weekday of the month`);
+
+		return date => weekdayOf(date) === weekday && Math.ceil(date.getUTCDate() / 7) === occurrence;
+	}
+
+	const weekdays = parseValues(field, range);
+	return date => weekdays.has(weekdayOf(date));
+}
+
+const toValue = (value: string, range: IRange) => {
+	const index = range.names?.indexOf(value.toUpperCase()) ?? -1;
+	const number = index >= 0 ? index + range.min : toInteger(value, 'value');
+
+	if (number < range.min || number > range.max) throw new Error(`${value} isn't between ${range.min} and ${range.max}`);
+	return number;
+}
+
+const toInteger = (value: string, name: string) => {
+	if (!/^\d+$/.test(value)) throw new Error(`"${value}" isn't a valid ${name}`);
+	return Number(value);
+}
+
+const daysInMonth = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+
+/**
+ * The weekday nearest to a day of the month of a date, without leaving the month.
+ *
+ * @param date
+ * @param day
+ * @returns - The day of the month.
+ */
+const nearestWeekday = (date: Date, day: number) => {
+	const weekday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), day)).getUTCDay();
+
+	if (weekday === 6) return day === 1 ? 3 : day - 1;
+	if (weekday === 0) return day === daysInMonth(date) ? day - 2 : day + 1;
+	return day;
+}
+
+const invalid = (expression: string, reason: string) => new Error(`Invalid schedule expression "${expression}": ${reason}.`);
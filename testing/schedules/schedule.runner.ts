@@ -0,0 +1,131 @@
+import { ScheduledEvent } from 'aws-lambda';
+import { v4 } from 'uuid';
+
+import { IReloadable } from '../app.factory';
+import { ILoadedScheduledHandler, loadScheduledHandlers } from '../controller.loader';
+import { LambdaInvoker } from '../lambda-runtime/lambda.invoker';
+import { invokeHandler } from '../../lib/stacks/lambda/helpers/lambda-handler.helper';
+import { getFunctionName } from '../../lib/stacks/lambda/lambda-function.definition';
+import { ISchedule, parseScheduleExpression } from './schedule.expression';
+
+// The longest delay of setTimeout, a later run is scheduled again when it is reached.
+const MAX_DELAY = 2 ** 31 - 1;
+
+interface IScheduledRun {
+	handler: ILoadedScheduledHandler;
+	schedule: ISchedule;
+	timer?: NodeJS.Timeout;
+}
+
+/**
+ * Invokes the @Schedule handlers at the times of their schedule expressions, like their EventBridge rules do.
+ *
+ * A rate starts when the runner starts, e.g. rate(5 minutes) runs 5 minutes after the server started.
+ */
+export class ScheduleRunner implements IReloadable {
+	private runs: IScheduledRun[] = [];
+	private isStarted = false;
+	private stage = process.env.STAGE || 'local';
+
+	constructor(private extension: 'js' | 'ts', private invoker: LambdaInvoker) {
+		this.prepareReload().commit();
+	}
+
+	get handlers() {
+		return this.runs.map(run => run.handler);
+	}
+
+	/**
+	 * Load the scheduled handlers of the current lambda code, which are scheduled instead of the current ones once committed.
+	 *
+	 * ! Throws for an invalid schedule expression, the previous handlers are then still scheduled.
+	 * ! The app unloads the lambda code on a reload, so call this after ILocalApp.prepareReload().
+	 */
+	prepareReload() {
+		const runs = loadScheduledHandlers(this.extension).map(handler => ({ handler, schedule: parseScheduleExpression(handler.expression) }));
+
+		return {
+			commit: () => {
+				this.clearTimers();
+				this.runs = runs;
+				if (this.isStarted) this.start();
+			}
+		};
+	}
+
+	start() {
+		this.isStarted = true;
+
+		const now = new Date();
+		this.runs.forEach(run => this.scheduleNext(run, now));
+	}
+
+	stop() {
+		this.isStarted = false;
+		this.clearTimers();
+	}
+
+	/**
+	 * Invoke a scheduled handler right away, with the event of its rule.
+	 *
+	 * @param scheduledHandler - The class of the handler, e.g. ItemsCountScheduledHandler.
+	 * @returns - The result of the handler.
+	 */
+	async run(scheduledHandler: Function) {
+		const run = this.runs.find(run => run.handler.scheduledHandler.name === scheduledHandler.name);
+		if (!run) throw new Error(`${scheduledHandler.name} isn't a @Schedule handler.`);
+
+		return await this.invoke(run.handler, new Date());
+	}
+
+	/**
+	 * Wait for the next time of the schedule, then invoke the handler and schedule the time after that.
+	 *
+	 * @param run
+	 * @param after
+	 */
+	private scheduleNext(run: IScheduledRun, after: Date) {
+		const next = run.schedule.next(after);
+		if (!next) return;
+
+		const wait = (time: Date) => {
+			const delay = time.getTime() - Date.now();
+
+			run.timer = setTimeout(async () => {
+				if (delay > MAX_DELAY) return wait(time);
+
+				try {
+					await this.invoke(run.handler, time);
+				} catch (error) {
+					console.error(`${run.handler.scheduledHandler.name} failed:`, error);
+				}
+
+				if (this.isStarted && this.runs.includes(run)) this.scheduleNext(run, time);
+			}, Math.min(Math.max(delay, 0), MAX_DELAY));
+		};
+
+		wait(next);
+	}
+
+	private async invoke({ scheduledHandler, folder, codeFile }: ILoadedScheduledHandler, time: Date) {
+		const region = process.env.REGION || 'local';
+		const event: ScheduledEvent = {
+			version: '0',
+			id: v4(),
+			'detail-type': 'Scheduled Event',
+			source: 'aws.events',
+			account: '000000000000',
+			time: time.toISOString().replace(/\.\d{3}Z$/, 'Z'),
+			region,
+			resources: [`arn:aws:events:${region}:000000000000:rule/${getFunctionName(this.stage, folder, codeFile)}-schedule`],
+			detail: {}
+		};
+
+		const instance = new (scheduledHandler as any)();
+		return await this.invoker.invoke(folder, codeFile, event, context => invokeHandler(instance, event, context));
+	}
+
+	private clearTimers() {
+		this.runs.forEach(run => clearTimeout(run.timer));
+	}
+}
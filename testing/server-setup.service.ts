@@ -1,268 +1,138 @@
-import { CreateTableCommand, DynamoDBClient, ListTablesCommand } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { CreateTableCommand, DeleteTableCommand, ListTablesCommand } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
 
 import fs from 'fs';
 import path from 'path';
-import { parse } from 'csv-parse/sync';
 
-const REGION = process.env.REGION!;
-const TABLE_NAME = process.env.TABLE_NAME!;
+import { ISeedConfig } from '../lib/interfaces/stage.config';
+import { createDocumentClient } from '../lib/stacks/lambda/services/dynamodb-client.factory';
+import { toCreateTableInput } from '../lib/stacks/data/data-table.definition';
+import { TESTING_FOLDER } from './paths';
+import { FixtureService } from './fixture.service';
+import { IExportOptions, TableExportService } from './table-export.service';
+import { TableMigrationService } from './table-migration.service';
 
-interface CsvRow {
-	[key: string]: string;
-}
+const TABLE_NAME = process.env.TABLE_NAME!;
 
 /**
  * This service is used to help finish the startup process of your local express server.
  */
 export class ServerSetupService {
 	private client: DynamoDBDocumentClient;
+	private fixtureService: FixtureService;
 
 	constructor() {
-		const dynamoDbClient = new DynamoDBClient({
-			region: REGION,
-			endpoint: 'http://localhost:8000'
-		});
-		this.client = DynamoDBDocumentClient.from(dynamoDbClient);
+		this.client = createDocumentClient(true);
+		this.fixtureService = new FixtureService(this.client, TABLE_NAME);
 	}
 
 	/**
 	 * Start the setup process for the local server.
+	 * 
+	 * @param recreate - Recreate the table when its schema has changes that can't be applied in place.
+	 * @param seed - Which fixtures are seeded into a new table.
 	 */
-	async setup() {
+	async setup(recreate = false, seed: ISeedConfig = { onCreate: true, entities: [] }) {
 		const tableNames = await this.listTables();
 
 		console.group('Verifying that required tables exist.');
 
 		if (!tableNames.includes(TABLE_NAME)) {
 			await this.createTable();
-			await this.sourceTableFromCsv();
-			await this.sourceTableFromJson();
-		} else console.log(`Table, ${TABLE_NAME}, already exists on the server.`);
+			if (seed.onCreate) await this.seed(seed.entities);
+		} else {
+			console.log(`Table, ${TABLE_NAME}, already exists on the server.`);
+			await new TableMigrationService(this.client).migrate(toCreateTableInput(TABLE_NAME), recreate);
+		}
 
 		console.groupEnd();
 	}
 
 	/**
-	 * Get a list of the DynamoDB tables on the server.
+	 * Write the data of the fixtures to the table, replacing items with the same key.
 	 * 
-	 * @returns 
+	 * @param entities - Only seed the fixtures of these entities, all of them when empty.
 	 */
-	private async listTables() {
-		console.group('Getting list of existing tables.');
-
-		const cmd = new ListTablesCommand();
-		const response = await this.client.send(cmd);
-		const tableNames = response.TableNames || [];
-
-		console.log(`Found ${tableNames.length} table(s).`);
-		console.groupEnd();
-
-		return tableNames;
+	async seed(entities: string[] = []) {
+		await this.fixtureService.seed(entities);
 	}
 
 	/**
-	 * Create a new DynamoDB table.
+	 * Delete every item of the table.
 	 */
-	private async createTable() {
-		console.group(`Creating DynamoDB table: ${TABLE_NAME}.`);
-
-		const cmd = new CreateTableCommand({
-			TableName: TABLE_NAME,
-			BillingMode: 'PAY_PER_REQUEST',
-			KeySchema: [
-				{
-					AttributeName: 'PK',
-					KeyType: 'HASH'
-				},
-				{
-					AttributeName: 'SK',
-					KeyType: 'RANGE'
-				}
-			],
-			AttributeDefinitions: [
-				{
-					AttributeName: 'PK',
-					AttributeType: 'S'
-				},
-				{
-					AttributeName: 'SK',
-					AttributeType: 'S'
-				}
-			],
-			GlobalSecondaryIndexes: [
-				{
-					IndexName: 'SK-PK-index',
-					KeySchema: [
-						{
-							AttributeName: 'SK',
-							KeyType: 'HASH'
-						},
-						{
-							AttributeName: 'PK',
-							KeyType: 'RANGE'
-						}
-					],
-					Projection: {
-						ProjectionType: 'ALL'
-					}
-				}
-			]
-		});
-
-		await this.client.send(cmd);
-
-		console.log('Table created.');
-		console.groupEnd();
+	async truncate() {
+		await this.fixtureService.truncate();
 	}
 
 	/**
-	 * Read a CSV file, parse the data and save it to DynamoDB.
+	 * Delete every item of the table and seed it again, to get back to the known dataset.
 	 */
-	private async sourceTableFromCsv() {
-		console.group(`Sourcing DynamoDB table ${TABLE_NAME} from CSV.`);
-
-		const filePath = path.resolve(__dirname, '..', '..', 'testing', 'import-data.csv');
-		const fileContent = fs.readFileSync(filePath, 'utf-8');
-		const records: CsvRow[] = parse(fileContent, {
-			columns: true,
-			trim: true,
-			skip_empty_lines: true,
-		});
-
-		console.log(`Sourcing ${records.length} items...`);
-
-		for (const record of records) {
-			// Remove unwanted properties caused by the CSV format
-			for (const key in record)
-				if (!record[key].length || record[key] === 'null')
-					delete record[key];
-
-			const cmd = new PutCommand({
-				TableName: TABLE_NAME,
-				Item: this.parseJsonPropertiesForCsvData(record)
-			});
-			await this.client.send(cmd);
-		}
-
-		console.groupEnd();
-		console.log(`Sourcing from CSV completed.`);
+	async reset() {
+		await this.fixtureService.truncate();
+		await this.fixtureService.seed();
 	}
 
 	/**
-	 * Read a JSON file, parse the data and save it to DynamoDB.
+	 * Write the data of the table to files that can be used as fixtures.
+	 * 
+	 * @param options 
+	 * @returns - The paths of the files.
 	 */
-	private async sourceTableFromJson() {
-		console.group(`Sourcing DynamoDB table ${TABLE_NAME} from JSON.`);
-
-		const filePath = path.resolve(__dirname, '..', '..', 'testing', 'import-data.json');
-		const records: CsvRow[] = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
-
-		console.log(`Sourcing ${records.length} items...`);
-
-		for (const record of records) {
-			const cmd = new PutCommand({
-				TableName: TABLE_NAME,
-				Item: record
-			});
-			await this.client.send(cmd);
-		}
-
-		console.groupEnd();
-		console.log(`Sourcing from JSON completed.`);
+	async export(options: IExportOptions) {
+		return await new TableExportService(this.client, TABLE_NAME).export(options);
 	}
 
 	/**
-	 * The CSV data that was exported generally has stringified child objects that still include their DynamoDB types.
-	 * E.g. a stringified version of [{S: "John"}, {S: "Jane"}] which ideally should be ["John", "Jane"].
-	 * 
-	 * This function goes through properties and tries to at least convert the properties back to objects.
-	 * It then calls another function to try and fix the objects.
-	 * 
-	 * ! This function is currently limited to a single-level. So an object in an object will not be covered.
+	 * Write the AWS CLI JSON (`aws dynamodb create-table --cli-input-json`) from the table definition.
 	 * 
-	 * @see removeDynamoDbProperties
-	 * 
-	 * @param record 
-	 * @returns 
+	 * @param tableName 
+	 * @returns - The path of the file.
 	 */
-	private parseJsonPropertiesForCsvData(record: CsvRow) {
-		const output: any = {};
+	writeTableConfig(tableName = TABLE_NAME) {
+		const filePath = path.join(TESTING_FOLDER, 'dynamodb.table-config.json');
+		fs.writeFileSync(filePath, JSON.stringify(toCreateTableInput(tableName), null, '\t'));
 
-		for (const prop in record) {
-			try {
-				// Try to parse the property as JSON.
-				output[prop] = JSON.parse(record[prop]);
+		return filePath;
+	}
 
-				// Numbers not starting with a "0" would still be parsed, e,g, '123456789' would end up as 123456789, and we only want the next function to execute for objects.
-				if (typeof output[prop] === 'object')
-					output[prop] = this.removeDynamoDbProperties(output[prop]);
-			} catch (error) {
-				// If it could not be parsed, then use as is.
-				output[prop] = record[prop];
-			}
-		}
+	/**
+	 * Create a new DynamoDB table.
+	 */
+	async createTable() {
+		console.group(`Creating DynamoDB table: ${TABLE_NAME}.`);
+
+		const cmd = new CreateTableCommand(toCreateTableInput(TABLE_NAME));
+		await this.client.send(cmd);
 
-		return output;
+		console.log('Table created.');
+		console.groupEnd();
 	}
 
 	/**
-	 * Remove the DynamoDB object properties from the property.
-	 * 
-	 * E.g. From:
-	 * [{S: "John"}]
-	 * 
-	 * To:
-	 * ["John"]
-	 * 
-	 * @param recordProp 
+	 * Delete the DynamoDB table, e.g. the table of an integration test.
 	 */
-	private removeDynamoDbProperties(recordProp: any | any[]) {
-		if (Array.isArray(recordProp)) {
-			/**
-			 * Detect if this is a straight array or an object array item.
-			 * 
-			 * A straight-array would be something like:
-			 * [{S: "John"}, {S: "Jane"}]
-			 * 
-			 * An object array would be something like:
-			 * [{firstName: {S: "John"}}, {firstName: {S: "Jane"}}]
-			 */
-			const isObjectArray = !Object.keys(recordProp[0]).some(key => ['S', 'N', 'BOOL'].includes(key));
+	async deleteTable() {
+		const cmd = new DeleteTableCommand({ TableName: TABLE_NAME });
+		await this.client.send(cmd);
 
-			return recordProp.map(a => {
-				if (isObjectArray) {
-					return this.parseDynamoDbProp(a);
-				}
-				else {
-					for (const key in a) {
-						if (key === 'S') return a.S;
-						else if (key === 'N') return parseFloat(a.N);
-						else if (key === 'BOOL') return a.BOOL;
-					}
-				}
-			});
-		} else {
-			return this.parseDynamoDbProp(recordProp);
-		}
+		console.log(`Table deleted: ${TABLE_NAME}.`);
 	}
 
 	/**
-	 * Parse a single property from the import data. 
-	 * 
-	 * ! This function can be updated to use recursion in case you need to go deeper than 1 level.
+	 * Get a list of the DynamoDB tables on the server.
 	 * 
-	 * @param recordProp 
 	 * @returns 
 	 */
-	private parseDynamoDbProp(recordProp: any) {
-		const result: any = {};
-		for (const key in recordProp) {
-			const prop: any = recordProp[key];
-			if (prop.S) result[key] = prop.S;
-			else if (prop.N) result[key] = parseFloat(prop.N);
-			else if (prop.BOOL) result[key] = prop.BOOL;
-		}
-		return result;
+	private async listTables() {
+		console.group('Getting list of existing tables.');
+
+		const cmd = new ListTablesCommand();
+		const response = await this.client.send(cmd);
+		const tableNames = response.TableNames || [];
+
+		console.log(`Found ${tableNames.length} table(s).`);
+		console.groupEnd();
+
+		return tableNames;
 	}
 }
\ No newline at end of file
@@ -1,78 +1,97 @@
 import 'reflect-metadata';
-import cors from 'cors';
-import express from 'express';
 import path from 'path';
 import dotenv from 'dotenv';
-import { globSync } from 'glob';
+import { LAMBDA_FOLDER, TESTING_FOLDER } from './paths';
+import { loadConfig, resolveStage, toServerEnvironment } from '../lib/config/config.loader';
 
 /**
- * Load environments from location other than the root folder. 
+ * Load the local overrides of the config, e.g. DYNAMODB_MODE=memory, from location other than the root folder.
  * 
  * ? This will go out of the dist folder to find the file.
- * ! Place it above the controllers import to make sure the variables are available in the controllers.
  */
 dotenv.config({
-	path: path.resolve(__dirname, '..', '..', 'testing', '.env')
+	path: path.join(TESTING_FOLDER, '.env')
 });
 
-globSync('../lib/stacks/lambda/code/**/*.js', { cwd: __dirname }).forEach(f => require(path.join(__dirname, f)));
+/**
+ * The config of the stage (--stage or STAGE, "local" by default), from lib/config/<stage>.config.ts.
+ *
+ * The lambda code reads it from the environment variables, the same way as the deployed functions read the variables that the CDK sets.
+ * ! Place it above the controllers import to make sure the variables are available in the controllers.
+ */
+const config = loadConfig(resolveStage('local'));
+Object.assign(process.env, toServerEnvironment(config));
+const server = config.server!;
 
-import { controllers } from './decorators';
+import { createApp, reloadLambdaCode } from './app.factory';
+import { LambdaCodeWatcher } from './lambda-code.watcher';
 // Optional service used to import test-data
 import { ServerSetupService } from './server-setup.service';
+import { isInMemoryMode, useInMemoryDynamoDb } from './in-memory-dynamodb/in-memory-request.handler';
+import { isWorkerMode, LambdaWorkerPool } from './lambda-runtime/lambda-worker.pool';
+import { LambdaInvoker } from './lambda-runtime/lambda.invoker';
+import { StreamHandlerDispatcher } from './dynamodb-streams/stream-handler.dispatcher';
+import { TableStreamPoller } from './dynamodb-streams/table-stream.poller';
+import { useInMemorySqs } from './in-memory-sqs/in-memory-sqs-request.handler';
+import { QueueHandlerDispatcher } from './queues/queue-handler.dispatcher';
+import { ScheduleRunner } from './schedules/schedule.runner';
+
+// Runs against an in-memory table instead of the DynamoDB Local container when the dynamoDb mode of the config is "memory".
+const database = isInMemoryMode() ? useInMemoryDynamoDb() : undefined;
+if (database) console.log('Using the in-memory DynamoDB, the data is lost when the server stops.');
+
+// The queues of the @Queue handlers, the messages are lost when the server stops.
+const sqs = useInMemorySqs();
+
+// Runs every invocation in a container of its function, with its timeout and memory size, when the lambdaExecution of the config is "worker".
+const pool = isWorkerMode() ? new LambdaWorkerPool({
+	database,
+	sqs,
+	// Seconds, 0 makes every invocation a cold start.
+	idleTimeout: server.idleTimeout !== undefined ? server.idleTimeout * 1000 : undefined
+}) : undefined;
+if (pool) console.log('Running the functions in worker threads, like Lambda containers.');
+
+const PORT = server.port;
+
+// ".ts" when the server runs through ts-node, e.g. npm run start:watch
+const CODE_EXTENSION = path.extname(__filename).slice(1) as 'js' | 'ts';
+
+const localApp = createApp({ extension: CODE_EXTENSION, serverUrl: `http://localhost:${PORT}`, pool });
+
+// Invokes the @StreamHandler functions with the changes of the table, once the setup is done.
+const invoker = new LambdaInvoker(CODE_EXTENSION, pool);
+const streams = new StreamHandlerDispatcher(CODE_EXTENSION, invoker);
+streams.handlers.forEach(({ streamHandler }) => console.log(`Registered stream handler: ${streamHandler.name}`));
+
+// Invokes the @Queue handlers with the messages of their queues, and the @Schedule handlers at their times.
+const queues = new QueueHandlerDispatcher(CODE_EXTENSION, invoker, sqs);
+queues.handlers.forEach(({ queueHandler, queueName }) => console.log(`Registered queue handler: ${queueHandler.name} (${queueName})`));
+const schedules = new ScheduleRunner(CODE_EXTENSION, invoker);
+schedules.handlers.forEach(({ scheduledHandler, expression }) => console.log(`Registered scheduled handler: ${scheduledHandler.name} (${expression})`));
+
+// Reload the routes when the lambda code changes, the server and the DynamoDB connection keep running.
+if (process.argv.includes('--watch')) {
+	new LambdaCodeWatcher(LAMBDA_FOLDER, files => {
+		console.group(`\nReloading the lambda code, changed: ${files.join(', ')}`);
+
+		try {
+			// Nothing is replaced until the routes and all the handlers are loaded.
+			const { added, removed } = reloadLambdaCode(localApp, [streams, queues, schedules]);
+			added.forEach(route => console.log(`Registered route: ${route}`));
+			removed.forEach(route => console.log(`Removed route: ${route}`));
+			console.log('Reloaded.');
+		} catch (e: any) {
+			console.error('Reload failed, still serving the previous code:', e);
+		}
 
-const app = express();
-app.use(express.json());
-app.use(cors());
-
-type HttpMethod = "get" | "post" | "put" | "delete" | "patch" | "all";
-
-// Keep track of routes to test for duplicates
-const routes: string[] = [];
-
-controllers.forEach((controller: any) => {
-	const instance = new (controller as any)();
-	const ctor = instance.constructor as any;
-	const base: string = Reflect.getMetadata('basePath', ctor) || '';
-
-	const prototype = Object.getPrototypeOf(instance);
-	const methodNames = Object.getOwnPropertyNames(prototype).filter(name => name !== 'constructor');
-
-	methodNames.forEach(methodName => {
-		const route: string = Reflect.getMetadata('route', prototype, methodName);
-		const httpMethod: HttpMethod = Reflect.getMetadata('method', prototype, methodName)?.toLowerCase();
-		const fullPath = `/${[base, route].filter(Boolean).join('/')}`;
-
-		if (fullPath && httpMethod) {
-			const route = `[${httpMethod.toUpperCase()}] ${fullPath}`;
-			const isExistingRoute = routes.includes(route);
-
-			if (isExistingRoute) {
-				console.error(`Duplicate Route: ${route}`);
-				throw `Duplicate Route: ${route}`;
-			}
-			else routes.push(route);
-
-			app[httpMethod](fullPath, async (req: any, res: any) => {
-				try {
-					if (req.body && typeof req.body === 'object') req.body = JSON.stringify(req.body);
-					if (req.params) req.pathParameters = req.params;
+		console.groupEnd();
+	}).start();
 
-					const result = await instance[methodName](req);
-					if (typeof result.body === 'string') result.body = JSON.parse(result.body);
+	console.log(`Watching ${LAMBDA_FOLDER} for changes.`);
+}
 
-					res.status(result.statusCode || 200).json(result.body || {});
-				} catch (e: any) {
-					res.status(500).json({ error: e.message });
-				}
-			});
-
-			console.log(`Registered route: [${httpMethod.toUpperCase()}] ${fullPath}`);
-		}
-	});
-});
-
-const PORT = 3000;
+const { app } = localApp;
 
 app.listen(PORT, async () => {
 	console.log(`Mock API server running on http://localhost:${PORT}`);
@@ -80,7 +99,14 @@ app.listen(PORT, async () => {
 	// Optionally, configure a service that sets up your data.
 	console.group('\nExecuting Setup Scripts.');
 	const setupService = new ServerSetupService();
-	await setupService.setup();
+	await setupService.setup(process.argv.includes('--recreate'), server.seed);
 	console.groupEnd();
 	console.log('Setup completed.');
+
+	// The changes of the setup, e.g. the seeding, don't invoke the stream handlers.
+	await new TableStreamPoller(config.tableName, records => streams.dispatch(records)).start();
+	console.log(`Polling the stream of ${config.tableName}.`);
+
+	queues.start();
+	schedules.start();
 });
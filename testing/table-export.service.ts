@@ -0,0 +1,168 @@
+import { DynamoDBDocumentClient, ScanCommand } from '@aws-sdk/lib-dynamodb';
+
+import fs from 'fs';
+import path from 'path';
+
+import { DynamoDbType, getDynamoDbType, isAttributeValue, marshallRecord, marshallValue } from './dynamodb-json.parser';
+
+export type ExportFormat = 'csv' | 'json' | 'dynamodb-json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'dynamodb-json'];
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+	'csv': 'csv',
+	'json': 'json',
+	// The S3 export format, an { "Item": { ... } } object per line.
+	'dynamodb-json': 'ndjson'
+};
+
+export interface IExportOptions {
+	format: ExportFormat;
+	// Only export the main items of this entity, i.e. the items with this SK.
+	entity?: string;
+	folder: string;
+}
+
+/**
+ * Writes the data of the local table to files in the formats that the FixtureService imports.
+ *
+ * Items are grouped per entity (the first part of their PK), which is also the first part of the file name, e.g. "item.export.json".
+ * The values are written in a way that importing the files gives back the exact same items.
+ */
+export class TableExportService {
+	constructor(private client: DynamoDBDocumentClient, private tableName: string) { }
+
+	/**
+	 * Scan the table and write the items.
+	 *
+	 * @param options
+	 * @returns - The paths of the files.
+	 */
+	async export(options: IExportOptions) {
+		console.group(`Exporting DynamoDB table ${this.tableName} to ${options.format}.`);
+
+		const items = await this.scanTable(options.entity?.toUpperCase());
+
+		const groups = new Map<string, Record<string, any>[]>();
+		items.forEach(item => {
+			const entity = String(item.PK).split('#')[0];
+			if (!groups.has(entity)) groups.set(entity, []);
+			groups.get(entity)!.push(item);
+		});
+
+		fs.mkdirSync(options.folder, { recursive: true });
+
+		const filePaths: string[] = [];
+		groups.forEach((entityItems, entity) => {
+			const filePath = path.join(options.folder, `${entity.toLowerCase()}.export.${FILE_EXTENSIONS[options.format]}`);
+			fs.writeFileSync(filePath, this.format(entityItems, options.format));
+
+			console.log(`${filePath}: ${entityItems.length} items.`);
+			filePaths.push(filePath);
+		});
+
+		console.log(`Exported ${items.length} items.`);
+		console.groupEnd();
+
+		return filePaths;
+	}
+
+	/**
+	 * Read every item of the table, optionally only the main items of an entity.
+	 *
+	 * @param entity
+	 * @returns
+	 */
+	private async scanTable(entity?: string) {
+		const items: Record<string, any>[] = [];
+		const cmd = new ScanCommand({ TableName: this.tableName });
+
+		if (entity) {
+			cmd.input.FilterExpression = '#sk = :sk';
+			cmd.input.ExpressionAttributeNames = { '#sk': 'SK' };
+			cmd.input.ExpressionAttributeValues = { ':sk': entity };
+		}
+
+		do {
+			const results = await this.client.send(cmd);
+			if (results.Items?.length) items.push(...results.Items);
+
+			cmd.input.ExclusiveStartKey = results.LastEvaluatedKey;
+		} while (cmd.input.ExclusiveStartKey);
+
+		// Keep the files stable between exports, so that they diff well.
+		return items.sort((a, b) => `${a.PK}|${a.SK}`.localeCompare(`${b.PK}|${b.SK}`));
+	}
+
+	private format(items: Record<string, any>[], format: ExportFormat) {
+		switch (format) {
+			case 'csv': return this.toCsv(items);
+			case 'json': return JSON.stringify(items.map(item => this.toJsonRecord(item)), null, '\t');
+			case 'dynamodb-json': return items.map(item => JSON.stringify({ Item: marshallRecord(item) })).join('\n') + '\n';
+		}
+	}
+
+	/**
+	 * Plain JSON can't hold sets and binary values, so those items are written as DynamoDB-JSON, which the importer also reads.
+	 *
+	 * The same goes for items that would be read as DynamoDB-JSON, i.e. where every value looks like { "S": "..." }.
+	 *
+	 * @param item
+	 * @returns
+	 */
+	private toJsonRecord(item: Record<string, any>) {
+		const values = Object.values(item);
+		const isPlain = !values.some(value => this.hasSetOrBinary(value)) && !values.every(isAttributeValue);
+
+		return isPlain ? item : marshallRecord(item);
+	}
+
+	/**
+	 * Write a CSV with a type hint in every column header, e.g. "zipCode (S)".
+	 *
+	 * Columns that don't have the same type for every item (or have empty strings, which the importer skips) don't get a hint,
+	 * their values are written as DynamoDB-JSON instead, e.g. {"S":"John"}.
+	 *
+	 * @param items
+	 * @returns
+	 */
+	private toCsv(items: Record<string, any>[]) {
+		const columns: string[] = ['PK', 'SK'];
+		items.forEach(item => Object.keys(item).forEach(key => {
+			if (!columns.includes(key)) columns.push(key);
+		}));
+
+		const typeHints: Record<string, DynamoDbType | undefined> = {};
+		columns.forEach(column => {
+			const values = items.map(item => item[column]).filter(value => value !== undefined);
+			const types = new Set(values.map(getDynamoDbType));
+
+			typeHints[column] = types.size === 1 && !values.includes('') ? [...types][0] : undefined;
+		});
+
+		const header = columns.map(column => typeHints[column] ? `${column} (${typeHints[column]})` : column);
+		const rows = items.map(item => columns.map(column => item[column] === undefined ? '' : this.toCsvValue(item[column], typeHints[column])));
+
+		return [header, ...rows].map(row => row.map(value => `"${value.replace(/"/g, '""')}"`).join(',')).join('\n') + '\n';
+	}
+
+	private toCsvValue(value: any, typeHint: DynamoDbType | undefined): string {
+		const attributeValue = marshallValue(value);
+
+		switch (typeHint) {
+			case 'S': case 'N': case 'B': return attributeValue[typeHint];
+			case 'BOOL': return String(value);
+			case 'NULL': return 'null';
+			case undefined: return JSON.stringify(attributeValue);
+			// The console format: the content of the attribute value as JSON, e.g. [{"S":"John"}] for a list.
+			default: return JSON.stringify(attributeValue[typeHint]);
+		}
+	}
+
+	private hasSetOrBinary(value: any): boolean {
+		if (value instanceof Set || value instanceof Uint8Array) return true;
+		if (typeof value === 'object' && value !== null) return Object.values(value).some(v => this.hasSetOrBinary(v));
+
+		return false;
+	}
+}
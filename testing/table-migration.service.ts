@@ -0,0 +1,298 @@
+import {
+	AttributeDefinition,
+	CreateTableCommand,
+	CreateTableCommandInput,
+	DeleteTableCommand,
+	DescribeTableCommand,
+	GlobalSecondaryIndex,
+	KeySchemaElement,
+	Projection,
+	StreamSpecification,
+	TableDescription,
+	UpdateTableCommand,
+	waitUntilTableExists,
+	waitUntilTableNotExists
+} from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, ScanCommand } from '@aws-sdk/lib-dynamodb';
+
+import fs from 'fs';
+import path from 'path';
+
+import { FixtureService } from './fixture.service';
+import { TESTING_FOLDER } from './paths';
+
+const MAX_WAIT_SECONDS = 120;
+
+export interface ITableDiff {
+	// Indexes that are declared but don't exist yet, these are added with UpdateTable.
+	missingIndexes: GlobalSecondaryIndex[];
+	// Indexes that exist but aren't declared anymore, these are deleted with UpdateTable.
+	removedIndexes: string[];
+	// The declared stream, when the live table has another one (or none), it is replaced with UpdateTable.
+	stream?: StreamSpecification;
+	// Changes that DynamoDB can't apply to an existing table, these need the table to be recreated.
+	unsupportedChanges: string[];
+}
+
+/**
+ * Keeps an existing local table in line with the table definition, so that the data doesn't have to be thrown away when the schema changes.
+ */
+export class TableMigrationService {
+	constructor(private client: DynamoDBDocumentClient) { }
+
+	/**
+	 * Compare the live table with the declared schema and apply what can be applied in place.
+	 *
+	 * @param declared - The CreateTable input of the table definition.
+	 * @param recreate - Recreate the table when there are changes that can't be applied in place.
+	 */
+	async migrate(declared: CreateTableCommandInput, recreate = false) {
+		const tableName = declared.TableName!;
+		const diff = this.diff(await this.describeTable(tableName), declared);
+
+		if (!diff.missingIndexes.length && !diff.removedIndexes.length && !diff.unsupportedChanges.length && !diff.stream) {
+			console.log(`Table, ${tableName}, matches the table definition.`);
+			return;
+		}
+
+		if (diff.unsupportedChanges.length) {
+			if (recreate) return await this.recreateTable(declared);
+
+			this.printReport(tableName, diff.unsupportedChanges);
+		}
+
+		// Deleted first, so that an index can be renamed.
+		for (const indexName of diff.removedIndexes)
+			await this.deleteIndex(tableName, indexName);
+
+		for (const index of diff.missingIndexes)
+			await this.addIndex(tableName, index, declared.AttributeDefinitions || []);
+
+		if (diff.stream) await this.updateStream(tableName, diff.stream);
+	}
+
+	/**
+	 * Diff the live table against the declared schema.
+	 *
+	 * @param live
+	 * @param declared
+	 * @returns
+	 */
+	diff(live: TableDescription, declared: CreateTableCommandInput): ITableDiff {
+		const unsupportedChanges: string[] = [];
+		const missingIndexes: GlobalSecondaryIndex[] = [];
+
+		if (!this.isSameKeySchema(live.KeySchema, declared.KeySchema))
+			unsupportedChanges.push(`Key schema changed from ${this.formatKeySchema(live.KeySchema)} to ${this.formatKeySchema(declared.KeySchema)}.`);
+
+		(declared.AttributeDefinitions || []).forEach(({ AttributeName, AttributeType }) => {
+			const liveAttribute = live.AttributeDefinitions?.find(attribute => attribute.AttributeName === AttributeName);
+			if (liveAttribute && liveAttribute.AttributeType !== AttributeType)
+				unsupportedChanges.push(`Attribute ${AttributeName} changed type from ${liveAttribute.AttributeType} to ${AttributeType}.`);
+		});
+
+		const liveIndexes = live.GlobalSecondaryIndexes || [];
+		const declaredIndexes = declared.GlobalSecondaryIndexes || [];
+
+		declaredIndexes.forEach(index => {
+			const liveIndex = liveIndexes.find(({ IndexName }) => IndexName === index.IndexName);
+
+			if (!liveIndex) missingIndexes.push(index);
+			else {
+				if (!this.isSameKeySchema(liveIndex.KeySchema, index.KeySchema))
+					unsupportedChanges.push(`Index ${index.IndexName}: key schema changed from ${this.formatKeySchema(liveIndex.KeySchema)} to ${this.formatKeySchema(index.KeySchema)}.`);
+				if (!this.isSameProjection(liveIndex.Projection, index.Projection))
+					unsupportedChanges.push(`Index ${index.IndexName}: projection changed from ${this.formatProjection(liveIndex.Projection)} to ${this.formatProjection(index.Projection)}.`);
+			}
+		});
+
+		const removedIndexes = liveIndexes
+			.filter(({ IndexName }) => !declaredIndexes.some(index => index.IndexName === IndexName))
+			.map(({ IndexName }) => IndexName!);
+
+		const liveStream = this.formatStream(live.StreamSpecification);
+		const declaredStream = this.formatStream(declared.StreamSpecification);
+		const stream = liveStream !== declaredStream ? declared.StreamSpecification || { StreamEnabled: false } : undefined;
+
+		return { missingIndexes, removedIndexes, unsupportedChanges, stream };
+	}
+
+	/**
+	 * Add a global secondary index and wait until it's active.
+	 *
+	 * ! DynamoDB only allows a single index to be created per UpdateTable call.
+	 *
+	 * @param tableName
+	 * @param index
+	 * @param attributeDefinitions
+	 */
+	private async addIndex(tableName: string, index: GlobalSecondaryIndex, attributeDefinitions: AttributeDefinition[]) {
+		console.group(`Adding index ${index.IndexName} to ${tableName}.`);
+
+		const keyNames = (index.KeySchema || []).map(key => key.AttributeName);
+		const cmd = new UpdateTableCommand({
+			TableName: tableName,
+			AttributeDefinitions: attributeDefinitions.filter(attribute => keyNames.includes(attribute.AttributeName)),
+			GlobalSecondaryIndexUpdates: [{ Create: index }]
+		});
+		await this.client.send(cmd);
+
+		await this.waitForIndex(tableName, index.IndexName!);
+
+		console.log('Index is active.');
+		console.groupEnd();
+	}
+
+	/**
+	 * Delete a global secondary index that isn't in the table definition anymore, and wait until it's gone.
+	 *
+	 * @param tableName
+	 * @param indexName
+	 */
+	private async deleteIndex(tableName: string, indexName: string) {
+		console.group(`Deleting index ${indexName} from ${tableName}.`);
+
+		await this.client.send(new UpdateTableCommand({
+			TableName: tableName,
+			GlobalSecondaryIndexUpdates: [{ Delete: { IndexName: indexName } }]
+		}));
+
+		await this.waitForIndex(tableName, indexName, true);
+
+		console.log('Index is deleted.');
+		console.groupEnd();
+	}
+
+	/**
+	 * Enable, change or disable the stream of the table.
+	 *
+	 * ! DynamoDB can't change the view type of an enabled stream, so that stream is disabled first.
+	 *
+	 * @param tableName
+	 * @param stream
+	 */
+	private async updateStream(tableName: string, stream: StreamSpecification) {
+		console.group(`${stream.StreamEnabled ? `Enabling the ${stream.StreamViewType} stream` : 'Disabling the stream'} of ${tableName}.`);
+
+		const live = await this.describeTable(tableName);
+		if (live.StreamSpecification?.StreamEnabled && stream.StreamEnabled)
+			await this.client.send(new UpdateTableCommand({ TableName: tableName, StreamSpecification: { StreamEnabled: false } }));
+
+		await this.client.send(new UpdateTableCommand({ TableName: tableName, StreamSpecification: stream }));
+
+		console.log('Stream updated.');
+		console.groupEnd();
+	}
+
+	/**
+	 * Export the data, recreate the table from the declared schema and import the data again.
+	 *
+	 * A copy of the data is also written to testing/.backups, in case the import fails.
+	 *
+	 * @param declared
+	 */
+	private async recreateTable(declared: CreateTableCommandInput) {
+		const tableName = declared.TableName!;
+		console.group(`Recreating table: ${tableName}.`);
+
+		const items = await this.scanTable(tableName);
+		const backupPath = this.writeBackup(tableName, items);
+		console.log(`Exported ${items.length} items to ${backupPath}.`);
+
+		await this.client.send(new DeleteTableCommand({ TableName: tableName }));
+		await waitUntilTableNotExists({ client: this.client, maxWaitTime: MAX_WAIT_SECONDS }, { TableName: tableName });
+
+		await this.client.send(new CreateTableCommand(declared));
+		await waitUntilTableExists({ client: this.client, maxWaitTime: MAX_WAIT_SECONDS }, { TableName: tableName });
+		console.log('Table recreated.');
+
+		await new FixtureService(this.client, tableName).writeItems(items);
+
+		console.log(`Imported ${items.length} items.`);
+		console.groupEnd();
+	}
+
+	/**
+	 * Read every item of a table.
+	 *
+	 * @param tableName
+	 * @returns
+	 */
+	private async scanTable(tableName: string) {
+		const items: Record<string, any>[] = [];
+		const cmd = new ScanCommand({ TableName: tableName });
+
+		do {
+			const results = await this.client.send(cmd);
+			if (results.Items?.length) items.push(...results.Items);
+
+			cmd.input.ExclusiveStartKey = results.LastEvaluatedKey;
+		} while (cmd.input.ExclusiveStartKey);
+
+		return items;
+	}
+
+	private writeBackup(tableName: string, items: Record<string, any>[]) {
+		const folder = path.join(TESTING_FOLDER, '.backups');
+		fs.mkdirSync(folder, { recursive: true });
+
+		const filePath = path.join(folder, `${tableName}-${new Date().toISOString().replace(/[:.]/g, '-')}.json`);
+		fs.writeFileSync(filePath, JSON.stringify(items, null, '\t'));
+
+		return filePath;
+	}
+
+	private async describeTable(tableName: string) {
+		const response = await this.client.send(new DescribeTableCommand({ TableName: tableName }));
+		return response.Table!;
+	}
+
+	/**
+	 * Poll the table until the index has finished creating and backfilling, or until it's deleted.
+	 *
+	 * @param tableName
+	 * @param indexName
+	 * @param deleted - Wait for the index to be gone instead.
+	 */
+	private async waitForIndex(tableName: string, indexName: string, deleted = false) {
+		const deadline = Date.now() + MAX_WAIT_SECONDS * 1000;
+
+		while (Date.now() < deadline) {
+			const table = await this.describeTable(tableName);
+			const index = table.GlobalSecondaryIndexes?.find(({ IndexName }) => IndexName === indexName);
+			if (deleted ? !index : index?.IndexStatus === 'ACTIVE' && !index.Backfilling) return;
+
+			await new Promise(resolve => setTimeout(resolve, 1000));
+		}
+
+		throw new Error(`Index ${indexName} of ${tableName} was not ${deleted ? 'deleted' : 'active'} after ${MAX_WAIT_SECONDS} seconds.`);
+	}
+
+	private printReport(tableName: string, unsupportedChanges: string[]) {
+		console.group(`Table, ${tableName}, has changes that can't be applied in place:`);
+		unsupportedChanges.forEach(change => console.warn(`- ${change}`));
+		console.log('Restart the server with --recreate to export the data, recreate the table and import the data again.');
+		console.groupEnd();
+	}
+
+	private isSameKeySchema(a: KeySchemaElement[] = [], b: KeySchemaElement[] = []) {
+		return this.formatKeySchema(a) === this.formatKeySchema(b);
+	}
+
+	private isSameProjection(a: Projection = {}, b: Projection = {}) {
+		return this.formatProjection(a) === this.formatProjection(b);
+	}
+
+	private formatKeySchema(keySchema: KeySchemaElement[] = []) {
+		return `(${keySchema.map(({ AttributeName, KeyType }) => `${AttributeName} ${KeyType}`).join(', ')})`;
+	}
+
+	private formatStream(stream?: StreamSpecification) {
+		return stream?.StreamEnabled ? `${stream.StreamViewType}` : 'disabled';
+	}
+
+	private formatProjection(projection: Projection = {}) {
+		const nonKeyAttributes = [...(projection.NonKeyAttributes || [])].sort();
+		return nonKeyAttributes.length ? `${projection.ProjectionType} [${nonKeyAttributes.join(', ')}]` : `${projection.ProjectionType}`;
+	}
+}
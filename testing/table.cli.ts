@@ -0,0 +1,72 @@
+import path from 'path';
+import dotenv from 'dotenv';
+import { TESTING_FOLDER } from './paths';
+import { loadConfig, resolveStage, toServerEnvironment } from '../lib/config/config.loader';
+
+// The same .env as the local server, from both dist/testing and ts-node.
+dotenv.config({
+	path: path.join(TESTING_FOLDER, '.env')
+});
+
+// The same table as the local server, e.g. node dist/testing/table.cli seed --stage local
+// ! Place it above the service import to make sure the variables are available in the service.
+const config = loadConfig(resolveStage('local'));
+Object.assign(process.env, toServerEnvironment(config));
+
+import { ServerSetupService } from './server-setup.service';
+import { EXPORT_FORMATS, ExportFormat } from './table-export.service';
+
+/**
+ * Commands for the local table, e.g.
+ * node dist/testing/table.cli config
+ * node dist/testing/table.cli seed [entity...]
+ * node dist/testing/table.cli reset
+ * node dist/testing/table.cli truncate
+ * node dist/testing/table.cli export [--format csv|json|dynamodb-json] [--entity ITEM] [--out testing/fixtures]
+ */
+const run = async (command: string | undefined, args: string[]) => {
+	const setupService = new ServerSetupService();
+
+	switch (command) {
+		case 'config':
+			console.log(`Written: ${setupService.writeTableConfig(config.tableName)}`);
+			break;
+		case 'seed':
+			await setupService.seed(args);
+			break;
+		case 'reset':
+			await setupService.reset();
+			break;
+		case 'truncate':
+			await setupService.truncate();
+			break;
+		case 'export': {
+			const format = (getOption(args, '--format') || 'json') as ExportFormat;
+			if (!EXPORT_FORMATS.includes(format)) throw new Error(`Unknown format: ${format}. Use one of: ${EXPORT_FORMATS.join(', ')}.`);
+
+			const out = getOption(args, '--out');
+			await setupService.export({
+				format,
+				entity: getOption(args, '--entity'),
+				folder: out ? path.resolve(out) : path.join(TESTING_FOLDER, 'exports')
+			});
+			break;
+		}
+		default:
+			console.log('Usage: node dist/testing/table.cli <config|seed|reset|truncate|export>');
+			process.exitCode = 1;
+	}
+}
+
+const getOption = (args: string[], name: string) => {
+	const i = args.indexOf(name);
+	return i >= 0 ? args[i + 1] : undefined;
+}
+
+// Without the --stage argument, which selected the config.
+const args = process.argv.slice(3).filter((arg, i, all) => arg !== '--stage' && !arg.startsWith('--stage=') && all[i - 1] !== '--stage');
+
+run(process.argv[2], args).catch(error => {
+	console.error(error);
+	process.exitCode = 1;
+});